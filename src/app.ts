@@ -7,24 +7,40 @@ import passport from "passport";
 import swaggerUi from "swagger-ui-express";
 import { createProxyMiddleware } from "http-proxy-middleware";
 import { env } from "./config/env";
-import "./config/passport"; // registers Google OAuth strategy (side-effect)
+import "./config/passport"; // registers OAuth provider strategies (side-effect)
 import { swaggerSpec } from "./config/swagger";
+import { publicJwks } from "./config/jwt-keys";
 import authRoutes from "./routes/auth.routes";
 import paymentsRoutes from "./routes/payments.routes";
 import userRoutes from "./routes/user.routes";
+import companiesRoutes from "./routes/companies.routes";
+import adminRoutes from "./routes/admin.routes";
+import usersRoutes from "./routes/users.routes";
 import { errorHandler, notFound } from "./middleware/error.middleware";
 
 const app = express();
 
+// Behind nginx — trust X-Forwarded-For so req.ip is the real client address
+if (env.TRUST_PROXY) app.set("trust proxy", env.TRUST_PROXY);
+
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000,
   max: 1000,
   standardHeaders: true,
   legacyHeaders: false,
 });
+// Coarse per-IP cap only — per-account lockout lives in login-throttle.service
 const authLimiter = rateLimit({
   windowMs: 15 * 60 * 1000,
-  max: 50,
+  max: 300,
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+// Unauthenticated username lookups — tight enough to make enumerating the
+// user base impractical, loose enough for typing in a sign-up form
+const usernameLookupLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 60,
   standardHeaders: true,
   legacyHeaders: false,
 });
@@ -50,6 +66,7 @@ app.use(passport.initialize());
 
 // Rate limiting
 app.use("/api/auth", authLimiter);
+app.use(["/api/users", "/api/user/username-available"], usernameLookupLimiter);
 app.use(limiter);
 
 // ── Gateway proxy — forward /api/jobs to jobs-services ──────────────────────
@@ -83,6 +100,9 @@ app.use(express.urlencoded({ extended: true }));
 // Routes
 app.use("/api/auth", authRoutes);
 app.use("/api/user", userRoutes);
+app.use("/api/companies", companiesRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/users", usersRoutes);
 
 // Health check
 app.get("/health", (_req, res) => {
@@ -93,6 +113,12 @@ app.get("/health", (_req, res) => {
   });
 });
 
+// Public keys for verifying access tokens (used by jobs-services)
+app.get("/.well-known/jwks.json", (_req, res) => {
+  res.set("Cache-Control", "public, max-age=300");
+  res.json(publicJwks());
+});
+
 // Swagger docs
 app.use(
   "/api-docs",
@@ -23,13 +23,95 @@ export const env = {
   JWT_REFRESH_SECRET: required("JWT_REFRESH_SECRET"),
   JWT_ACCESS_EXPIRES: process.env.JWT_ACCESS_EXPIRES || "1h",
   JWT_REFRESH_EXPIRES: process.env.JWT_REFRESH_EXPIRES || "7d",
+  // Asymmetric access-token keys (see config/jwt-keys.ts). Empty = HS256.
+  JWT_SIGNING_KEYS: process.env.JWT_SIGNING_KEYS || "",
+  JWT_ACTIVE_KID: process.env.JWT_ACTIVE_KID || "",
+  // Keep accepting HS256 access tokens (no kid) while clients migrate
+  JWT_ACCEPT_HS256: process.env.JWT_ACCEPT_HS256 !== "false",
+  // Single-purpose tokens mailed to users (email verification, etc.). Never
+  // derived from JWT_SECRET — jobs-services holds that one.
+  JWT_ACTION_SECRET: required("JWT_ACTION_SECRET"),
+  // Encrypts secrets stored in MongoDB (e.g. TOTP seeds)
+  DATA_ENCRYPTION_KEY: required("DATA_ENCRYPTION_KEY"),
+  TWO_FACTOR_CHALLENGE_EXPIRES:
+    process.env.TWO_FACTOR_CHALLENGE_EXPIRES || "5m",
+  EMAIL_VERIFICATION_EXPIRES: process.env.EMAIL_VERIFICATION_EXPIRES || "24h",
+  // Sensitive actions (e.g. setting a first password) need a sign-in this recent
+  REAUTH_MAX_AGE_MINUTES: Number.parseInt(
+    process.env.REAUTH_MAX_AGE_MINUTES || "10",
+    10,
+  ),
+  // Email the user when a rotated refresh token is replayed
+  REFRESH_REUSE_ALERT_EMAIL: process.env.REFRESH_REUSE_ALERT_EMAIL !== "false",
+  PASSWORD_RESET_TTL_MINUTES: Number.parseInt(
+    process.env.PASSWORD_RESET_TTL_MINUTES || "30",
+    10,
+  ),
+  // Passwordless sign-in links for candidates
+  MAGIC_LINK_TTL_MINUTES: Number.parseInt(
+    process.env.MAGIC_LINK_TTL_MINUTES || "10",
+    10,
+  ),
+  // Links that may be requested per address per hour
+  MAGIC_LINK_MAX_PER_HOUR: Number.parseInt(
+    process.env.MAGIC_LINK_MAX_PER_HOUR || "5",
+    10,
+  ),
+  // Company team invitations
+  INVITATION_TTL_HOURS: Number.parseInt(
+    process.env.INVITATION_TTL_HOURS || "72",
+    10,
+  ),
+  // Account deletion: days a deleted account can still be restored
+  ACCOUNT_DELETION_GRACE_DAYS: Number.parseInt(
+    process.env.ACCOUNT_DELETION_GRACE_DAYS || "30",
+    10,
+  ),
+  // Personal data exports: how long a finished archive is kept, and how long
+  // each download link (minted by the status endpoint) works
+  DATA_EXPORT_TTL_HOURS: Number.parseInt(
+    process.env.DATA_EXPORT_TTL_HOURS || "24",
+    10,
+  ),
+  DATA_EXPORT_LINK_TTL_MINUTES: Number.parseInt(
+    process.env.DATA_EXPORT_LINK_TTL_MINUTES || "15",
+    10,
+  ),
 
-  // Google OAuth
+  // OAuth providers — each is enabled once its client id + secret are set
   GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID || "",
   GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET || "",
   GOOGLE_CALLBACK_URL:
     process.env.GOOGLE_CALLBACK_URL ||
     "http://localhost:8000/api/auth/google/callback",
+  MICROSOFT_CLIENT_ID: process.env.MICROSOFT_CLIENT_ID || "",
+  MICROSOFT_CLIENT_SECRET: process.env.MICROSOFT_CLIENT_SECRET || "",
+  // Entra ID tenant: "common", "organizations" or a tenant id
+  MICROSOFT_TENANT: process.env.MICROSOFT_TENANT || "common",
+  MICROSOFT_CALLBACK_URL:
+    process.env.MICROSOFT_CALLBACK_URL ||
+    "http://localhost:8000/api/auth/microsoft/callback",
+  LINKEDIN_CLIENT_ID: process.env.LINKEDIN_CLIENT_ID || "",
+  LINKEDIN_CLIENT_SECRET: process.env.LINKEDIN_CLIENT_SECRET || "",
+  LINKEDIN_CALLBACK_URL:
+    process.env.LINKEDIN_CALLBACK_URL ||
+    "http://localhost:8000/api/auth/linkedin/callback",
+  // Points every provider at a local mock issuer (npm run oidc:mock).
+  // Ignored in production.
+  OAUTH_MOCK_ISSUER: process.env.OAUTH_MOCK_ISSUER || "",
+
+  // Passkeys (WebAuthn). RP ID is the registrable domain the frontend runs
+  // on; origins are the exact frontend origins allowed to use passkeys.
+  WEBAUTHN_RP_ID: process.env.WEBAUTHN_RP_ID || "localhost",
+  WEBAUTHN_RP_NAME: process.env.WEBAUTHN_RP_NAME || "MatchingDB",
+  WEBAUTHN_ORIGINS: (
+    process.env.WEBAUTHN_ORIGINS ||
+    process.env.CLIENT_URL ||
+    "http://localhost:3000"
+  )
+    .split(",")
+    .map((o) => o.trim())
+    .filter(Boolean),
 
   // Stripe
   STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY || "",
@@ -38,6 +120,8 @@ export const env = {
   STRIPE_PRICE_VENDOR_BASIC: process.env.STRIPE_PRICE_VENDOR_BASIC || "",
   STRIPE_PRICE_VENDOR_PRO: process.env.STRIPE_PRICE_VENDOR_PRO || "",
   STRIPE_PRICE_VENDOR_PRO_PLUS: process.env.STRIPE_PRICE_VENDOR_PRO_PLUS || "",
+  // Per-seat monthly price for team members beyond a plan's included seats
+  STRIPE_PRICE_VENDOR_SEAT: process.env.STRIPE_PRICE_VENDOR_SEAT || "",
   // Marketer recurring subscription ($100/month)
   STRIPE_MARKETER_PRICE_ID: process.env.STRIPE_MARKETER_PRICE_ID || "",
   // Candidate one-time visibility package price IDs
@@ -56,6 +140,8 @@ export const env = {
   SENDGRID_FROM_NAME: process.env.SENDGRID_FROM_NAME || "MatchingDB",
 
   // App
+  // Number of reverse proxies (nginx) in front of the app, for client IPs
+  TRUST_PROXY: Number.parseInt(process.env.TRUST_PROXY || "0", 10),
   CLIENT_URL: process.env.CLIENT_URL || "http://localhost:3000",
   CORS_ORIGINS: (
     process.env.CORS_ORIGINS || "http://localhost:3000,http://localhost:3001"
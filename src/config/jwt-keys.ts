@@ -0,0 +1,99 @@
+import crypto, { KeyObject } from "node:crypto";
+import { env } from "./env";
+
+/* =============================================================================
+ * Access-token signing keys.
+ *
+ * JWT_SIGNING_KEYS is a JSON array of { kid, alg, privateKey?, publicKey? }
+ * (PEM strings; "\n" escapes are allowed). The key named by JWT_ACTIVE_KID
+ * signs new tokens; every key in the set verifies. To rotate: add the new key,
+ * make it active, and keep the old one (public half is enough) until the last
+ * token it signed has expired.
+ *
+ * With no keys configured the service falls back to HS256 with JWT_SECRET.
+ * ============================================================================= */
+
+export type SigningAlgorithm = "RS256" | "ES256";
+
+export interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: KeyObject | null;
+  publicKey: KeyObject;
+}
+
+interface SigningKeyConfig {
+  kid?: string;
+  alg?: string;
+  privateKey?: string;
+  publicKey?: string;
+}
+
+const SUPPORTED_ALGORITHMS: SigningAlgorithm[] = ["RS256", "ES256"];
+
+function pem(value: string): string {
+  return value.replaceAll("\\n", "\n");
+}
+
+function loadKeys(raw: string): SigningKey[] {
+  if (!raw) return [];
+
+  let parsed: SigningKeyConfig[];
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("JWT_SIGNING_KEYS must be a JSON array");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("JWT_SIGNING_KEYS must be a JSON array");
+  }
+
+  return parsed.map((entry) => {
+    const { kid, alg } = entry;
+    if (!kid) throw new Error("JWT_SIGNING_KEYS entry is missing kid");
+    if (!SUPPORTED_ALGORITHMS.includes(alg as SigningAlgorithm)) {
+      throw new Error(`JWT signing key ${kid}: unsupported alg ${alg}`);
+    }
+    if (!entry.privateKey && !entry.publicKey) {
+      throw new Error(`JWT signing key ${kid}: privateKey or publicKey required`);
+    }
+
+    const privateKey = entry.privateKey
+      ? crypto.createPrivateKey(pem(entry.privateKey))
+      : null;
+    const publicKey = entry.publicKey
+      ? crypto.createPublicKey(pem(entry.publicKey))
+      : crypto.createPublicKey(privateKey!);
+
+    return { kid, alg: alg as SigningAlgorithm, privateKey, publicKey };
+  });
+}
+
+export const signingKeys: SigningKey[] = loadKeys(env.JWT_SIGNING_KEYS);
+
+export const activeSigningKey: SigningKey | null = (() => {
+  if (signingKeys.length === 0) return null;
+  const kid = env.JWT_ACTIVE_KID || signingKeys[0].kid;
+  const key = signingKeys.find((k) => k.kid === kid);
+  if (!key) throw new Error(`JWT_ACTIVE_KID ${kid} is not in JWT_SIGNING_KEYS`);
+  if (!key.privateKey) {
+    throw new Error(`JWT_ACTIVE_KID ${kid} has no privateKey to sign with`);
+  }
+  return key;
+})();
+
+export function findSigningKey(kid: string): SigningKey | undefined {
+  return signingKeys.find((k) => k.kid === kid);
+}
+
+/** Public keys in JWK Set form for /.well-known/jwks.json. */
+export function publicJwks(): { keys: Record<string, unknown>[] } {
+  return {
+    keys: signingKeys.map((k) => ({
+      ...k.publicKey.export({ format: "jwk" }),
+      kid: k.kid,
+      alg: k.alg,
+      use: "sig",
+    })),
+  };
+}
@@ -0,0 +1,119 @@
+import { env } from "./env";
+
+/* =============================================================================
+ * OAuth / OpenID Connect sign-in providers.
+ *
+ * Every provider is a plain OIDC authorization-code client: authorize, swap
+ * the code at the token endpoint, read the standard claims (sub, email,
+ * email_verified, given_name, family_name) from the userinfo endpoint.
+ * Adding a provider means adding an entry to PROVIDERS — routes, strategy
+ * registration and account linking pick it up automatically.
+ *
+ * A provider is enabled once its client id and secret are configured. With
+ * OAUTH_MOCK_ISSUER set (outside production) every provider talks to that
+ * issuer instead, see scripts/mock-oidc-issuer.ts.
+ * ============================================================================= */
+
+export interface OAuthProviderConfig {
+  /** Route segment and passport strategy name, e.g. "microsoft". */
+  name: string;
+  /** Human-readable name for error messages. */
+  label: string;
+  clientId: string;
+  clientSecret: string;
+  callbackUrl: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  scope: string[];
+}
+
+type ProviderEndpoints = Pick<
+  OAuthProviderConfig,
+  "authorizationUrl" | "tokenUrl" | "userInfoUrl"
+>;
+
+const OIDC_SCOPE = ["openid", "email", "profile"];
+
+const microsoftBase = `https://login.microsoftonline.com/${env.MICROSOFT_TENANT}/oauth2/v2.0`;
+
+const PROVIDERS: OAuthProviderConfig[] = [
+  {
+    name: "google",
+    label: "Google",
+    clientId: env.GOOGLE_CLIENT_ID,
+    clientSecret: env.GOOGLE_CLIENT_SECRET,
+    callbackUrl: env.GOOGLE_CALLBACK_URL,
+    authorizationUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+    userInfoUrl: "https://openidconnect.googleapis.com/v1/userinfo",
+    scope: OIDC_SCOPE,
+  },
+  {
+    name: "microsoft",
+    label: "Microsoft",
+    clientId: env.MICROSOFT_CLIENT_ID,
+    clientSecret: env.MICROSOFT_CLIENT_SECRET,
+    callbackUrl: env.MICROSOFT_CALLBACK_URL,
+    authorizationUrl: `${microsoftBase}/authorize`,
+    tokenUrl: `${microsoftBase}/token`,
+    userInfoUrl: "https://graph.microsoft.com/oidc/userinfo",
+    scope: OIDC_SCOPE,
+  },
+  {
+    name: "linkedin",
+    label: "LinkedIn",
+    clientId: env.LINKEDIN_CLIENT_ID,
+    clientSecret: env.LINKEDIN_CLIENT_SECRET,
+    callbackUrl: env.LINKEDIN_CALLBACK_URL,
+    authorizationUrl: "https://www.linkedin.com/oauth/v2/authorization",
+    tokenUrl: "https://www.linkedin.com/oauth/v2/accessToken",
+    userInfoUrl: "https://api.linkedin.com/v2/userinfo",
+    scope: OIDC_SCOPE,
+  },
+];
+
+const mockIssuer =
+  env.NODE_ENV === "production" ? "" : env.OAUTH_MOCK_ISSUER.replace(/\/$/, "");
+
+function mockEndpoints(issuer: string): ProviderEndpoints {
+  return {
+    authorizationUrl: `${issuer}/authorize`,
+    tokenUrl: `${issuer}/token`,
+    userInfoUrl: `${issuer}/userinfo`,
+  };
+}
+
+function resolve(provider: OAuthProviderConfig): OAuthProviderConfig | null {
+  if (mockIssuer) {
+    return {
+      ...provider,
+      ...mockEndpoints(mockIssuer),
+      clientId: provider.clientId || `${provider.name}-mock-client`,
+      clientSecret: provider.clientSecret || "mock-secret",
+    };
+  }
+  return provider.clientId && provider.clientSecret ? provider : null;
+}
+
+/** Providers that are configured on this server, by name. */
+export const oauthProviders: ReadonlyMap<string, OAuthProviderConfig> =
+  new Map(
+    PROVIDERS.map(resolve)
+      .filter((p): p is OAuthProviderConfig => !!p)
+      .map((p) => [p.name, p]),
+  );
+
+/** Whether `name` is a provider this codebase supports (configured or not). */
+export function isKnownOAuthProvider(name: string): boolean {
+  return PROVIDERS.some((p) => p.name === name);
+}
+
+export function getOAuthProvider(name: string): OAuthProviderConfig | undefined {
+  return oauthProviders.get(name);
+}
+
+/** Display name for a provider, configured or not. */
+export function oauthProviderLabel(name: string): string {
+  return PROVIDERS.find((p) => p.name === name)?.label ?? name;
+}
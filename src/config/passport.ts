@@ -1,138 +1,117 @@
+import { Request } from "express";
 import passport from "passport";
-import { Strategy as GoogleStrategy } from "passport-google-oauth20";
-import crypto from "node:crypto";
-import { env } from "./env";
-import { User, Subscription } from "../models";
+import OAuth2Strategy, { InternalOAuthError } from "passport-oauth2";
+import { oauthProviders, OAuthProviderConfig } from "./oauth-providers";
+import {
+  resolveOAuthUser,
+  linkIdentity,
+  OAuthProfile,
+} from "../services/oauth-identity.service";
 
-/** Generate a URL-safe username slug from an OAuth profile name. */
-function generateUsername(
-  givenName?: string | null,
-  familyName?: string | null,
-): string {
-  const cleanStr = (s?: string | null) =>
-    (s ?? "").toLowerCase().replaceAll(/[^a-z0-9]/g, "");
-  const first = cleanStr(givenName);
-  const last = cleanStr(familyName);
-  const suffix = crypto.randomUUID().replaceAll("-", "").slice(0, 6);
-  if (first && last) return `${first}-${last}-${suffix}`;
-  if (first || last) return `${first || last}-${suffix}`;
-  return `user-${suffix}`;
-}
+type OidcVerifyFunction = (
+  req: Request,
+  accessToken: string,
+  refreshToken: string,
+  profile: OAuthProfile,
+  done: OAuth2Strategy.VerifyCallback,
+) => void;
 
 /**
- * Registers the Google OAuth2 strategy with Passport.
- * Strategy is stateless — no session serialization needed.
- *
- * Flow:
- *  1. User is found by googleId → return existing user (returning OAuth user)
- *  2. User is found by email → link googleId to existing account (account linking)
- *  3. No match → create new user with userType from state param
- *
- * NOTE: Strategy is only registered when GOOGLE_CLIENT_ID is configured.
- * Without credentials the server still starts; OAuth routes return 501.
+ * Authorization-code strategy for any OpenID Connect provider. The profile
+ * comes from the provider's userinfo endpoint (standard OIDC claims).
  */
-export const googleOAuthEnabled = !!(
-  env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET
-);
-
-if (googleOAuthEnabled)
-  passport.use(
-    new GoogleStrategy(
+class OidcStrategy extends OAuth2Strategy {
+  constructor(
+    private readonly provider: OAuthProviderConfig,
+    verify: OidcVerifyFunction,
+  ) {
+    super(
       {
-        clientID: env.GOOGLE_CLIENT_ID,
-        clientSecret: env.GOOGLE_CLIENT_SECRET,
-        callbackURL: env.GOOGLE_CALLBACK_URL,
+        authorizationURL: provider.authorizationUrl,
+        tokenURL: provider.tokenUrl,
+        clientID: provider.clientId,
+        clientSecret: provider.clientSecret,
+        callbackURL: provider.callbackUrl,
+        scope: provider.scope,
         passReqToCallback: true,
       },
-      async (req, _accessToken, _refreshToken, profile, done) => {
-        try {
-          const email = profile.emails?.[0]?.value;
-          if (!email) {
-            return done(
-              new Error("Google account has no associated email address."),
-            );
-          }
+      verify,
+    );
+    this.name = provider.name;
+    this._oauth2.useAuthorizationHeaderforGET(true);
+  }
 
-          // 1. Returning Google OAuth user — find by googleId
-          const existingByGoogleId = await User.findOne({
-            googleId: profile.id,
-          });
-          if (existingByGoogleId) {
-            const sub = await Subscription.findOne({
-              userId: existingByGoogleId._id,
-            });
-            const userObj = existingByGoogleId.toObject();
-            const enriched = {
-              ...userObj,
-              subscription: sub ? sub.toObject() : null,
-            };
-            return done(null, enriched as unknown as Express.User);
-          }
+  userProfile(
+    accessToken: string,
+    done: (err?: unknown, profile?: OAuthProfile) => void,
+  ): void {
+    this._oauth2.get(this.provider.userInfoUrl, accessToken, (err, body) => {
+      if (err) {
+        return done(new InternalOAuthError("Failed to fetch user profile", err));
+      }
+      try {
+        const claims = JSON.parse(String(body)) as Record<string, unknown>;
+        if (typeof claims.sub !== "string" || !claims.sub) {
+          return done(new Error("Provider returned no subject claim"));
+        }
+        const str = (v: unknown) => (typeof v === "string" && v ? v : null);
+        done(null, {
+          provider: this.provider.name,
+          subject: claims.sub,
+          email: str(claims.email)?.trim().toLowerCase() ?? null,
+          emailVerified:
+            claims.email_verified === true || claims.email_verified === "true",
+          firstName: str(claims.given_name),
+          lastName: str(claims.family_name),
+        });
+      } catch (parseErr) {
+        done(parseErr);
+      }
+    });
+  }
+}
 
-          // 2. Existing email/password user — link Google account
-          const existingByEmail = await User.findOne({ email });
-          if (existingByEmail) {
-            if (!existingByEmail.isActive) {
-              return done(new Error("Account is deactivated."));
-            }
-            existingByEmail.googleId = profile.id;
-            await existingByEmail.save();
-            const sub = await Subscription.findOne({
-              userId: existingByEmail._id,
-            });
-            const userObj = existingByEmail.toObject();
-            const enriched = {
-              ...userObj,
-              subscription: sub ? sub.toObject() : null,
-            };
-            return done(null, enriched as unknown as Express.User);
+/**
+ * Registers one strategy per configured provider (see oauth-providers.ts).
+ * Strategies are stateless — no session serialization needed; the OAuth
+ * state is handled by oauth-state.service before passport runs.
+ *
+ * Link/create rules are shared by every provider (oauth-identity.service).
+ * An email match with an existing account yields no user but a link ticket
+ * in the `info` argument, to be confirmed via /api/auth/oauth/link/confirm.
+ * Unconfigured providers are simply not registered; their routes return 501.
+ */
+for (const provider of oauthProviders.values()) {
+  passport.use(
+    new OidcStrategy(
+      provider,
+      async (req, _accessToken, _refreshToken, profile, done) => {
+        try {
+          // Signed-in user adding this provider from account settings
+          const linkUserId = req.oauthState?.linkUserId;
+          if (linkUserId) {
+            const user = await linkIdentity(linkUserId, profile, provider.label);
+            return done(null, user.toObject() as unknown as Express.User);
           }
 
-          // 3. New user via Google OAuth
-          // userType is encoded in the state param as "candidate:nonce" or "employer:nonce"
-          const stateParam = (req.query.state as string) || "";
-          const userType = stateParam.startsWith("employer")
-            ? "employer"
-            : "candidate";
-
-          // Generate URL-safe username slug
-          const newId = crypto.randomUUID();
-          const username = generateUsername(
-            profile.name?.givenName,
-            profile.name?.familyName,
-          );
-
-          const newUser = await User.create({
-            _id: newId,
-            email,
-            googleId: profile.id,
-            firstName: profile.name?.givenName || null,
-            lastName: profile.name?.familyName || null,
+          // userType was stored with the OAuth state when the flow began
+          const userType = req.oauthState?.userType ?? "candidate";
+          const result = await resolveOAuthUser(
+            profile,
+            provider.label,
             userType,
-            username,
-            hasPurchasedVisibility: false,
-            isActive: true,
-          });
-
-          await Subscription.create({
-            userId: newUser._id,
-            plan: "free",
-            status: "active",
-          });
-
-          const sub = await Subscription.findOne({ userId: newUser._id });
-          const userObj = newUser.toObject();
-          const enriched = {
-            ...userObj,
-            subscription: sub ? sub.toObject() : null,
-          };
-
-          return done(null, enriched as unknown as Express.User);
+          );
+          if (result.status === "link_required") {
+            // No user yet — the owner must confirm; the ticket rides in `info`
+            return done(null, false, { linkTicket: result.ticket });
+          }
+          return done(null, result.user.toObject() as unknown as Express.User);
         } catch (err) {
           return done(err as Error);
         }
       },
     ),
   );
+}
 
 export default passport;
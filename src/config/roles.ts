@@ -0,0 +1,135 @@
+/* =============================================================================
+ * Roles and permissions.
+ *
+ * Every user holds one or more roles; permissions are derived from them and
+ * travel in the access token (AccessTokenPayload.permissions) so
+ * jobs-services can authorize without a database read. This service
+ * re-derives them from the stored roles on every check, so a role change
+ * applies at once. Routes check permissions, never role names — see
+ * requirePermission().
+ *
+ * Employer accounts are either the company admin (whoever signed up) or an
+ * employee with one of the sub-roles below. Users created before roles
+ * existed have none stored and get the default for their userType.
+ *
+ * Platform roles sit alongside those and are granted by operators only
+ * (npm run admin:grant), never through the API.
+ * ============================================================================= */
+
+export const ROLES = [
+  "candidate",
+  "admin",
+  "manager",
+  "vendor",
+  "marketer_accounts",
+  "marketer_immigration",
+  "marketer_placement",
+  "platform_admin",
+] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/** Roles about running MatchingDB itself, not the user's own account. */
+export const PLATFORM_ROLES: readonly Role[] = ["platform_admin"];
+
+/** Roles an employer account can be given inside a company. */
+export const EMPLOYER_ROLES: readonly Role[] = ROLES.filter(
+  (r) => r !== "candidate" && !PLATFORM_ROLES.includes(r),
+);
+
+export const PERMISSIONS = [
+  /** Subscribe, change plan, open the Stripe billing portal. */
+  "billing:manage",
+  /** Edit company details. */
+  "company:manage",
+  /** Invite employees and remove them from the company. */
+  "team:manage",
+  /** Post and edit job openings. */
+  "jobs:manage",
+  /** Market bench candidates to clients. */
+  "candidates:market",
+  /** Invoices, timesheets and payroll for placed candidates. */
+  "accounts:manage",
+  /** Visa and immigration case work. */
+  "immigration:manage",
+  /** Placement pipeline and onboarding. */
+  "placements:manage",
+  /** Admin console: manage any account, unlock sign-ins, read the audit log. */
+  "platform:admin",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  // Candidates pay for their own visibility packages
+  candidate: ["billing:manage"],
+  // Everything within their company
+  admin: PERMISSIONS.filter((p) => p !== "platform:admin"),
+  manager: [
+    "team:manage",
+    "jobs:manage",
+    "candidates:market",
+    "accounts:manage",
+    "immigration:manage",
+    "placements:manage",
+  ],
+  vendor: ["jobs:manage"],
+  marketer_accounts: ["candidates:market", "accounts:manage"],
+  marketer_immigration: ["candidates:market", "immigration:manage"],
+  marketer_placement: ["candidates:market", "placements:manage"],
+  platform_admin: ["platform:admin"],
+};
+
+const ROLE_LABELS: Record<Role, string> = {
+  candidate: "Candidate",
+  admin: "Admin",
+  manager: "Manager",
+  vendor: "Vendor",
+  marketer_accounts: "Marketer (Accounts)",
+  marketer_immigration: "Marketer (Immigration)",
+  marketer_placement: "Marketer (Placement)",
+  platform_admin: "Platform Admin",
+};
+
+/** Display name for a role, e.g. in invitation emails. */
+export function roleLabel(role: Role): string {
+  return ROLE_LABELS[role];
+}
+
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Stored roles. Without a stored account role the default for the account
+ * type applies; platform roles are kept either way.
+ */
+export function rolesFor(user: {
+  userType: string;
+  roles?: readonly string[] | null;
+}): Role[] {
+  const stored = (user.roles ?? []).filter(isRole);
+  const platform = stored.filter((r) => PLATFORM_ROLES.includes(r));
+  const account = stored.filter((r) => !PLATFORM_ROLES.includes(r));
+  if (!account.length) {
+    account.push(user.userType === "employer" ? "admin" : "candidate");
+  }
+  return [...account, ...platform];
+}
+
+/** `role` as the account role, keeping any platform roles already held. */
+export function withAccountRole(
+  roles: readonly string[] | null | undefined,
+  role: string,
+): string[] {
+  const platform = (roles ?? [])
+    .filter(isRole)
+    .filter((r) => PLATFORM_ROLES.includes(r));
+  return [role, ...platform];
+}
+
+/** Union of the permissions granted by `roles`, in PERMISSIONS order. */
+export function permissionsFor(roles: readonly Role[]): Permission[] {
+  const granted = new Set(roles.flatMap((r) => ROLE_PERMISSIONS[r]));
+  return PERMISSIONS.filter((p) => granted.has(p));
+}
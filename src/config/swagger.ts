@@ -39,6 +39,11 @@ const options: swaggerJsdoc.Options = {
             first_name: { type: "string" },
             last_name: { type: "string" },
             user_type: { type: "string", enum: ["vendor", "candidate"] },
+            companyName: {
+              type: "string",
+              description:
+                "Employers only — name of the company created for the account (defaults to the email domain)",
+            },
           },
         },
         LoginRequest: {
@@ -70,10 +75,155 @@ const options: swaggerJsdoc.Options = {
               enum: ["free", "basic", "pro", "pro_plus"],
             },
             username: { type: "string" },
+            roles: { type: "array", items: { type: "string" } },
+            permissions: { type: "array", items: { type: "string" } },
+            company_id: { type: "string", nullable: true },
+            email_verified: { type: "boolean" },
+            two_factor_enabled: { type: "boolean" },
             membership_config: { type: "object", nullable: true },
             has_purchased_visibility: { type: "boolean" },
           },
         },
+        Company: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            website: { type: "string", nullable: true },
+            phone: { type: "string", nullable: true },
+            address: { type: "string", nullable: true },
+            owner_id: { type: "string" },
+            member_count: { type: "integer" },
+            plan: { type: "string" },
+            created_at: { type: "string", format: "date-time" },
+            updated_at: { type: "string", format: "date-time" },
+          },
+        },
+        CompanyInvitation: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            email: { type: "string", format: "email" },
+            role: { type: "string" },
+            status: { type: "string", enum: ["pending", "accepted", "revoked"] },
+            invited_by: { type: "string" },
+            expires_at: { type: "string", format: "date-time" },
+            expired: { type: "boolean" },
+            created_at: { type: "string", format: "date-time" },
+          },
+        },
+        SeatUsage: {
+          type: "object",
+          properties: {
+            members: { type: "integer" },
+            pending_invitations: { type: "integer" },
+            used: { type: "integer" },
+            included: { type: "integer" },
+            extra: { type: "integer" },
+            limit: { type: "integer" },
+          },
+        },
+        Profile: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            email: { type: "string" },
+            pending_email: {
+              type: "string",
+              nullable: true,
+              description: "New address awaiting confirmation",
+            },
+            email_verified: { type: "boolean" },
+            username: { type: "string" },
+            first_name: { type: "string" },
+            last_name: { type: "string" },
+            user_type: { type: "string" },
+            created_at: { type: "string", format: "date-time" },
+            updated_at: { type: "string", format: "date-time" },
+          },
+        },
+        AdminUser: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            email: { type: "string", format: "email" },
+            username: { type: "string" },
+            first_name: { type: "string" },
+            last_name: { type: "string" },
+            user_type: { type: "string", enum: ["candidate", "employer"] },
+            roles: { type: "array", items: { type: "string" } },
+            company_id: { type: "string", nullable: true },
+            plan: { type: "string" },
+            email_verified: { type: "boolean" },
+            two_factor_enabled: { type: "boolean" },
+            is_active: { type: "boolean" },
+            deletion_scheduled_at: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "Set while the user's deletion request is pending",
+            },
+            created_at: { type: "string", format: "date-time" },
+            updated_at: { type: "string", format: "date-time" },
+          },
+        },
+        AuditEvent: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            action: { type: "string", example: "billing.subscription_updated" },
+            actor_id: {
+              type: "string",
+              nullable: true,
+              description: "null for system events (Stripe webhooks)",
+            },
+            actor_email: { type: "string", nullable: true },
+            target_user_id: { type: "string", nullable: true },
+            before: { nullable: true },
+            after: { nullable: true },
+            metadata: { type: "object", nullable: true },
+            ip: { type: "string", nullable: true },
+            user_agent: { type: "string", nullable: true },
+            created_at: { type: "string", format: "date-time" },
+          },
+        },
+        DataExport: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            status: { type: "string", enum: ["pending", "ready", "failed"] },
+            error: { type: "string", nullable: true },
+            size_bytes: { type: "integer", nullable: true },
+            created_at: { type: "string", format: "date-time" },
+            completed_at: { type: "string", format: "date-time", nullable: true },
+            expires_at: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "When the archive is deleted",
+            },
+            download_url: {
+              type: "string",
+              nullable: true,
+              description: "Relative URL with a signed token; set when ready",
+            },
+            download_expires_at: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+            },
+          },
+        },
+        AdminReason: {
+          type: "object",
+          properties: {
+            reason: {
+              type: "string",
+              maxLength: 500,
+              description: "Recorded in the audit trail",
+            },
+          },
+        },
         RefreshRequest: {
           type: "object",
           required: ["refreshToken"],
@@ -91,6 +241,8 @@ const options: swaggerJsdoc.Options = {
             interval: { type: "string", nullable: true },
             features: { type: "array", items: { type: "string" } },
             stripePriceId: { type: "string" },
+            includedSeats: { type: "integer" },
+            maxSeats: { type: "integer" },
           },
         },
         CandidatePackage: {
@@ -113,6 +265,10 @@ const options: swaggerJsdoc.Options = {
               nullable: true,
             },
             membership_config: { type: "object", nullable: true },
+            extraSeats: {
+              type: "integer",
+              description: "Seats billed beyond the plan's includedSeats",
+            },
           },
         },
         CheckoutRequest: {
@@ -143,6 +299,40 @@ const options: swaggerJsdoc.Options = {
             url: { type: "string", description: "Stripe Customer Portal URL" },
           },
         },
+        Session: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            device: { type: "string", example: "Chrome on Windows" },
+            user_agent: { type: "string", nullable: true },
+            ip: { type: "string", nullable: true },
+            created_at: { type: "string", format: "date-time" },
+            last_used_at: { type: "string", format: "date-time" },
+            expires_at: { type: "string", format: "date-time" },
+            current: { type: "boolean" },
+          },
+        },
+        TwoFactorChallenge: {
+          type: "object",
+          description:
+            "Returned by /auth/login (and /auth/oauth/exchange) instead of tokens when 2FA is on. The challenge works once.",
+          properties: {
+            two_factor_required: { type: "boolean", example: true },
+            challenge: { type: "string" },
+            methods: {
+              type: "array",
+              items: { type: "string", enum: ["totp", "recovery_code"] },
+            },
+          },
+        },
+        SecondFactorRequest: {
+          type: "object",
+          description: "Provide either code or recoveryCode",
+          properties: {
+            code: { type: "string", example: "123456" },
+            recoveryCode: { type: "string", example: "a1b2c-3d4e5" },
+          },
+        },
         Error: {
           type: "object",
           properties: {
@@ -201,6 +391,50 @@ const options: swaggerJsdoc.Options = {
               },
             },
           },
+          responses: {
+            200: {
+              description:
+                "Authenticated, or a 2FA challenge when the account has two-factor enabled",
+              content: {
+                "application/json": {
+                  schema: {
+                    oneOf: [
+                      { $ref: "#/components/schemas/AuthResponse" },
+                      { $ref: "#/components/schemas/TwoFactorChallenge" },
+                    ],
+                  },
+                },
+              },
+            },
+            401: { description: "Invalid credentials" },
+            429: {
+              description:
+                "Too many failed attempts for this account or IP (see Retry-After)",
+            },
+          },
+        },
+      },
+      "/auth/login/2fa": {
+        post: {
+          tags: ["Auth"],
+          summary: "Complete a two-factor login",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  allOf: [
+                    { $ref: "#/components/schemas/SecondFactorRequest" },
+                    {
+                      type: "object",
+                      required: ["challenge"],
+                      properties: { challenge: { type: "string" } },
+                    },
+                  ],
+                },
+              },
+            },
+          },
           responses: {
             200: {
               description: "Authenticated",
@@ -210,7 +444,8 @@ const options: swaggerJsdoc.Options = {
                 },
               },
             },
-            401: { description: "Invalid credentials" },
+            401: { description: "Expired challenge or invalid code" },
+            429: { description: "Too many failed attempts (see Retry-After)" },
           },
         },
       },
@@ -218,6 +453,8 @@ const options: swaggerJsdoc.Options = {
         post: {
           tags: ["Auth"],
           summary: "Refresh access token",
+          description:
+            "Rotates the refresh token. Presenting a token that was already rotated revokes its whole session and alerts the user by email.",
           requestBody: {
             required: true,
             content: {
@@ -271,122 +508,1846 @@ const options: swaggerJsdoc.Options = {
       "/auth/account": {
         delete: {
           tags: ["Auth"],
-          summary: "Delete current user account",
+          summary: "Schedule deletion of the current account",
+          description:
+            "Deactivates the account, signs out every session and stops any subscription only this user pays for from renewing. The account is purged after ACCOUNT_DELETION_GRACE_DAYS (30): the subscription is canceled, CandidatePayment rows are anonymized and all other data is deleted. A restore link is emailed. Requires the current password, or a sign-in within REAUTH_MAX_AGE_MINUTES.",
           security: [{ BearerAuth: [] }],
+          requestBody: {
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { password: { type: "string" } },
+                },
+              },
+            },
+          },
           responses: {
-            200: { description: "Account deleted" },
-            401: { description: "Unauthorized" },
+            200: {
+              description: "Deletion scheduled",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      message: { type: "string" },
+                      deletion_scheduled_at: {
+                        type: "string",
+                        format: "date-time",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            401: {
+              description:
+                "Unauthorized, wrong password, or code reauth_required",
+            },
           },
         },
       },
-      "/auth/google": {
-        get: {
+      "/auth/account/restore-link": {
+        post: {
           tags: ["Auth"],
-          summary: "Initiate Google OAuth flow",
-          parameters: [
-            {
-              name: "userType",
-              in: "query",
-              required: true,
-              schema: { type: "string", enum: ["vendor", "candidate"] },
+          summary: "Re-send the restore link for an account awaiting deletion",
+          description:
+            "Always responds the same way so registered emails cannot be discovered.",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["email"],
+                  properties: { email: { type: "string", format: "email" } },
+                },
+              },
             },
-          ],
+          },
           responses: {
-            302: { description: "Redirect to Google consent screen" },
+            200: { description: "Link sent if the account is pending deletion" },
+            429: { description: "Too many links requested for this address" },
           },
         },
       },
-      "/auth/google/callback": {
-        get: {
+      "/auth/account/restore": {
+        post: {
           tags: ["Auth"],
-          summary: "Google OAuth callback",
+          summary: "Cancel a scheduled account deletion",
           description:
-            "Handles the redirect from Google after user consent. Redirects to the frontend with token params.",
-          responses: {
-            302: { description: "Redirect to frontend with auth tokens" },
-          },
-        },
-      },
-      // ===== PAYMENTS ===============================================
-      "/payments/plans": {
-        get: {
-          tags: ["Payments"],
-          summary: "List vendor subscription plans",
-          responses: {
-            200: {
-              description: "Plan list",
-              content: {
-                "application/json": {
-                  schema: {
-                    type: "array",
-                    items: { $ref: "#/components/schemas/VendorPlan" },
-                  },
+            "Uses the token from the emailed restore link. Reactivates the account and resumes subscription renewal; the user then signs in as usual.",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["token"],
+                  properties: { token: { type: "string" } },
                 },
               },
             },
           },
+          responses: {
+            200: { description: "Account restored" },
+            400: { description: "Invalid or expired restore link" },
+          },
         },
       },
-      "/payments/candidate-packages": {
-        get: {
-          tags: ["Payments"],
-          summary: "List candidate visibility packages",
-          responses: {
-            200: {
-              description: "Package list",
-              content: {
-                "application/json": {
-                  schema: {
-                    type: "array",
-                    items: { $ref: "#/components/schemas/CandidatePackage" },
-                  },
+      "/auth/verify-email": {
+        post: {
+          tags: ["Auth"],
+          summary: "Confirm email address",
+          description:
+            "Consumes the one-time token from the verification email. Checkout routes require a verified email.",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["token"],
+                  properties: { token: { type: "string" } },
                 },
               },
             },
           },
+          responses: {
+            200: { description: "Email verified" },
+            400: { description: "Invalid, expired or already used link" },
+          },
         },
       },
-      "/payments/subscription": {
-        get: {
-          tags: ["Payments"],
-          summary: "Get current user subscription status",
+      "/auth/resend-verification": {
+        post: {
+          tags: ["Auth"],
+          summary: "Resend the verification email",
+          description: "Invalidates any verification link sent previously.",
           security: [{ BearerAuth: [] }],
           responses: {
-            200: {
-              description: "Subscription data",
-              content: {
-                "application/json": {
-                  schema: { $ref: "#/components/schemas/Subscription" },
-                },
-              },
-            },
+            200: { description: "Verification email sent" },
+            400: { description: "Email is already verified" },
             401: { description: "Unauthorized" },
           },
         },
       },
-      "/payments/checkout": {
+      "/auth/forgot-password": {
         post: {
-          tags: ["Payments"],
-          summary: "Create Stripe Checkout session (vendor subscription)",
-          security: [{ BearerAuth: [] }],
+          tags: ["Auth"],
+          summary: "Request a password reset email",
+          description:
+            "Always returns the same response, whether or not the email is registered.",
           requestBody: {
             required: true,
             content: {
               "application/json": {
-                schema: { $ref: "#/components/schemas/CheckoutRequest" },
+                schema: {
+                  type: "object",
+                  required: ["email"],
+                  properties: { email: { type: "string", format: "email" } },
+                },
               },
             },
           },
           responses: {
-            200: {
-              description: "Checkout URL",
-              content: {
-                "application/json": {
-                  schema: { $ref: "#/components/schemas/CheckoutResponse" },
+            200: { description: "Reset email sent if the account exists" },
+            400: { description: "Validation error" },
+          },
+        },
+      },
+      "/auth/reset-password": {
+        post: {
+          tags: ["Auth"],
+          summary: "Set a new password using a reset token",
+          description:
+            "Tokens are single-use and short-lived. All refresh tokens for the user are revoked.",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["token", "password"],
+                  properties: {
+                    token: { type: "string" },
+                    password: { type: "string", minLength: 8 },
+                  },
                 },
               },
             },
-            401: { description: "Unauthorized" },
+          },
+          responses: {
+            200: { description: "Password reset" },
+            400: { description: "Invalid or expired token, or validation error" },
+          },
+        },
+      },
+      "/auth/magic-link": {
+        post: {
+          tags: ["Auth"],
+          summary: "Email a passwordless sign-in link (candidates)",
+          description:
+            "Responds identically whether or not a candidate account exists. Links are single-use and expire after MAGIC_LINK_TTL_MINUTES.",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["email"],
+                  properties: { email: { type: "string", format: "email" } },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: "Link sent if the account exists" },
+            429: {
+              description:
+                "Too many links requested for this address (see Retry-After)",
+            },
+          },
+        },
+      },
+      "/auth/magic-link/consume": {
+        post: {
+          tags: ["Auth"],
+          summary: "Sign in with a magic link token",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["token"],
+                  properties: { token: { type: "string" } },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: "Authenticated",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/AuthResponse" },
+                },
+              },
+            },
+            400: { description: "Invalid, expired or already used link" },
+          },
+        },
+      },
+      "/auth/password": {
+        put: {
+          tags: ["Auth"],
+          summary: "Change password, or set a first password",
+          description:
+            "Accounts with a password must send currentPassword. Google-only accounts can set a first password if they signed in recently (otherwise 401 with code reauth_required). All other sessions are revoked and a new token pair is returned.",
+          security: [{ BearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["newPassword"],
+                  properties: {
+                    currentPassword: { type: "string" },
+                    newPassword: { type: "string", minLength: 8 },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: "Password updated; new access/refresh pair" },
+            400: { description: "Validation error" },
+            401: {
+              description: "Wrong current password or re-authentication required",
+            },
+          },
+        },
+      },
+      "/auth/2fa/setup": {
+        post: {
+          tags: ["Two-Factor"],
+          summary: "Start TOTP enrollment (employer accounts)",
+          security: [{ BearerAuth: [] }],
+          responses: {
+            200: {
+              description: "Secret and otpauth:// URI for the QR code",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      secret: { type: "string" },
+                      otpauth_uri: { type: "string" },
+                    },
+                  },
+                },
+              },
+            },
+            403: { description: "Not an employer account" },
+            409: { description: "2FA already enabled" },
+          },
+        },
+      },
+      "/auth/2fa/enable": {
+        post: {
+          tags: ["Two-Factor"],
+          summary: "Confirm enrollment with a TOTP code",
+          description: "Returns recovery codes; they are shown only once.",
+          security: [{ BearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["code"],
+                  properties: { code: { type: "string" } },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: "2FA enabled; recovery_codes returned" },
+            400: { description: "Invalid code or setup not started" },
+          },
+        },
+      },
+      "/auth/2fa/disable": {
+        post: {
+          tags: ["Two-Factor"],
+          summary: "Disable 2FA",
+          security: [{ BearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/SecondFactorRequest" },
+              },
+            },
+          },
+          responses: {
+            200: { description: "2FA disabled" },
+            401: { description: "Invalid code" },
+          },
+        },
+      },
+      "/auth/2fa/recovery-codes": {
+        post: {
+          tags: ["Two-Factor"],
+          summary: "Regenerate recovery codes",
+          security: [{ BearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/SecondFactorRequest" },
+              },
+            },
+          },
+          responses: {
+            200: { description: "New recovery_codes" },
+            401: { description: "Invalid code" },
+          },
+        },
+      },
+      "/auth/webauthn/register/options": {
+        post: {
+          tags: ["Passkeys"],
+          summary: "Passkey creation options (employer accounts)",
+          description:
+            "Options for navigator.credentials.create(). The challenge is single-use and expires after five minutes.",
+          security: [{ BearerAuth: [] }],
+          responses: {
+            200: { description: "PublicKeyCredentialCreationOptions (base64url)" },
+            403: { description: "Not an employer account" },
+          },
+        },
+      },
+      "/auth/webauthn/register/verify": {
+        post: {
+          tags: ["Passkeys"],
+          summary: "Register a passkey",
+          security: [{ BearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["response"],
+                  properties: {
+                    name: { type: "string", maxLength: 64 },
+                    response: {
+                      type: "object",
+                      required: ["clientDataJSON", "attestationObject"],
+                      properties: {
+                        clientDataJSON: { type: "string" },
+                        attestationObject: { type: "string" },
+                        transports: { type: "array", items: { type: "string" } },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            201: { description: "Passkey registered" },
+            400: { description: "Expired challenge or invalid attestation" },
+            409: { description: "Passkey already registered" },
+          },
+        },
+      },
+      "/auth/webauthn/login/options": {
+        post: {
+          tags: ["Passkeys"],
+          summary: "Passkey sign-in options",
+          responses: {
+            200: { description: "PublicKeyCredentialRequestOptions (base64url)" },
+          },
+        },
+      },
+      "/auth/webauthn/login/verify": {
+        post: {
+          tags: ["Passkeys"],
+          summary: "Sign in with a passkey",
+          description:
+            "User verification is required, so a passkey sign-in satisfies 2FA on its own.",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["id", "response"],
+                  properties: {
+                    id: { type: "string" },
+                    response: {
+                      type: "object",
+                      required: [
+                        "clientDataJSON",
+                        "authenticatorData",
+                        "signature",
+                      ],
+                      properties: {
+                        clientDataJSON: { type: "string" },
+                        authenticatorData: { type: "string" },
+                        signature: { type: "string" },
+                        userHandle: { type: "string", nullable: true },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: "Authenticated",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/AuthResponse" },
+                },
+              },
+            },
+            401: { description: "Unknown passkey or invalid assertion" },
+          },
+        },
+      },
+      "/auth/webauthn/credentials": {
+        get: {
+          tags: ["Passkeys"],
+          summary: "List registered passkeys",
+          security: [{ BearerAuth: [] }],
+          responses: { 200: { description: "Passkeys" } },
+        },
+      },
+      "/auth/webauthn/credentials/{id}": {
+        delete: {
+          tags: ["Passkeys"],
+          summary: "Remove a passkey",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          responses: {
+            200: { description: "Passkey removed" },
+            404: { description: "Not found" },
+            409: { description: "Last remaining sign-in method" },
+          },
+        },
+      },
+      "/auth/sessions": {
+        get: {
+          tags: ["Auth"],
+          summary: "List signed-in devices",
+          security: [{ BearerAuth: [] }],
+          responses: {
+            200: {
+              description: "Active sessions",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      sessions: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/Session" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            401: { description: "Unauthorized" },
+          },
+        },
+        delete: {
+          tags: ["Auth"],
+          summary: "Sign out everywhere else",
+          description: "Revokes every session except the caller's.",
+          security: [{ BearerAuth: [] }],
+          responses: {
+            200: { description: "Other sessions revoked" },
+            401: { description: "Unauthorized" },
+          },
+        },
+      },
+      "/auth/sessions/{id}": {
+        delete: {
+          tags: ["Auth"],
+          summary: "Sign out one device",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          responses: {
+            200: { description: "Session revoked" },
+            401: { description: "Unauthorized" },
+            404: { description: "Session not found" },
+          },
+        },
+      },
+      "/auth/unlock": {
+        post: {
+          tags: ["Admin"],
+          summary: "Clear a sign-in lockout",
+          description: "Platform administrators only (platform:admin permission).",
+          security: [{ BearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["email"],
+                  properties: {
+                    email: { type: "string", format: "email" },
+                    ip: {
+                      type: "string",
+                      description: "Also clear this IP's counter",
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: "Unlocked" },
+            403: { description: "Not an administrator" },
+          },
+        },
+      },
+      "/auth/{provider}": {
+        get: {
+          tags: ["Auth"],
+          summary: "Initiate OAuth sign-in (Google, Microsoft, LinkedIn)",
+          parameters: [
+            {
+              name: "provider",
+              in: "path",
+              required: true,
+              schema: {
+                type: "string",
+                enum: ["google", "microsoft", "linkedin"],
+              },
+            },
+            {
+              name: "userType",
+              in: "query",
+              required: true,
+              schema: { type: "string", enum: ["employer", "candidate"] },
+            },
+            {
+              name: "redirect",
+              in: "query",
+              required: false,
+              description:
+                "Same-site path to return to after sign-in (returned as `next`)",
+              schema: { type: "string", example: "/dashboard" },
+            },
+          ],
+          responses: {
+            302: {
+              description:
+                "Redirect to the provider's consent screen; sets an httpOnly state-binding cookie",
+            },
+            404: { description: "Unknown provider" },
+            501: { description: "Provider not configured on this server" },
+          },
+        },
+      },
+      "/auth/{provider}/callback": {
+        get: {
+          tags: ["Auth"],
+          summary: "OAuth callback",
+          description:
+            "Handles the redirect from the provider after user consent. Redirects to `/oauth-callback` on the frontend with a one-time `code`, the `state` and `next`; no tokens appear in the URL. If the email belongs to an existing account, redirects to `/link-account?ticket=…` instead — the owner must confirm via /auth/oauth/link/confirm.",
+          parameters: [
+            {
+              name: "provider",
+              in: "path",
+              required: true,
+              schema: {
+                type: "string",
+                enum: ["google", "microsoft", "linkedin"],
+              },
+            },
+          ],
+          responses: {
+            302: {
+              description:
+                "Redirect to frontend with a one-time code (or oauth_error / two_factor_challenge on /login)",
+            },
+          },
+        },
+      },
+      "/auth/oauth/exchange": {
+        post: {
+          tags: ["Auth"],
+          summary: "Exchange a one-time OAuth code for tokens",
+          description:
+            "Codes are valid for 60 seconds, can be used once, and must be sent with the state from the same redirect. Accounts with 2FA get a challenge for /auth/login/2fa instead of tokens.",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["code", "state"],
+                  properties: {
+                    code: { type: "string" },
+                    state: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description:
+                "Authenticated, or a 2FA challenge when the account has two-factor enabled",
+              content: {
+                "application/json": {
+                  schema: {
+                    oneOf: [
+                      { $ref: "#/components/schemas/AuthResponse" },
+                      { $ref: "#/components/schemas/TwoFactorChallenge" },
+                    ],
+                  },
+                },
+              },
+            },
+            400: { description: "Invalid, expired or already used code" },
+          },
+        },
+      },
+      "/auth/oauth/link/email": {
+        post: {
+          tags: ["Auth"],
+          summary: "Email a confirmation link for a pending provider link",
+          description:
+            "Used when an OAuth sign-in matched an existing account by email (the callback redirects to `/link-account?ticket=…`).",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["ticket"],
+                  properties: { ticket: { type: "string" } },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: "Confirmation email sent" },
+            400: { description: "Invalid or expired link request" },
+          },
+        },
+      },
+      "/auth/oauth/link/confirm": {
+        post: {
+          tags: ["Auth"],
+          summary: "Confirm a pending provider link and sign in",
+          description:
+            "Send `{ ticket, password }` or the emailed `{ token }`. Links the provider identity, then responds like /auth/login (tokens, or a two-factor challenge).",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  oneOf: [
+                    {
+                      type: "object",
+                      required: ["ticket", "password"],
+                      properties: {
+                        ticket: { type: "string" },
+                        password: { type: "string" },
+                      },
+                    },
+                    {
+                      type: "object",
+                      required: ["token"],
+                      properties: { token: { type: "string" } },
+                    },
+                  ],
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: "Linked and authenticated (or 2FA challenge)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/AuthResponse" },
+                },
+              },
+            },
+            400: { description: "Invalid or expired link request" },
+            401: { description: "Incorrect password" },
+            429: { description: "Too many failed attempts (see Retry-After)" },
+          },
+        },
+      },
+      // ===== USER ===================================================
+      "/user/username-available": {
+        get: {
+          tags: ["User"],
+          summary: "Check whether a username can be claimed",
+          description:
+            "Public (for the sign-up form) and rate limited per IP. reason is invalid, reserved or taken when unavailable; taken and reserved names come with free suggestions.",
+          parameters: [
+            { name: "u", in: "query", required: true, schema: { type: "string" } },
+          ],
+          responses: {
+            200: {
+              description: "Availability",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      username: { type: "string" },
+                      available: { type: "boolean" },
+                      reason: {
+                        type: "string",
+                        nullable: true,
+                        enum: ["invalid", "reserved", "taken"],
+                      },
+                      suggestions: { type: "array", items: { type: "string" } },
+                    },
+                  },
+                },
+              },
+            },
+            400: { description: "Missing u" },
+            429: { description: "Too many lookups from this IP" },
+          },
+        },
+      },
+      "/users/{username}": {
+        get: {
+          tags: ["User"],
+          summary: "Public profile card",
+          description:
+            "Resolves a username to its public fields only. Unknown, reserved and deactivated accounts all answer 404. Rate limited per IP.",
+          parameters: [
+            {
+              name: "username",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            200: {
+              description: "Public profile",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      username: { type: "string" },
+                      first_name: { type: "string" },
+                      last_name: { type: "string" },
+                      user_type: { type: "string" },
+                      member_since: { type: "string", format: "date-time" },
+                    },
+                  },
+                },
+              },
+            },
+            404: { description: "User not found" },
+            429: { description: "Too many lookups from this IP" },
+          },
+        },
+      },
+      "/user/profile": {
+        get: {
+          tags: ["User"],
+          summary: "Get your profile",
+          security: [{ BearerAuth: [] }],
+          responses: {
+            200: {
+              description: "Profile",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      profile: { $ref: "#/components/schemas/Profile" },
+                    },
+                  },
+                },
+              },
+            },
+            401: { description: "Unauthorized" },
+          },
+        },
+        patch: {
+          tags: ["User"],
+          summary: "Update name or username",
+          description:
+            "Changing the username replaces the caller's session and returns new access/refresh tokens carrying it. Email changes go through POST /user/profile/email.",
+          security: [{ BearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  additionalProperties: false,
+                  properties: {
+                    firstName: { type: "string" },
+                    lastName: { type: "string" },
+                    username: {
+                      type: "string",
+                      pattern: "^[a-z0-9]+(?:-[a-z0-9]+)*$",
+                      minLength: 3,
+                      maxLength: 40,
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: "Updated (tokens only when the username changed)",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      profile: { $ref: "#/components/schemas/Profile" },
+                      access: { type: "string" },
+                      refresh: { type: "string" },
+                    },
+                  },
+                },
+              },
+            },
+            400: { description: "Validation error" },
+            401: { description: "Unauthorized" },
+            409: {
+              description: "Username taken or reserved",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      error: { type: "string" },
+                      suggestions: { type: "array", items: { type: "string" } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/user/profile/email": {
+        post: {
+          tags: ["User"],
+          summary: "Start an email change",
+          description:
+            "Mails a confirmation link to the new address; the current address stays until it is confirmed. Requires the current password, or a sign-in within REAUTH_MAX_AGE_MINUTES.",
+          security: [{ BearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["email"],
+                  properties: {
+                    email: { type: "string", format: "email" },
+                    password: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            202: { description: "Confirmation link sent to the new address" },
+            400: { description: "Validation error or unchanged address" },
+            401: {
+              description:
+                "Unauthorized, wrong password, or code reauth_required",
+            },
+            409: { description: "Email already registered" },
+            429: { description: "Too many failed attempts (see Retry-After)" },
+          },
+        },
+      },
+      "/user/profile/email/confirm": {
+        post: {
+          tags: ["User"],
+          summary: "Confirm an email change",
+          description:
+            "Uses the token from the emailed link and notifies the old address. Signs out every session and returns fresh tokens.",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["token"],
+                  properties: { token: { type: "string" } },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: "Email updated",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      profile: { $ref: "#/components/schemas/Profile" },
+                      access: { type: "string" },
+                      refresh: { type: "string" },
+                    },
+                  },
+                },
+              },
+            },
+            400: { description: "Invalid or expired link" },
+            409: { description: "Email already registered" },
+          },
+        },
+      },
+      "/user/export": {
+        post: {
+          tags: ["User"],
+          summary: "Request a copy of your personal data",
+          description:
+            "Builds a ZIP in the background: export.json plus profile, preferences, subscription, candidate_payments and sessions CSVs. Password hashes, 2FA secrets and refresh tokens are never included. Returns the export in progress if one is already being built.",
+          security: [{ BearerAuth: [] }],
+          responses: {
+            202: {
+              description: "Export started",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      export: { $ref: "#/components/schemas/DataExport" },
+                    },
+                  },
+                },
+              },
+            },
+            401: { description: "Unauthorized" },
+          },
+        },
+      },
+      "/user/export/{id}": {
+        get: {
+          tags: ["User"],
+          summary: "Export status",
+          description:
+            "Once ready, each call returns a fresh download_url valid for DATA_EXPORT_LINK_TTL_MINUTES.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          responses: {
+            200: {
+              description: "Export status",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      export: { $ref: "#/components/schemas/DataExport" },
+                    },
+                  },
+                },
+              },
+            },
+            401: { description: "Unauthorized" },
+            404: { description: "Export not found" },
+          },
+        },
+      },
+      "/user/export/{id}/download": {
+        get: {
+          tags: ["User"],
+          summary: "Download an export",
+          description:
+            "Authorized by the signed token in download_url, so it works as a plain link.",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            {
+              name: "token",
+              in: "query",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            200: {
+              description: "ZIP archive",
+              content: {
+                "application/zip": {
+                  schema: { type: "string", format: "binary" },
+                },
+              },
+            },
+            401: { description: "Link invalid or expired" },
+            404: { description: "Archive no longer available" },
+          },
+        },
+      },
+      "/user/activity": {
+        get: {
+          tags: ["User"],
+          summary: "Your account's audit history",
+          description:
+            "Sign-ins, session and password changes, billing and settings updates, newest first. actor is self, admin or system; admin notes are not shown.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            {
+              name: "cursor",
+              in: "query",
+              description: "next_cursor from the previous page",
+              schema: { type: "string" },
+            },
+            {
+              name: "limit",
+              in: "query",
+              schema: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+            },
+          ],
+          responses: {
+            200: {
+              description: "One page of events",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      events: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            id: { type: "string" },
+                            action: { type: "string", example: "auth.signed_in" },
+                            actor: {
+                              type: "string",
+                              enum: ["self", "admin", "system"],
+                            },
+                            ip: { type: "string", nullable: true },
+                            device: { type: "string", nullable: true },
+                            before: { nullable: true },
+                            after: { nullable: true },
+                            details: { type: "object", nullable: true },
+                            created_at: { type: "string", format: "date-time" },
+                          },
+                        },
+                      },
+                      next_cursor: { type: "string", nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+            400: { description: "Invalid cursor or limit" },
+            401: { description: "Unauthorized" },
+          },
+        },
+      },
+      "/user/identities": {
+        get: {
+          tags: ["User"],
+          summary: "List linked sign-in providers",
+          security: [{ BearerAuth: [] }],
+          responses: {
+            200: {
+              description:
+                "Linked identities, whether a password is set, and linkable providers",
+            },
+            401: { description: "Unauthorized" },
+          },
+        },
+        post: {
+          tags: ["User"],
+          summary: "Start linking a sign-in provider",
+          description:
+            "Returns `authorization_url`; navigate the browser there. The result comes back on `redirect` as `identity_linked` or `identity_link_error`.",
+          security: [{ BearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["provider"],
+                  properties: {
+                    provider: {
+                      type: "string",
+                      enum: ["google", "microsoft", "linkedin"],
+                    },
+                    redirect: { type: "string", example: "/settings" },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: "Authorization URL" },
+            400: { description: "Unsupported or unconfigured provider" },
+            409: { description: "Provider already linked" },
+          },
+        },
+      },
+      "/user/identities/{id}": {
+        delete: {
+          tags: ["User"],
+          summary: "Unlink a sign-in provider",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          responses: {
+            200: { description: "Unlinked" },
+            404: { description: "Not found" },
+            409: { description: "Last remaining sign-in method" },
+          },
+        },
+      },
+      // ===== KEYS ===================================================
+      "/.well-known/jwks.json": {
+        servers: [{ url: "/", description: "Served outside /api" }],
+        get: {
+          tags: ["Auth"],
+          summary: "JSON Web Key Set for access-token verification",
+          description:
+            "Contains every active and retired signing key; match tokens by the kid header.",
+          responses: {
+            200: { description: "JWK Set" },
+          },
+        },
+      },
+      // ===== PAYMENTS ===============================================
+      "/payments/plans": {
+        get: {
+          tags: ["Payments"],
+          summary: "List vendor subscription plans",
+          responses: {
+            200: {
+              description: "Plan list",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      plans: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/VendorPlan" },
+                      },
+                      extra_seat: {
+                        type: "object",
+                        nullable: true,
+                        description:
+                          "Monthly price per member beyond includedSeats (null when seat billing is not configured)",
+                        properties: {
+                          price: { type: "number" },
+                          interval: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/payments/candidate-packages": {
+        get: {
+          tags: ["Payments"],
+          summary: "List candidate visibility packages",
+          responses: {
+            200: {
+              description: "Package list",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "array",
+                    items: { $ref: "#/components/schemas/CandidatePackage" },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/payments/subscription": {
+        get: {
+          tags: ["Payments"],
+          summary: "Get current user subscription status",
+          description:
+            "Employers get their company's subscription plus seat usage; seats is null for candidates.",
+          security: [{ BearerAuth: [] }],
+          responses: {
+            200: {
+              description: "Subscription data",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      subscription: {
+                        $ref: "#/components/schemas/Subscription",
+                      },
+                      seats: {
+                        allOf: [{ $ref: "#/components/schemas/SeatUsage" }],
+                        nullable: true,
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            401: { description: "Unauthorized" },
+          },
+        },
+      },
+      "/companies/{id}": {
+        get: {
+          tags: ["Companies"],
+          summary: "Get company details (company admins)",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          responses: {
+            200: {
+              description: "Company",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      company: { $ref: "#/components/schemas/Company" },
+                    },
+                  },
+                },
+              },
+            },
+            403: { description: "Role lacks company:manage" },
+            404: { description: "Not a member of this company" },
+          },
+        },
+        put: {
+          tags: ["Companies"],
+          summary: "Update company details (company admins)",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["name"],
+                  properties: {
+                    name: { type: "string", maxLength: 120 },
+                    website: { type: "string", format: "uri", nullable: true },
+                    phone: { type: "string", nullable: true },
+                    address: { type: "string", nullable: true },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: "Updated company" },
+            400: { description: "Validation error" },
+            403: { description: "Role lacks company:manage" },
+            404: { description: "Not a member of this company" },
+          },
+        },
+      },
+      "/companies/{id}/invitations": {
+        get: {
+          tags: ["Companies"],
+          summary: "List pending invitations and seat usage",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          responses: {
+            200: {
+              description: "Invitations and seats",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      invitations: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/CompanyInvitation" },
+                      },
+                      seats: { $ref: "#/components/schemas/SeatUsage" },
+                    },
+                  },
+                },
+              },
+            },
+            403: { description: "Role lacks team:manage" },
+          },
+        },
+        post: {
+          tags: ["Companies"],
+          summary: "Invite a team member",
+          description:
+            "Emails a signed link valid for INVITATION_TTL_HOURS (72 by default). Pending invitations count against the plan's seat limit. Only company admins can invite another admin.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["email", "role"],
+                  properties: {
+                    email: { type: "string", format: "email" },
+                    role: {
+                      type: "string",
+                      enum: [
+                        "admin",
+                        "manager",
+                        "vendor",
+                        "marketer_accounts",
+                        "marketer_immigration",
+                        "marketer_placement",
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            201: { description: "Invitation sent" },
+            400: { description: "Validation error" },
+            403: { description: "Role lacks team:manage" },
+            409: {
+              description:
+                "Already a member, already invited, candidate email, or seat_limit_reached",
+            },
+          },
+        },
+      },
+      "/companies/{id}/invitations/{invitationId}": {
+        delete: {
+          tags: ["Companies"],
+          summary: "Revoke a pending invitation",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            {
+              name: "invitationId",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            200: { description: "Invitation revoked" },
+            404: { description: "No pending invitation with this id" },
+          },
+        },
+      },
+      "/companies/{id}/invitations/{invitationId}/resend": {
+        post: {
+          tags: ["Companies"],
+          summary: "Resend an invitation with a fresh link",
+          description:
+            "Earlier links stop working and the expiry restarts. Reviving an expired invitation needs a free seat.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            {
+              name: "invitationId",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            200: { description: "Invitation resent" },
+            404: { description: "No pending invitation with this id" },
+            409: { description: "seat_limit_reached" },
+          },
+        },
+      },
+      "/companies/{id}/members/{userId}": {
+        delete: {
+          tags: ["Companies"],
+          summary: "Remove a member from the company",
+          description:
+            "Needs team:manage; removing an admin also needs company:manage. The member keeps their account on a new company of their own and is signed out. Stripe's extra-seat quantity is updated.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            {
+              name: "userId",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            200: { description: "Member removed" },
+            403: { description: "Removing an admin needs company:manage" },
+            404: { description: "Not a member of this company" },
+            409: { description: "Cannot remove yourself or the owner" },
+          },
+        },
+      },
+      "/auth/invitations/accept": {
+        post: {
+          tags: ["Companies"],
+          summary: "Accept a company invitation",
+          description:
+            "If an employer account with the invited email exists it joins the company (200). Otherwise a new account is created from password and signed in (201).",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["token"],
+                  properties: {
+                    token: { type: "string" },
+                    password: {
+                      type: "string",
+                      minLength: 8,
+                      description: "Required when no account exists yet",
+                    },
+                    firstName: { type: "string" },
+                    lastName: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: "Existing account joined the company" },
+            201: {
+              description: "Account created and signed in",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/AuthResponse" },
+                },
+              },
+            },
+            400: { description: "Invalid, expired or used invitation" },
+            409: {
+              description:
+                "Candidate account, or the user cannot leave their current company",
+            },
+          },
+        },
+      },
+      "/admin/users": {
+        get: {
+          tags: ["Admin"],
+          summary: "Search users",
+          description:
+            "Paginated, newest first. email and username match case-insensitive substrings; the other filters match exactly.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "email", in: "query", schema: { type: "string" } },
+            { name: "username", in: "query", schema: { type: "string" } },
+            {
+              name: "userType",
+              in: "query",
+              schema: { type: "string", enum: ["candidate", "employer"] },
+            },
+            {
+              name: "plan",
+              in: "query",
+              schema: {
+                type: "string",
+                enum: ["free", "basic", "pro", "pro_plus", "marketer"],
+              },
+            },
+            { name: "isActive", in: "query", schema: { type: "boolean" } },
+            {
+              name: "page",
+              in: "query",
+              schema: { type: "integer", minimum: 1, default: 1 },
+            },
+            {
+              name: "limit",
+              in: "query",
+              schema: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+            },
+          ],
+          responses: {
+            200: {
+              description: "One page of users",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      users: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/AdminUser" },
+                      },
+                      page: { type: "integer" },
+                      limit: { type: "integer" },
+                      total: { type: "integer" },
+                    },
+                  },
+                },
+              },
+            },
+            400: { description: "Invalid filter" },
+            403: { description: "Not an administrator" },
+          },
+        },
+      },
+      "/admin/users/{id}": {
+        get: {
+          tags: ["Admin"],
+          summary: "User details",
+          description:
+            "The user (with membership_config and active_sessions), their company, the subscription they bill against and their CandidatePayment history, newest first.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          responses: {
+            200: { description: "User details" },
+            403: { description: "Not an administrator" },
+            404: { description: "User not found" },
+          },
+        },
+      },
+      "/admin/users/{id}/activate": {
+        post: {
+          tags: ["Admin"],
+          summary: "Reactivate a user",
+          description:
+            "Lets the user sign in again.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          requestBody: {
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/AdminReason" },
+              },
+            },
+          },
+          responses: {
+            200: { description: "Done" },
+            403: { description: "Not an administrator" },
+            404: { description: "User not found" },
+            409: { description: "User has requested account deletion" },
+          },
+        },
+      },
+      "/admin/users/{id}/deactivate": {
+        post: {
+          tags: ["Admin"],
+          summary: "Deactivate a user",
+          description:
+            "Blocks sign-in and revokes every refresh token. Issued access tokens stay valid until they expire.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          requestBody: {
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/AdminReason" },
+              },
+            },
+          },
+          responses: {
+            200: { description: "Done" },
+            400: { description: "Cannot deactivate yourself" },
+            403: { description: "Not an administrator" },
+            404: { description: "User not found" },
+          },
+        },
+      },
+      "/admin/users/{id}/logout": {
+        post: {
+          tags: ["Admin"],
+          summary: "Sign a user out everywhere",
+          description:
+            "Revokes all of the user's refresh tokens.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          requestBody: {
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/AdminReason" },
+              },
+            },
+          },
+          responses: {
+            200: { description: "Done" },
+            403: { description: "Not an administrator" },
+            404: { description: "User not found" },
+          },
+        },
+      },
+      "/admin/users/{id}/plan": {
+        put: {
+          tags: ["Admin"],
+          summary: "Override an employer's plan",
+          description:
+            "Updates the subscription the employer bills against (their company's) without touching Stripe. Webhooks for a Stripe-managed subscription overwrite it later.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["plan"],
+                  properties: {
+                    plan: {
+                      type: "string",
+                      enum: ["free", "basic", "pro", "pro_plus", "marketer"],
+                    },
+                    status: {
+                      type: "string",
+                      enum: ["active", "inactive", "trialing", "canceled", "past_due"],
+                      default: "active",
+                    },
+                    currentPeriodEnd: {
+                      type: "string",
+                      format: "date-time",
+                      nullable: true,
+                    },
+                    reason: { type: "string", maxLength: 500 },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: "Updated subscription" },
+            400: { description: "Validation error, or the user is a candidate" },
+            403: { description: "Not an administrator" },
+            404: { description: "User not found" },
+          },
+        },
+      },
+      "/admin/users/{id}/membership": {
+        put: {
+          tags: ["Admin"],
+          summary: "Override a candidate's visibility",
+          description:
+            "Replaces membershipConfig. The next purchase recomputes it from CandidatePayment records.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["membershipConfig"],
+                  properties: {
+                    membershipConfig: {
+                      type: "object",
+                      properties: {
+                        contract: { type: "array", items: { type: "string" } },
+                        full_time: { type: "array", items: { type: "string" } },
+                      },
+                    },
+                    reason: { type: "string", maxLength: 500 },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: { description: "Updated membership" },
+            400: { description: "Unknown subdomain, or the user is not a candidate" },
+            403: { description: "Not an administrator" },
+            404: { description: "User not found" },
+          },
+        },
+      },
+      "/admin/audit-events": {
+        get: {
+          tags: ["Admin"],
+          summary: "Query the audit trail",
+          description:
+            "Newest first, cursor-paginated. Filters combine; action wins over category.",
+          security: [{ BearerAuth: [] }],
+          parameters: [
+            { name: "action", in: "query", schema: { type: "string" } },
+            {
+              name: "category",
+              in: "query",
+              schema: {
+                type: "string",
+                enum: [
+                  "auth",
+                  "company",
+                  "billing",
+                  "preferences",
+                  "profile",
+                  "privacy",
+                  "admin",
+                ],
+              },
+            },
+            { name: "actorId", in: "query", schema: { type: "string" } },
+            { name: "targetUserId", in: "query", schema: { type: "string" } },
+            { name: "ip", in: "query", schema: { type: "string" } },
+            {
+              name: "from",
+              in: "query",
+              schema: { type: "string", format: "date-time" },
+            },
+            {
+              name: "to",
+              in: "query",
+              description: "Exclusive",
+              schema: { type: "string", format: "date-time" },
+            },
+            {
+              name: "cursor",
+              in: "query",
+              description: "next_cursor from the previous page",
+              schema: { type: "string" },
+            },
+            {
+              name: "limit",
+              in: "query",
+              schema: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+            },
+          ],
+          responses: {
+            200: {
+              description: "One page of events",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      events: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/AuditEvent" },
+                      },
+                      next_cursor: { type: "string", nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+            400: { description: "Invalid filter" },
+            403: { description: "Not an administrator" },
+          },
+        },
+      },
+      "/payments/checkout": {
+        post: {
+          tags: ["Payments"],
+          summary: "Create Stripe Checkout session (vendor subscription)",
+          security: [{ BearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/CheckoutRequest" },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: "Checkout URL",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/CheckoutResponse" },
+                },
+              },
+            },
+            401: { description: "Unauthorized" },
+            403: {
+              description:
+                "Email address not verified, or role lacks billing:manage",
+            },
           },
         },
       },
@@ -415,6 +2376,7 @@ const options: swaggerJsdoc.Options = {
               },
             },
             401: { description: "Unauthorized" },
+            403: { description: "Email address not verified" },
           },
         },
       },
@@ -433,6 +2395,7 @@ const options: swaggerJsdoc.Options = {
               },
             },
             401: { description: "Unauthorized" },
+            403: { description: "Role lacks billing:manage" },
           },
         },
       },
@@ -484,6 +2447,7 @@ const options: swaggerJsdoc.Options = {
               },
             },
             401: { description: "Unauthorized" },
+            403: { description: "Role lacks billing:manage" },
           },
         },
       },
@@ -15,3 +15,9 @@ export const EMAIL_COLORS = {
   primaryLight: "#3b6fa6",
   accent: "#a8cbf5",
 } as const;
+
+// ─── Two-Factor Authentication ─────────────────────────────────────────────────
+
+/** Issuer shown next to the account in authenticator apps. */
+export const TOTP_ISSUER = "MatchingDB";
+export const RECOVERY_CODE_COUNT = 10;
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { IAuditEvent } from "../models";
+import { listAuditEvents, AUDIT_PAGE_MAX } from "../services/audit.service";
+import { describeDevice } from "../services/session.service";
+
+const activityQuerySchema = z.object({
+  cursor: z
+    .string()
+    .regex(/^[0-9a-f]{24}$/, "Invalid cursor")
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(AUDIT_PAGE_MAX).default(20),
+});
+
+/**
+ * An event as its subject sees it. Admin actions do not reveal which admin
+ * acted or the internal notes they left.
+ */
+function activityResponse(event: IAuditEvent, userId: string) {
+  const byAdmin = event.action.startsWith("admin.");
+  let actor: "self" | "admin" | "system" = "admin";
+  if (!event.actorId) actor = "system";
+  else if (event.actorId === userId) actor = "self";
+
+  return {
+    id: event._id,
+    action: event.action,
+    actor,
+    ip: event.ip ?? null,
+    device: event.userAgent ? describeDevice(event.userAgent) : null,
+    before: event.before ?? null,
+    after: event.after ?? null,
+    details: byAdmin ? null : (event.metadata ?? null),
+    created_at: event.createdAt.toISOString(),
+  };
+}
+
+/**
+ * GET /api/user/activity
+ * The signed-in user's own audit history (sign-ins, password and session
+ * changes, billing and settings updates), newest first. Pass `next_cursor`
+ * back as `cursor` for the following page.
+ */
+export async function listActivity(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = activityQuerySchema.parse(req.query);
+    const userId = req.user!.userId;
+
+    const { events, nextCursor } = await listAuditEvents(
+      { targetUserId: userId },
+      query,
+    );
+    res.json({
+      events: events.map((e) => activityResponse(e, userId)),
+      next_cursor: nextCursor,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
@@ -0,0 +1,644 @@
+import { Request, Response, NextFunction } from "express";
+import { FilterQuery, Types } from "mongoose";
+import { z } from "zod";
+import {
+  CandidatePayment,
+  Company,
+  ICandidatePayment,
+  ISubscription,
+  IAuditEvent,
+  IUser,
+  RefreshToken,
+  Subscription,
+  User,
+} from "../models";
+import { rolesFor } from "../config/roles";
+import { CONTRACT_SUBDOMAINS, FULLTIME_SUBDOMAINS } from "../constants";
+import {
+  VENDOR_PLAN_DEFINITIONS,
+  MARKETER_PLAN,
+} from "../services/stripe.service";
+import {
+  findSubscription,
+  subscriptionFilter,
+} from "../services/company.service";
+import { revokeAllSessions } from "../services/session.service";
+import {
+  recordAuditEvent,
+  listAuditEvents,
+  AUDIT_CATEGORIES,
+  AUDIT_PAGE_MAX,
+} from "../services/audit.service";
+
+/* =============================================================================
+ * Admin console — user management for the support team.
+ *
+ * Mounted at /api/admin behind requirePermission("platform:admin"). Every change is
+ * written to the audit trail (AuditEvent) with an optional free-text reason.
+ * ============================================================================= */
+
+const PLAN_IDS = [
+  ...VENDOR_PLAN_DEFINITIONS.map((p) => p.id),
+  MARKETER_PLAN.id,
+];
+
+const planId = z.string().refine((p) => PLAN_IDS.includes(p), {
+  message: `Plan must be one of: ${PLAN_IDS.join(", ")}`,
+});
+
+const SUBSCRIPTION_STATUSES = [
+  "active",
+  "inactive",
+  "trialing",
+  "canceled",
+  "past_due",
+] as const;
+
+const searchUsersSchema = z.object({
+  email: z.string().trim().min(1).max(254).optional(),
+  username: z.string().trim().min(1).max(100).optional(),
+  userType: z.enum(["candidate", "employer"]).optional(),
+  plan: planId.optional(),
+  isActive: z
+    .enum(["true", "false"])
+    .transform((v) => v === "true")
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const reasonSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+const planOverrideSchema = reasonSchema.extend({
+  plan: planId,
+  status: z.enum(SUBSCRIPTION_STATUSES).default("active"),
+  currentPeriodEnd: z.string().datetime().nullish(),
+});
+
+const subdomainList = (allowed: readonly string[], label: string) =>
+  z
+    .array(
+      z.string().refine((s) => allowed.includes(s), {
+        message: `${label} subdomains must be among: ${allowed.join(", ")}`,
+      }),
+    )
+    .transform((subs) => [...new Set(subs)]);
+
+const membershipOverrideSchema = reasonSchema.extend({
+  membershipConfig: z
+    .object({
+      contract: subdomainList(CONTRACT_SUBDOMAINS, "Contract").optional(),
+      full_time: subdomainList(FULLTIME_SUBDOMAINS, "Full-time").optional(),
+    })
+    .strict(),
+});
+
+const auditQuerySchema = z.object({
+  action: z.string().trim().min(1).max(100).optional(),
+  category: z
+    .string()
+    .refine((c) => AUDIT_CATEGORIES.includes(c), {
+      message: `Category must be one of: ${AUDIT_CATEGORIES.join(", ")}`,
+    })
+    .optional(),
+  actorId: z.string().trim().min(1).optional(),
+  targetUserId: z.string().trim().min(1).optional(),
+  ip: z.string().trim().min(1).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  cursor: z
+    .string()
+    .regex(/^[0-9a-f]{24}$/, "Invalid cursor")
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(AUDIT_PAGE_MAX).default(50),
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function escapeRegex(value: string): string {
+  return value.replaceAll(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Users whose subscription is on `plan`. Employers bill through their
+ * company; users without a subscription count as "free".
+ */
+async function planFilter(plan: string): Promise<FilterQuery<IUser>> {
+  const subscriptions = await Subscription.find(
+    plan === "free" ? { plan: { $ne: "free" } } : { plan },
+  ).select("userId companyId");
+  const companyIds = subscriptions.flatMap((s) => s.companyId ?? []);
+  const userIds = subscriptions.flatMap((s) => s.userId ?? []);
+  const match: FilterQuery<IUser> = {
+    $or: [
+      { companyId: { $in: companyIds } },
+      { companyId: null, _id: { $in: userIds } },
+    ],
+  };
+  return plan === "free" ? { $nor: [match] } : match;
+}
+
+/** Plan of each user in `users`, with a single subscription query. */
+async function plansFor(users: IUser[]): Promise<Map<string, string>> {
+  const subscriptions = await Subscription.find({
+    $or: [
+      { companyId: { $in: users.flatMap((u) => u.companyId ?? []) } },
+      { userId: { $in: users.map((u) => u._id) } },
+    ],
+  }).select("userId companyId plan");
+
+  const plans = new Map<string, string>();
+  for (const user of users) {
+    const sub = subscriptions.find((s) =>
+      user.companyId ? s.companyId === user.companyId : s.userId === user._id,
+    );
+    plans.set(user._id, sub?.plan || "free");
+  }
+  return plans;
+}
+
+function adminUserResponse(user: IUser, plan: string) {
+  return {
+    id: user._id,
+    email: user.email,
+    username: user.username || "",
+    first_name: user.firstName || "",
+    last_name: user.lastName || "",
+    user_type: user.userType,
+    roles: rolesFor(user),
+    company_id: user.companyId ?? null,
+    plan,
+    email_verified: user.emailVerified,
+    two_factor_enabled: user.twoFactorEnabled,
+    is_active: user.isActive,
+    deletion_scheduled_at: user.deletionScheduledAt?.toISOString() ?? null,
+    created_at: user.createdAt.toISOString(),
+    updated_at: user.updatedAt.toISOString(),
+  };
+}
+
+function parseMembershipConfig(
+  raw: string | null | undefined,
+): Record<string, string[]> | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+function parseSubdomains(raw: string): string[] {
+  try {
+    return JSON.parse(raw) as string[];
+  } catch {
+    return [];
+  }
+}
+
+function subscriptionResponse(sub: ISubscription) {
+  return {
+    id: sub._id,
+    company_id: sub.companyId ?? null,
+    plan: sub.plan,
+    status: sub.status,
+    current_period_end: sub.currentPeriodEnd?.toISOString() ?? null,
+    extra_seats: sub.extraSeats,
+    stripe_customer_id: sub.stripeCustomerId ?? null,
+    stripe_subscription_id: sub.stripeSubId ?? null,
+  };
+}
+
+function paymentResponse(payment: ICandidatePayment) {
+  return {
+    id: payment._id,
+    package_type: payment.packageType,
+    domain: payment.domain ?? null,
+    subdomains: parseSubdomains(payment.subdomains),
+    amount_cents: payment.amountCents,
+    status: payment.status,
+    stripe_session_id: payment.stripeSessionId,
+    created_at: payment.createdAt.toISOString(),
+  };
+}
+
+// ─── Users ────────────────────────────────────────────────────────────────────
+
+/**
+ * GET /api/admin/users
+ * Paginated search. `email` and `username` match case-insensitively
+ * anywhere in the value; the other filters match exactly.
+ */
+export async function searchUsers(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = searchUsersSchema.parse(req.query);
+
+    const conditions: FilterQuery<IUser>[] = [];
+    if (query.email) {
+      conditions.push({
+        email: { $regex: escapeRegex(query.email), $options: "i" },
+      });
+    }
+    if (query.username) {
+      conditions.push({
+        username: { $regex: escapeRegex(query.username), $options: "i" },
+      });
+    }
+    if (query.userType) conditions.push({ userType: query.userType });
+    if (query.isActive !== undefined) {
+      conditions.push({ isActive: query.isActive });
+    }
+    if (query.plan) conditions.push(await planFilter(query.plan));
+    const filter = conditions.length ? { $and: conditions } : {};
+
+    const [users, total] = await Promise.all([
+      User.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((query.page - 1) * query.limit)
+        .limit(query.limit),
+      User.countDocuments(filter),
+    ]);
+    const plans = await plansFor(users);
+
+    res.json({
+      users: users.map((u) => adminUserResponse(u, plans.get(u._id)!)),
+      page: query.page,
+      limit: query.limit,
+      total,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * GET /api/admin/users/:id
+ * Account details with the subscription it bills against, the company and
+ * every CandidatePayment (newest first).
+ */
+export async function getUserDetails(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    const [subscription, company, payments, activeSessions] =
+      await Promise.all([
+        findSubscription(user),
+        user.companyId
+          ? Company.findById(user.companyId).select("name ownerId")
+          : null,
+        CandidatePayment.find({ userId: user._id }).sort({ createdAt: -1 }),
+        RefreshToken.countDocuments({
+          userId: user._id,
+          revoked: false,
+          expiresAt: { $gt: new Date() },
+        }),
+      ]);
+
+    res.json({
+      user: {
+        ...adminUserResponse(user, subscription?.plan || "free"),
+        membership_config: parseMembershipConfig(user.membershipConfig),
+        has_purchased_visibility: user.hasPurchasedVisibility,
+        active_sessions: activeSessions,
+      },
+      company: company && {
+        id: company._id,
+        name: company.name,
+        is_owner: company.ownerId === user._id,
+      },
+      subscription: subscription && subscriptionResponse(subscription),
+      payments: payments.map(paymentResponse),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/admin/users/:id/deactivate
+ * Blocks sign-in and revokes every refresh token. Access tokens already
+ * issued stay valid until they expire (JWT_ACCESS_EXPIRES).
+ */
+export async function deactivateUser(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = reasonSchema.parse(req.body ?? {});
+    if (req.params.id === req.user!.userId) {
+      res.status(400).json({ error: "You cannot deactivate your own account" });
+      return;
+    }
+
+    // Returns the user as it was, for the audit snapshot
+    const user = await User.findByIdAndUpdate(req.params.id, {
+      isActive: false,
+    }).select("isActive");
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+    const revoked = await revokeAllSessions(user._id);
+
+    await recordAuditEvent(req, "admin.user_deactivated", {
+      targetUserId: user._id,
+      before: { isActive: user.isActive },
+      after: { isActive: false },
+      metadata: { reason: body.reason ?? null, sessionsRevoked: revoked },
+    });
+    res.json({ message: "User deactivated", sessions_revoked: revoked });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * POST /api/admin/users/:id/activate
+ * Lets a deactivated user sign in again.
+ */
+export async function activateUser(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = reasonSchema.parse(req.body ?? {});
+    const user = await User.findById(req.params.id).select(
+      "isActive deletionScheduledAt",
+    );
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+    // Only the owner can cancel a deletion they requested (restore link)
+    if (user.deletionScheduledAt) {
+      res.status(409).json({ error: "User has requested account deletion" });
+      return;
+    }
+    await User.updateOne({ _id: user._id }, { isActive: true });
+
+    await recordAuditEvent(req, "admin.user_activated", {
+      targetUserId: user._id,
+      before: { isActive: user.isActive },
+      after: { isActive: true },
+      metadata: { reason: body.reason ?? null },
+    });
+    res.json({ message: "User activated" });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * POST /api/admin/users/:id/logout
+ * Signs the user out everywhere by revoking all of their refresh tokens.
+ */
+export async function forceLogout(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = reasonSchema.parse(req.body ?? {});
+    const user = await User.exists({ _id: req.params.id });
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+    const revoked = await revokeAllSessions(req.params.id);
+
+    await recordAuditEvent(req, "admin.sessions_revoked", {
+      targetUserId: req.params.id,
+      metadata: { reason: body.reason ?? null, sessionsRevoked: revoked },
+    });
+    res.json({ message: "User signed out everywhere", sessions_revoked: revoked });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * PUT /api/admin/users/:id/plan
+ * Sets the plan of the subscription an employer bills against (their
+ * company's, shared by every member). Stripe is not touched — a later
+ * webhook for a Stripe-managed subscription overwrites the override. The
+ * plan reaches access tokens on their next refresh.
+ */
+export async function overridePlan(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = planOverrideSchema.parse(req.body);
+    const user = await User.findById(req.params.id).select("userType companyId");
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+    if (user.userType !== "employer") {
+      res.status(400).json({
+        error: "Candidates have no subscription plan. Override their membership instead.",
+      });
+      return;
+    }
+
+    const previous = await findSubscription(user);
+    const update: Record<string, unknown> = {
+      plan: body.plan,
+      status: body.status,
+    };
+    if (body.currentPeriodEnd !== undefined) {
+      update.currentPeriodEnd = body.currentPeriodEnd
+        ? new Date(body.currentPeriodEnd)
+        : null;
+    }
+    const subscription = await Subscription.findOneAndUpdate(
+      subscriptionFilter(user),
+      {
+        $set: update,
+        $setOnInsert: { _id: new Types.ObjectId().toString() },
+      },
+      { new: true, upsert: true, setDefaultsOnInsert: true },
+    );
+
+    await recordAuditEvent(req, "admin.plan_overridden", {
+      targetUserId: user._id,
+      before: previous && { plan: previous.plan, status: previous.status },
+      after: { plan: subscription.plan, status: subscription.status },
+      metadata: {
+        reason: body.reason ?? null,
+        subscriptionId: subscription._id,
+        companyId: subscription.companyId ?? null,
+      },
+    });
+    res.json({ subscription: subscriptionResponse(subscription) });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * PUT /api/admin/users/:id/membership
+ * Replaces a candidate's visibility (membershipConfig). The next purchase
+ * recomputes it from CandidatePayment records, dropping anything granted
+ * here that was not paid for.
+ */
+export async function overrideMembership(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = membershipOverrideSchema.parse(req.body);
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+    if (user.userType !== "candidate") {
+      res
+        .status(400)
+        .json({ error: "Only candidates have a visibility membership" });
+      return;
+    }
+
+    const config = Object.fromEntries(
+      Object.entries(body.membershipConfig).filter(
+        ([, subs]) => subs && subs.length > 0,
+      ),
+    ) as Record<string, string[]>;
+    const previous = parseMembershipConfig(user.membershipConfig);
+
+    user.membershipConfig = JSON.stringify(config);
+    user.hasPurchasedVisibility = Object.keys(config).length > 0;
+    await user.save();
+
+    await recordAuditEvent(req, "admin.membership_overridden", {
+      targetUserId: user._id,
+      before: previous,
+      after: config,
+      metadata: { reason: body.reason ?? null },
+    });
+    res.json({
+      membership_config: config,
+      has_purchased_visibility: user.hasPurchasedVisibility,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+// ─── Audit trail ──────────────────────────────────────────────────────────────
+
+function auditEventResponse(event: IAuditEvent) {
+  return {
+    id: event._id,
+    action: event.action,
+    actor_id: event.actorId ?? null,
+    actor_email: event.actorEmail ?? null,
+    target_user_id: event.targetUserId ?? null,
+    before: event.before ?? null,
+    after: event.after ?? null,
+    metadata: event.metadata ?? null,
+    ip: event.ip ?? null,
+    user_agent: event.userAgent ?? null,
+    created_at: event.createdAt.toISOString(),
+  };
+}
+
+/**
+ * GET /api/admin/audit-events
+ * Audit trail across all users, newest first. Filters combine; `category`
+ * is the action prefix (auth, billing, preferences, admin) and `from`/`to`
+ * bound createdAt. Pass `next_cursor` back as `cursor` for the next page.
+ */
+export async function searchAuditEvents(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = auditQuerySchema.parse(req.query);
+
+    const filter: FilterQuery<IAuditEvent> = {};
+    if (query.action) filter.action = query.action;
+    else if (query.category) {
+      filter.action = { $regex: `^${escapeRegex(query.category)}\\.` };
+    }
+    if (query.actorId) filter.actorId = query.actorId;
+    if (query.targetUserId) filter.targetUserId = query.targetUserId;
+    if (query.ip) filter.ip = query.ip;
+    if (query.from || query.to) {
+      filter.createdAt = {
+        ...(query.from && { $gte: new Date(query.from) }),
+        ...(query.to && { $lt: new Date(query.to) }),
+      };
+    }
+
+    const { events, nextCursor } = await listAuditEvents(filter, query);
+    res.json({
+      events: events.map(auditEventResponse),
+      next_cursor: nextCursor,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
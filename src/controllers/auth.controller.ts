@@ -2,23 +2,97 @@ import { Request, Response, NextFunction } from "express";
 import bcrypt from "bcryptjs";
 import { z } from "zod";
 import passport from "passport";
-import { User, Subscription, RefreshToken, CandidatePayment } from "../models";
-import { googleOAuthEnabled } from "../config/passport";
 import {
-  signAccessToken,
-  signRefreshToken,
+  User,
+  RefreshToken,
+  PasswordResetToken,
+  MagicLinkToken,
+  WebAuthnCredential,
+  Company,
+  CompanyInvitation,
+  IRefreshToken,
+  IUser,
+} from "../models";
+import {
+  getOAuthProvider,
+  isKnownOAuthProvider,
+  oauthProviderLabel,
+  OAuthProviderConfig,
+} from "../config/oauth-providers";
+import {
+  findLinkRequest,
+  issueLinkEmailToken,
+  completeLinkRequest,
+  LINK_REQUEST_TTL_MINUTES,
+} from "../services/oauth-identity.service";
+import {
   verifyRefreshToken,
+  signActionToken,
+  verifyActionToken,
 } from "../services/jwt.service";
-import { sendWelcomeEmail } from "../services/sendgrid.service";
+import {
+  sendWelcomeEmail,
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  sendMagicLinkEmail,
+  sendPasswordChangedEmail,
+  sendSuspiciousSessionEmail,
+  sendIdentityLinkEmail,
+  sendIdentityLinkedEmail,
+  sendAccountDeletionScheduledEmail,
+  sendAccountRestoredEmail,
+} from "../services/sendgrid.service";
+import {
+  loginThrottle,
+  checkSignInThrottle,
+  recordFailedSignIn,
+  SendRateLimit,
+  MongoLoginAttemptStore,
+} from "../services/login-throttle.service";
+import {
+  oauthStates,
+  OAuthStateRecord,
+  sanitizeRedirectPath,
+  clientRedirectUrl,
+} from "../services/oauth-state.service";
+import { generateOpaqueToken, hashToken } from "../services/token.service";
+import { generateUsername } from "../services/username.service";
+import {
+  findSubscription,
+  setUpNewAccount,
+  removeCompanyIfEmpty,
+  syncSeatBilling,
+} from "../services/company.service";
+import { verifySecondFactor } from "../services/two-factor.service";
+import {
+  issueChallenge,
+  consumeChallenge,
+  verifyAuthenticationResponse,
+  CHALLENGE_TIMEOUT_MS,
+  WebAuthnError,
+} from "../services/webauthn.service";
+import {
+  makeTokens,
+  recentlyAuthenticated,
+  startSession,
+  clientContext,
+  storeRefreshToken,
+  revokeAllSessions,
+  revokeSession,
+  describeDevice,
+  findStoredRefreshToken,
+} from "../services/session.service";
+import { recordAuditEvent } from "../services/audit.service";
+import {
+  scheduleAccountDeletion,
+  restoreAccount,
+} from "../services/account-deletion.service";
 import { AppError } from "../middleware/error.middleware";
 import { env } from "../config/env";
-
-// In-memory nonce store for OAuth CSRF protection (TTL: 10 minutes)
-const oauthNonces = new Map<string, number>();
-const NONCE_TTL_MS = 10 * 60 * 1000;
+import { rolesFor, permissionsFor, withAccountRole } from "../config/roles";
 
 const registerSchema = z.object({
-  email: z.string().email(),
+  email: z.string().trim().toLowerCase().email(),
   password: z.string().min(8, "Password must be at least 8 characters"),
   firstName: z.string().optional(),
   lastName: z.string().optional(),
@@ -27,54 +101,211 @@ const registerSchema = z.object({
 });
 
 const loginSchema = z.object({
-  email: z.string().email(),
+  email: z.string().trim().toLowerCase().email(),
   password: z.string().min(1),
 });
 
+const loginTwoFactorSchema = z
+  .object({
+    challenge: z.string().min(1),
+    code: z.string().optional(),
+    recoveryCode: z.string().optional(),
+  })
+  .refine((b) => b.code || b.recoveryCode, {
+    message: "An authenticator code or recovery code is required",
+  });
+
+const webauthnLoginSchema = z.object({
+  id: z.string().min(1, "Credential id is required"),
+  response: z.object({
+    clientDataJSON: z.string().min(1),
+    authenticatorData: z.string().min(1),
+    signature: z.string().min(1),
+    userHandle: z.string().nullish(),
+  }),
+});
+
+const oauthExchangeSchema = z.object({
+  code: z.string().min(1),
+  state: z.string().min(1),
+});
+
+const oauthLinkEmailSchema = z.object({
+  ticket: z.string().min(1),
+});
+
+const oauthLinkConfirmSchema = z.union([
+  z.object({ ticket: z.string().min(1), password: z.string().min(1) }),
+  z.object({ token: z.string().min(1) }),
+]);
+
+const unlockSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  ip: z.string().optional(),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().optional(),
+  newPassword: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+});
+
+const magicLinkSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+});
+
+const magicLinkConsumeSchema = z.object({
+  token: z.string().min(1),
+});
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1),
+  // Only for invitees without an account
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .optional(),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+const deleteAccountSchema = z.object({
+  // Optional after a recent sign-in (REAUTH_MAX_AGE_MINUTES)
+  password: z.string().optional(),
+});
+
+const restoreLinkSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+});
+
+const restoreAccountSchema = z.object({
+  token: z.string().min(1),
+});
+
 // ─── Shared helpers ───────────────────────────────────────────────────────────
 
-/** Generates a URL-safe username slug from name parts + id suffix. */
-function generateUsername(
-  firstName: string | null | undefined,
-  lastName: string | null | undefined,
-  id: string,
-): string {
-  const clean = (s?: string | null) =>
-    (s || "").toLowerCase().replaceAll(/[^a-z0-9]/g, "");
-  const first = clean(firstName);
-  const last = clean(lastName);
-  const suffix = id.replaceAll("-", "").slice(0, 6);
-  if (first && last) return `${first}-${last}-${suffix}`;
-  if (first || last) return `${first || last}-${suffix}`;
-  return `user-${suffix}`;
+/**
+ * Issues a fresh verification link for the user and emails it. Rotating the
+ * stored nonce invalidates any link sent previously.
+ */
+async function sendVerificationLink(user: {
+  _id: string;
+  email: string;
+  firstName?: string | null;
+}): Promise<void> {
+  const nonce = crypto.randomUUID();
+  await User.updateOne(
+    { _id: user._id },
+    { emailVerificationNonce: nonce },
+  );
+  const token = signActionToken(
+    "email_verification",
+    { userId: user._id, email: user.email, nonce },
+    env.EMAIL_VERIFICATION_EXPIRES,
+  );
+  await sendVerificationEmail({
+    to: user.email,
+    firstName: user.firstName || "there",
+    verifyUrl: `${env.CLIENT_URL}/verify-email?token=${encodeURIComponent(token)}`,
+  });
 }
 
-function makeTokens(
-  user: {
-    id: string;
-    email: string;
-    userType: string;
-    username?: string | null;
-  },
+/**
+ * Short-lived token proving the password step of a 2FA login passed. Single
+ * use: its nonce is stored so /login/2fa can consume it.
+ */
+async function signTwoFactorChallenge(user: {
+  _id: string;
+  email: string;
+}): Promise<string> {
+  const nonce = crypto.randomUUID();
+  await User.updateOne({ _id: user._id }, { twoFactorChallengeNonce: nonce });
+  return signActionToken(
+    "two_factor_challenge",
+    { userId: user._id, email: user.email, nonce },
+    env.TWO_FACTOR_CHALLENGE_EXPIRES,
+  );
+}
+
+/** Response telling the client to finish sign-in at /login/2fa. */
+async function twoFactorRequired(user: { _id: string; email: string }) {
+  return {
+    two_factor_required: true,
+    challenge: await signTwoFactorChallenge(user),
+    methods: ["totp", "recovery_code"],
+  };
+}
+
+type SignInMethod =
+  | "password"
+  | "two_factor"
+  | "passkey"
+  | "magic_link"
+  | "oauth"
+  | "invitation";
+
+/**
+ * Starts a new session for the user, records the sign-in and builds the
+ * standard login body.
+ */
+async function startSignIn(
+  req: Request,
+  user: IUser,
   plan: string,
+  method: SignInMethod,
 ) {
-  const access = signAccessToken({
-    userId: user.id,
-    email: user.email,
-    userType: user.userType,
+  const { access, refresh, session } = makeTokens(
+    {
+      id: user._id,
+      email: user.email,
+      userType: user.userType,
+      username: user.username,
+      roles: user.roles,
+      companyId: user.companyId,
+    },
     plan,
-    username: user.username || "",
+  );
+  await storeRefreshToken(user._id, refresh, session, clientContext(req));
+  await recordAuditEvent(req, "auth.signed_in", {
+    actor: { userId: user._id, email: user.email },
+    metadata: { method, sessionId: session.sessionId },
   });
-  const refresh = signRefreshToken({
-    userId: user.id,
-    tokenId: crypto.randomUUID(),
-  });
-  return { access, refresh };
-}
 
-async function storeRefreshToken(userId: string, token: string): Promise<void> {
-  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
-  await RefreshToken.create({ token, userId, expiresAt });
+  return {
+    user: userResponse(
+      {
+        id: user._id,
+        email: user.email,
+        firstName: user.firstName ?? null,
+        lastName: user.lastName ?? null,
+        userType: user.userType,
+        username: user.username,
+        roles: user.roles,
+        companyId: user.companyId,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+        membershipConfig: user.membershipConfig ?? null,
+        hasPurchasedVisibility: user.hasPurchasedVisibility,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      },
+      plan,
+    ),
+    access,
+    refresh,
+  };
 }
 
 function userResponse(
@@ -85,6 +316,10 @@ function userResponse(
     lastName: string | null;
     userType: string;
     username?: string | null;
+    roles?: string[] | null;
+    companyId?: string | null;
+    emailVerified?: boolean;
+    twoFactorEnabled?: boolean;
     membershipConfig: string | null;
     hasPurchasedVisibility: boolean;
     createdAt?: Date;
@@ -92,6 +327,7 @@ function userResponse(
   },
   plan: string,
 ) {
+  const roles = rolesFor(user);
   let membership_config: Record<string, string[]> | null = null;
   if (user.membershipConfig) {
     try {
@@ -107,6 +343,11 @@ function userResponse(
     last_name: user.lastName || "",
     user_type: user.userType,
     username: user.username || "",
+    roles,
+    permissions: permissionsFor(roles),
+    company_id: user.companyId ?? null,
+    email_verified: user.emailVerified ?? false,
+    two_factor_enabled: user.twoFactorEnabled ?? false,
     membership_config,
     has_purchased_visibility: user.hasPurchasedVisibility,
     plan,
@@ -144,31 +385,35 @@ export async function register(
       lastName: body.lastName,
       userType: body.userType,
       username,
+      roles: [body.userType === "employer" ? "admin" : "candidate"],
       hasPurchasedVisibility: false,
     });
 
-    // Create subscription
-    await Subscription.create({
-      userId: user._id,
-      plan: "free",
-      status: "active",
-    });
-
-    // Auto-create a Company record for marketer users (in jobs-services DB)
-    // Note: Company model is in jobs-services; marketer company auto-creation
-    // is handled when the marketer first accesses jobs-services.
+    // Employers get a company (and its subscription), candidates a plan
+    await setUpNewAccount(user, body.companyName);
 
     const plan = "free";
-    const { access, refresh } = makeTokens(
+    const { access, refresh, session } = makeTokens(
       {
         id: user._id,
         email: user.email,
         userType: user.userType,
         username: user.username,
+        roles: user.roles,
+        companyId: user.companyId,
       },
       plan,
     );
-    await storeRefreshToken(user._id, refresh);
+    await storeRefreshToken(user._id, refresh, session, clientContext(req));
+    await recordAuditEvent(req, "auth.registered", {
+      actor: { userId: user._id, email: user.email },
+      after: {
+        userType: user.userType,
+        roles: user.roles,
+        companyId: user.companyId ?? null,
+      },
+      metadata: { method: "password", sessionId: session.sessionId },
+    });
 
     // Send welcome email (non-blocking)
     sendWelcomeEmail({
@@ -176,6 +421,7 @@ export async function register(
       firstName: user.firstName || "there",
       userType: user.userType === "employer" ? "vendor" : "candidate",
     }).catch(console.error);
+    sendVerificationLink(user).catch(console.error);
 
     res.status(201).json({
       user: userResponse(
@@ -186,6 +432,10 @@ export async function register(
           lastName: user.lastName ?? null,
           userType: user.userType,
           username: user.username,
+          roles: user.roles,
+          companyId: user.companyId,
+          emailVerified: user.emailVerified,
+          twoFactorEnabled: user.twoFactorEnabled,
           membershipConfig: user.membershipConfig ?? null,
           hasPurchasedVisibility: user.hasPurchasedVisibility,
           createdAt: user.createdAt,
@@ -208,6 +458,200 @@ export async function register(
   }
 }
 
+// ─── Team Invitations ─────────────────────────────────────────────────────────
+
+const INVITATION_INVALID = "Invitation is invalid or has expired";
+
+/**
+ * Whether an existing employer may move to another company: only from a
+ * company they are alone in and that has nothing left to bill.
+ */
+async function canLeaveCompany(user: {
+  _id: string;
+  companyId?: string | null;
+}): Promise<string | null> {
+  if (!user.companyId) return null;
+  const others = await User.countDocuments({
+    companyId: user.companyId,
+    _id: { $ne: user._id },
+  });
+  if (others > 0) {
+    return "You already belong to another company. Ask its admin to remove you first.";
+  }
+  const subscription = await findSubscription(user);
+  if (subscription?.stripeSubId && subscription.status !== "canceled") {
+    return "Your current company has an active subscription. Cancel it before joining another company.";
+  }
+  return null;
+}
+
+/**
+ * POST /api/auth/invitations/accept
+ * Accepts a company invitation. An existing employer account with the
+ * invited email joins the company with the invited role (their tokens pick
+ * it up on the next refresh). Otherwise a new account is created from
+ * `password` and signed in. Either way the link proves the email address.
+ */
+export async function acceptInvitation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = acceptInvitationSchema.parse(req.body);
+
+    let payload;
+    try {
+      payload = verifyActionToken("company_invitation", body.token);
+    } catch {
+      res.status(400).json({ error: INVITATION_INVALID });
+      return;
+    }
+
+    const pending = {
+      nonce: payload.nonce,
+      status: "pending",
+      expiresAt: { $gt: new Date() },
+    };
+    const invitation = await CompanyInvitation.findOne(pending);
+    const company = invitation
+      ? await Company.findById(invitation.companyId)
+      : null;
+    if (!invitation || !company) {
+      res.status(400).json({ error: INVITATION_INVALID });
+      return;
+    }
+
+    // Both sides are stored lowercase (run migrate:lowercase-emails for
+    // accounts created before that), so the invitee's account always matches
+    const existing = await User.findOne({ email: invitation.email });
+    if (existing) {
+      if (!existing.isActive) {
+        res.status(403).json({ error: "Account is deactivated" });
+        return;
+      }
+      if (existing.userType !== "employer") {
+        res.status(409).json({
+          error: "This email belongs to a candidate account and cannot join a company",
+        });
+        return;
+      }
+      if (existing.companyId !== company._id) {
+        const blocked = await canLeaveCompany(existing);
+        if (blocked) {
+          res.status(409).json({ error: blocked });
+          return;
+        }
+      }
+    } else if (!body.password) {
+      res
+        .status(400)
+        .json({ error: "Choose a password to create your account" });
+      return;
+    }
+
+    // Single use — a concurrent accept of the same link loses here
+    const claimed = await CompanyInvitation.findOneAndUpdate(pending, {
+      status: "accepted",
+      acceptedAt: new Date(),
+    });
+    if (!claimed) {
+      res.status(400).json({ error: INVITATION_INVALID });
+      return;
+    }
+
+    if (existing) {
+      const before = {
+        companyId: existing.companyId ?? null,
+        roles: [...existing.roles],
+      };
+      if (existing.companyId !== company._id) {
+        await removeCompanyIfEmpty(existing);
+      }
+      existing.companyId = company._id;
+      existing.roles = withAccountRole(existing.roles, invitation.role);
+      if (!existing.emailVerified) {
+        existing.emailVerified = true;
+        existing.emailVerifiedAt = new Date();
+      }
+      await existing.save();
+      await CompanyInvitation.updateOne(
+        { _id: invitation._id },
+        { acceptedBy: existing._id },
+      );
+      syncSeatBilling(company._id).catch(console.error);
+      // Leaving another company frees a seat there
+      if (before.companyId && before.companyId !== company._id) {
+        syncSeatBilling(before.companyId).catch(console.error);
+      }
+      await recordAuditEvent(req, "auth.invitation_accepted", {
+        actor: { userId: existing._id, email: existing.email },
+        before,
+        after: { companyId: company._id, roles: existing.roles },
+        metadata: { invitationId: invitation._id },
+      });
+
+      res.json({
+        message: `You've joined ${company.name}`,
+        company: { id: company._id, name: company.name },
+      });
+      return;
+    }
+
+    const newId = crypto.randomUUID();
+    const user = await User.create({
+      _id: newId,
+      email: invitation.email,
+      password: await bcrypt.hash(body.password!, 12),
+      firstName: body.firstName,
+      lastName: body.lastName,
+      userType: "employer",
+      username: generateUsername(body.firstName, body.lastName, newId),
+      roles: [invitation.role],
+      companyId: company._id,
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
+      hasPurchasedVisibility: false,
+    });
+    await CompanyInvitation.updateOne(
+      { _id: invitation._id },
+      { acceptedBy: user._id },
+    );
+    syncSeatBilling(company._id).catch(console.error);
+    await recordAuditEvent(req, "auth.registered", {
+      actor: { userId: user._id, email: user.email },
+      after: { userType: "employer", roles: user.roles, companyId: company._id },
+      metadata: { method: "invitation", invitationId: invitation._id },
+    });
+
+    sendWelcomeEmail({
+      to: user.email,
+      firstName: user.firstName || "there",
+      userType: "vendor",
+    }).catch(console.error);
+
+    const subscription = await findSubscription(user);
+    res
+      .status(201)
+      .json(
+        await startSignIn(
+          req,
+          user,
+          subscription?.plan || "free",
+          "invitation",
+        ),
+      );
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
 // ─── Email/Password Login ─────────────────────────────────────────────────────
 
 export async function login(
@@ -217,22 +661,31 @@ export async function login(
 ): Promise<void> {
   try {
     const body = loginSchema.parse(req.body);
+    const { ip } = clientContext(req);
+
+    if (!(await checkSignInThrottle(res, body.email, ip))) return;
 
     const user = await User.findOne({ email: body.email });
     const subscription = user
-      ? await Subscription.findOne({ userId: user._id })
+      ? await findSubscription(user)
       : null;
 
     if (!user?.isActive) {
+      await recordFailedSignIn(
+        req,
+        body.email,
+        user ? "account_inactive" : "unknown_email",
+      );
       const err: AppError = new Error("Invalid email or password");
       err.statusCode = 401;
       return next(err);
     }
 
-    // Guard: Google OAuth users have no password
+    // Guard: OAuth-only users have no password
     if (!user.password) {
+      await recordFailedSignIn(req, body.email, "no_password");
       const err: AppError = new Error(
-        "This account uses Google sign-in. Please click 'Continue with Google' to log in.",
+        "This account uses Google, Microsoft or LinkedIn sign-in. Please continue with that provider to log in, or add a password from your account settings.",
       );
       err.statusCode = 401;
       return next(err);
@@ -240,44 +693,24 @@ export async function login(
 
     const passwordMatch = await bcrypt.compare(body.password, user.password);
     if (!passwordMatch) {
+      await recordFailedSignIn(req, body.email, "invalid_password");
       const err: AppError = new Error("Invalid email or password");
       err.statusCode = 401;
       return next(err);
     }
 
     const plan = subscription?.plan || "free";
-    const { access, refresh } = makeTokens(
-      {
-        id: user._id,
-        email: user.email,
-        userType: user.userType,
-        username: user.username,
-      },
-      plan,
-    );
-    // Revoke all existing refresh tokens on new login to limit exposure of stolen tokens
-    await RefreshToken.deleteMany({ userId: user._id });
-    await storeRefreshToken(user._id, refresh);
 
-    res.json({
-      user: userResponse(
-        {
-          id: user._id,
-          email: user.email,
-          firstName: user.firstName ?? null,
-          lastName: user.lastName ?? null,
-          userType: user.userType,
-          username: user.username,
-          membershipConfig: user.membershipConfig ?? null,
-          hasPurchasedVisibility: user.hasPurchasedVisibility,
-          createdAt: user.createdAt,
-          updatedAt: user.updatedAt,
-        },
-        plan,
-      ),
-      access,
-      refresh,
-    });
+    // Second step required — no tokens until /login/2fa succeeds. Failures
+    // are only cleared once that succeeds, so a known password does not
+    // reset the lockout counter for guessing codes.
+    if (user.twoFactorEnabled) {
+      res.json(await twoFactorRequired(user));
+      return;
+    }
+
+    await loginThrottle.recordSuccess(body.email);
+    res.json(await startSignIn(req, user, plan, "password"));
   } catch (err) {
     if (err instanceof z.ZodError) {
       res
@@ -289,114 +722,1017 @@ export async function login(
   }
 }
 
-// ─── Google OAuth ─────────────────────────────────────────────────────────────
-
 /**
- * GET /api/auth/google?userType=candidate|vendor
- * Initiates the Google OAuth flow. userType is threaded through state param.
+ * POST /api/auth/login/2fa
+ * Second login step for accounts with 2FA: exchanges the challenge from
+ * /login plus an authenticator or recovery code for the token pair.
  */
-export function googleAuth(
+export async function loginTwoFactor(
   req: Request,
   res: Response,
   next: NextFunction,
-): void {
-  if (!googleOAuthEnabled) {
-    res
-      .status(501)
-      .json({ error: "Google OAuth is not configured on this server." });
-    return;
+): Promise<void> {
+  try {
+    const body = loginTwoFactorSchema.parse(req.body);
+
+    let payload;
+    try {
+      payload = verifyActionToken("two_factor_challenge", body.challenge);
+    } catch {
+      res
+        .status(401)
+        .json({ error: "Sign-in challenge expired. Please log in again." });
+      return;
+    }
+
+    const user = await User.findById(payload.userId).select(
+      "+twoFactorChallengeNonce",
+    );
+    if (
+      !user?.isActive ||
+      !user.twoFactorEnabled ||
+      user.twoFactorChallengeNonce !== payload.nonce
+    ) {
+      res
+        .status(401)
+        .json({ error: "Sign-in challenge expired. Please log in again." });
+      return;
+    }
+
+    const { ip } = clientContext(req);
+    if (!(await checkSignInThrottle(res, user.email, ip))) return;
+
+    const method = await verifySecondFactor(user._id, body);
+    if (!method) {
+      await recordFailedSignIn(req, user.email, "invalid_second_factor");
+      res.status(401).json({ error: "Invalid authenticator or recovery code" });
+      return;
+    }
+
+    // Single use — a concurrent redemption of the same challenge loses here
+    const consumed = await User.updateOne(
+      { _id: user._id, twoFactorChallengeNonce: payload.nonce },
+      { $unset: { twoFactorChallengeNonce: 1 } },
+    );
+    if (consumed.modifiedCount !== 1) {
+      res
+        .status(401)
+        .json({ error: "Sign-in challenge expired. Please log in again." });
+      return;
+    }
+    await loginThrottle.recordSuccess(user.email);
+
+    const subscription = await findSubscription(user);
+    res.json(
+      await startSignIn(req, user, subscription?.plan || "free", "two_factor"),
+    );
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
   }
-  const qt = req.query.userType as string;
-  const userType = qt === "employer" ? "employer" : "candidate";
-  // State encodes userType so the callback can read it; nonce prevents CSRF
-  const nonce = crypto.randomUUID();
-  oauthNonces.set(nonce, Date.now());
-  const state = `${userType}:${nonce}`;
+}
 
-  passport.authenticate("google", {
-    scope: ["profile", "email"],
-    state,
-    session: false,
-  })(req, res, next);
+// ─── Passkeys (WebAuthn) ──────────────────────────────────────────────────────
+
+/**
+ * POST /api/auth/webauthn/login/options
+ * Request options for navigator.credentials.get(). Passkeys are discoverable,
+ * so no credentials are listed — the authenticator offers its own.
+ */
+export async function webauthnLoginOptions(
+  _req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const challenge = await issueChallenge("authentication");
+    res.json({
+      challenge,
+      rpId: env.WEBAUTHN_RP_ID,
+      timeout: CHALLENGE_TIMEOUT_MS,
+      userVerification: "required",
+      allowCredentials: [],
+    });
+  } catch (err) {
+    next(err);
+  }
 }
 
 /**
- * GET /api/auth/google/callback
- * Google redirects here after user approves. Issues JWT and redirects to frontend.
+ * POST /api/auth/webauthn/login/verify
+ * Signs in with a passkey assertion. The authenticator has verified the user
+ * (PIN or biometric), so this counts as both factors and skips the TOTP step.
  */
-export function googleCallback(
+export async function webauthnLogin(
   req: Request,
   res: Response,
   next: NextFunction,
-): void {
-  if (!googleOAuthEnabled) {
-    res.redirect(`${env.CLIENT_URL}/login?oauth_error=not_configured`);
-    return;
-  }
-  // Validate OAuth state nonce to prevent CSRF
-  const stateParam = req.query.state as string | undefined;
-  if (stateParam) {
-    const nonce = stateParam.split(":")[1];
-    const ts = nonce ? oauthNonces.get(nonce) : undefined;
-    if (!ts || Date.now() - ts > NONCE_TTL_MS) {
-      res.redirect(`${env.CLIENT_URL}/login?oauth_error=invalid_state`);
-      return;
-    }
-    oauthNonces.delete(nonce);
+): Promise<void> {
+  try {
+    const body = webauthnLoginSchema.parse(req.body);
+
+    const challenge = await consumeChallenge(
+      body.response.clientDataJSON,
+      "authentication",
+    );
+    if (!challenge) {
+      res.status(401).json({ error: "Passkey challenge expired. Try again." });
+      return;
+    }
+
+    const credential = await WebAuthnCredential.findOne({
+      credentialId: body.id,
+    });
+    if (!credential) {
+      res.status(401).json({ error: "Passkey not recognised" });
+      return;
+    }
+
+    const { signCount } = verifyAuthenticationResponse(
+      body.response,
+      credential,
+      challenge,
+      { id: env.WEBAUTHN_RP_ID, origins: env.WEBAUTHN_ORIGINS },
+    );
+    if (
+      body.response.userHandle &&
+      body.response.userHandle !==
+        Buffer.from(credential.userId).toString("base64url")
+    ) {
+      res.status(401).json({ error: "Passkey not recognised" });
+      return;
+    }
+
+    const user = await User.findById(credential.userId);
+    if (!user?.isActive) {
+      res.status(401).json({ error: "Account is deactivated" });
+      return;
+    }
+
+    credential.signCount = signCount;
+    credential.lastUsedAt = new Date();
+    await credential.save();
+
+    const subscription = await findSubscription(user);
+    res.json(
+      await startSignIn(req, user, subscription?.plan || "free", "passkey"),
+    );
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    if (err instanceof WebAuthnError) {
+      res.status(401).json({ error: `Passkey rejected: ${err.message}` });
+      return;
+    }
+    next(err);
+  }
+}
+
+// ─── Email Verification ───────────────────────────────────────────────────────
+
+/**
+ * POST /api/auth/verify-email
+ * Consumes a verification link token. Each link works once; requesting a new
+ * link invalidates older ones.
+ */
+export async function verifyEmail(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+
+    let payload;
+    try {
+      payload = verifyActionToken("email_verification", token);
+    } catch {
+      res
+        .status(400)
+        .json({ error: "Verification link is invalid or has expired" });
+      return;
+    }
+
+    const user = await User.findOneAndUpdate(
+      {
+        _id: payload.userId,
+        email: payload.email,
+        emailVerificationNonce: payload.nonce,
+      },
+      {
+        $set: { emailVerified: true, emailVerifiedAt: new Date() },
+        $unset: { emailVerificationNonce: 1 },
+      },
+      { new: true },
+    );
+
+    if (!user) {
+      const current = await User.findById(payload.userId);
+      if (current?.emailVerified && current.email === payload.email) {
+        res.json({ message: "Email already verified", email_verified: true });
+        return;
+      }
+      res
+        .status(400)
+        .json({ error: "Verification link is invalid or has expired" });
+      return;
+    }
+
+    await recordAuditEvent(req, "auth.email_verified", {
+      actor: { userId: user._id, email: user.email },
+      before: { emailVerified: false },
+      after: { emailVerified: true },
+    });
+    res.json({ message: "Email verified", email_verified: true });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/resend-verification
+ * Emails a new verification link to the authenticated user.
+ */
+export async function resendVerification(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = await User.findById(req.user!.userId);
+    if (!user?.isActive) {
+      res.status(401).json({ error: "User not found" });
+      return;
+    }
+    if (user.emailVerified) {
+      res.status(400).json({ error: "Email is already verified" });
+      return;
+    }
+
+    await sendVerificationLink(user);
+    res.json({ message: "Verification email sent" });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// ─── Password Reset ───────────────────────────────────────────────────────────
+
+const FORGOT_PASSWORD_MESSAGE =
+  "If an account exists for that email, a password reset link has been sent.";
+
+/**
+ * Creates a reset token for the given email (if it belongs to an active
+ * account) and mails the link. Any earlier unused tokens are discarded.
+ */
+async function issuePasswordReset(email: string): Promise<void> {
+  const user = await User.findOne({ email });
+  if (!user?.isActive) return;
+
+  await PasswordResetToken.deleteMany({ userId: user._id, usedAt: null });
+
+  const token = generateOpaqueToken();
+  await PasswordResetToken.create({
+    userId: user._id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + env.PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+  });
+
+  await sendPasswordResetEmail({
+    to: user.email,
+    firstName: user.firstName || "there",
+    resetUrl: `${env.CLIENT_URL}/reset-password?token=${encodeURIComponent(token)}`,
+    expiresInMinutes: env.PASSWORD_RESET_TTL_MINUTES,
+  });
+}
+
+/**
+ * POST /api/auth/forgot-password
+ * Always responds with the same message so the endpoint cannot be used to
+ * discover which emails are registered. The lookup runs in the background
+ * so response timing does not leak it either.
+ */
+export async function forgotPassword(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+    issuePasswordReset(email).catch(console.error);
+    res.json({ message: FORGOT_PASSWORD_MESSAGE });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
   }
+}
+
+/**
+ * POST /api/auth/reset-password
+ * Consumes a single-use reset token, sets the new password and signs the
+ * user out of every session.
+ */
+export async function resetPassword(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = resetPasswordSchema.parse(req.body);
+
+    // Atomically claim the token so it cannot be used twice
+    const resetToken = await PasswordResetToken.findOneAndUpdate(
+      {
+        tokenHash: hashToken(body.token),
+        usedAt: null,
+        expiresAt: { $gt: new Date() },
+      },
+      { usedAt: new Date() },
+      { new: true },
+    );
+    if (!resetToken) {
+      res.status(400).json({ error: "Reset link is invalid or has expired" });
+      return;
+    }
+
+    const user = await User.findById(resetToken.userId);
+    if (!user?.isActive) {
+      res.status(400).json({ error: "Reset link is invalid or has expired" });
+      return;
+    }
+
+    user.password = await bcrypt.hash(body.password, 12);
+    // Receiving the reset email proves ownership of the address
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+
+    const [revoked] = await Promise.all([
+      revokeAllSessions(user._id),
+      PasswordResetToken.deleteMany({ userId: user._id, usedAt: null }),
+    ]);
+    await recordAuditEvent(req, "auth.password_reset", {
+      actor: { userId: user._id, email: user.email },
+      metadata: { sessionsRevoked: revoked },
+    });
+
+    res.json({ message: "Password has been reset. Please log in again." });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+// ─── Magic-Link Sign-In (candidates) ──────────────────────────────────────────
+
+const MAGIC_LINK_MESSAGE =
+  "If a candidate account exists for that email, a sign-in link has been sent.";
+
+const magicLinkLimit = new SendRateLimit(
+  new MongoLoginAttemptStore(),
+  "magic-link",
+  env.MAGIC_LINK_MAX_PER_HOUR,
+  60 * 60 * 1000,
+);
+
+/**
+ * Creates a sign-in link for the email if it belongs to an active candidate
+ * and mails it. Any earlier unused links are discarded.
+ */
+async function issueMagicLink(email: string): Promise<void> {
+  const user = await User.findOne({ email });
+  if (!user?.isActive || user.userType !== "candidate") return;
+
+  await MagicLinkToken.deleteMany({ userId: user._id, usedAt: null });
+
+  const token = generateOpaqueToken();
+  await MagicLinkToken.create({
+    userId: user._id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + env.MAGIC_LINK_TTL_MINUTES * 60 * 1000),
+  });
+
+  await sendMagicLinkEmail({
+    to: user.email,
+    firstName: user.firstName || "there",
+    signInUrl: `${env.CLIENT_URL}/magic-link?token=${encodeURIComponent(token)}`,
+    expiresInMinutes: env.MAGIC_LINK_TTL_MINUTES,
+  });
+}
+
+/**
+ * POST /api/auth/magic-link
+ * Emails a passwordless sign-in link to a candidate. Like forgot-password it
+ * answers the same way for unknown addresses; the per-address limit applies
+ * to every address, so a 429 reveals nothing either.
+ */
+export async function requestMagicLink(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { email } = magicLinkSchema.parse(req.body);
+
+    const retryAfter = await magicLinkLimit.consume(email);
+    if (retryAfter > 0) {
+      res.set("Retry-After", String(retryAfter));
+      res.status(429).json({
+        error: "Too many sign-in links requested. Please try again later.",
+        retry_after: retryAfter,
+      });
+      return;
+    }
+
+    issueMagicLink(email).catch(console.error);
+    res.json({ message: MAGIC_LINK_MESSAGE });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/magic-link/consume
+ * Exchanges a single-use sign-in link for the usual user + token pair.
+ */
+export async function consumeMagicLink(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = magicLinkConsumeSchema.parse(req.body);
+
+    // Atomically claim the token so it cannot be used twice
+    const link = await MagicLinkToken.findOneAndUpdate(
+      {
+        tokenHash: hashToken(body.token),
+        usedAt: null,
+        expiresAt: { $gt: new Date() },
+      },
+      { usedAt: new Date() },
+      { new: true },
+    );
+    const user = link ? await User.findById(link.userId) : null;
+    if (!user?.isActive || user.userType !== "candidate") {
+      res.status(400).json({ error: "Sign-in link is invalid or has expired" });
+      return;
+    }
+
+    // Receiving the link proves ownership of the address
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+    }
+
+    if (user.twoFactorEnabled) {
+      res.json(await twoFactorRequired(user));
+      return;
+    }
+    const subscription = await findSubscription(user);
+    res.json(
+      await startSignIn(req, user, subscription?.plan || "free", "magic_link"),
+    );
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+// ─── Change / Set Password ────────────────────────────────────────────────────
+
+/**
+ * PUT /api/auth/password
+ * Password accounts must supply `currentPassword`. OAuth-only accounts (no
+ * password yet) may set one, but only from a recent interactive sign-in.
+ * Every existing session is revoked and a fresh token pair is returned for
+ * the caller.
+ */
+export async function changePassword(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = changePasswordSchema.parse(req.body);
+
+    const user = await User.findById(req.user!.userId);
+    if (!user?.isActive) {
+      res.status(401).json({ error: "User not found" });
+      return;
+    }
+
+    const action = user.password ? "changed" : "set";
+    if (user.password) {
+      const matches = body.currentPassword
+        ? await bcrypt.compare(body.currentPassword, user.password)
+        : false;
+      if (!matches) {
+        res.status(401).json({ error: "Current password is incorrect" });
+        return;
+      }
+    } else if (!recentlyAuthenticated(req)) {
+      res.status(401).json({
+        error: "Please sign in again before setting a password",
+        code: "reauth_required",
+      });
+      return;
+    }
+
+    user.password = await bcrypt.hash(body.newPassword, 12);
+    await user.save();
+
+    const revoked = await revokeAllSessions(user._id);
+
+    // Replace the caller's session with a fresh one, keeping its sign-in time
+    const subscription = await findSubscription(user);
+    const { access, refresh, session } = makeTokens(
+      {
+        id: user._id,
+        email: user.email,
+        userType: user.userType,
+        username: user.username,
+        roles: user.roles,
+        companyId: user.companyId,
+      },
+      subscription?.plan || "free",
+      { ...startSession(), authTime: req.user!.authTime ?? 0 },
+    );
+    await storeRefreshToken(user._id, refresh, session, clientContext(req));
+    await recordAuditEvent(req, "auth.password_changed", {
+      before: { hasPassword: action === "changed" },
+      after: { hasPassword: true },
+      metadata: { sessionsRevoked: revoked, sessionId: session.sessionId },
+    });
+
+    sendPasswordChangedEmail({
+      to: user.email,
+      firstName: user.firstName || "there",
+      action,
+    }).catch(console.error);
+
+    res.json({ message: `Password ${action} successfully`, access, refresh });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+// ─── OAuth (Google, Microsoft, LinkedIn …) ───────────────────────────────────
+
+/**
+ * Resolves :provider, answering 404 for unsupported names and 501 for
+ * supported ones that are not configured on this server.
+ */
+function oauthProviderFor(
+  req: Request,
+  res: Response,
+): OAuthProviderConfig | null {
+  const name = req.params.provider;
+  const provider = getOAuthProvider(name);
+  if (provider) return provider;
+  if (isKnownOAuthProvider(name)) {
+    res
+      .status(501)
+      .json({ error: `${name} sign-in is not configured on this server.` });
+  } else {
+    res.status(404).json({ error: "Unknown sign-in provider" });
+  }
+  return null;
+}
+
+/** Frontend URL reporting the outcome of an account-settings link flow. */
+function linkResultUrl(
+  redirectPath: string,
+  result: { linked: string } | { error: string },
+): string {
+  const url = clientRedirectUrl(redirectPath);
+  if ("linked" in result) url.searchParams.set("identity_linked", result.linked);
+  else url.searchParams.set("identity_link_error", result.error);
+  return url.toString();
+}
+
+/**
+ * GET /api/auth/:provider?userType=candidate|employer&redirect=/path
+ * Initiates the OAuth flow. userType and the post-login redirect are
+ * kept server-side against the state param (see oauth-state.service).
+ * With `link_ticket` (from POST /api/user/identities) the flow links the
+ * provider to that user instead of signing in.
+ */
+export async function oauthAuthorize(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  const provider = oauthProviderFor(req, res);
+  if (!provider) return;
+  try {
+    const redirectPath = sanitizeRedirectPath(req.query.redirect);
+
+    // Link flow: the ticket from POST /api/user/identities names the user
+    let linkUserId: string | undefined;
+    if (typeof req.query.link_ticket === "string") {
+      let payload;
+      try {
+        payload = verifyActionToken("identity_link", req.query.link_ticket);
+      } catch {
+        payload = null;
+      }
+      // Consume the nonce so the ticket cannot be replayed from history
+      const consumed = payload
+        ? await User.updateOne(
+            { _id: payload.userId, identityLinkNonce: payload.nonce },
+            { $unset: { identityLinkNonce: 1 } },
+          )
+        : null;
+      if (!payload || consumed?.modifiedCount !== 1) {
+        res.redirect(linkResultUrl(redirectPath, { error: "link_expired" }));
+        return;
+      }
+      linkUserId = payload.userId;
+    }
+
+    const qt = req.query.userType as string;
+    const state = await oauthStates.begin(res, {
+      provider: provider.name,
+      userType: qt === "employer" ? "employer" : "candidate",
+      redirectPath,
+      linkUserId,
+    });
+
+    passport.authenticate(provider.name, {
+      state,
+      session: false,
+    })(req, res, next);
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * GET /api/auth/:provider/callback
+ * The provider redirects here after the user approves. Redirects to the
+ * frontend with a one-time code for POST /api/auth/oauth/exchange.
+ */
+export async function oauthCallback(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  const name = req.params.provider;
+  const provider = getOAuthProvider(name);
+  if (!provider) {
+    const reason = isKnownOAuthProvider(name) ? "not_configured" : "unknown_provider";
+    res.redirect(`${env.CLIENT_URL}/login?oauth_error=${reason}`);
+    return;
+  }
+  // Validate state (CSRF + browser binding); the strategy reads userType from it
+  let oauthState: OAuthStateRecord | null;
+  try {
+    oauthState = await oauthStates.complete(req, res, provider.name);
+  } catch (err) {
+    console.error(`[OAuth:${provider.name}] State lookup error:`, err);
+    oauthState = null;
+  }
+  if (!oauthState) {
+    res.redirect(`${env.CLIENT_URL}/login?oauth_error=invalid_state`);
+    return;
+  }
+  req.oauthState = oauthState;
+
   passport.authenticate(
-    "google",
+    provider.name,
     { session: false },
     async (
       err: Error | null,
-      user: {
-        id: string;
-        email: string;
-        userType: string;
-        username?: string | null;
-        firstName: string | null;
-        lastName: string | null;
-        membershipConfig: string | null;
-        hasPurchasedVisibility: boolean;
-        subscription?: { plan?: string } | null;
-        createdAt?: Date;
-        updatedAt?: Date;
-      },
+      user:
+        | {
+            _id: string;
+            email: string;
+            firstName?: string | null;
+            twoFactorEnabled?: boolean;
+          }
+        | false,
+      info?: { linkTicket?: string },
     ) => {
+      if (oauthState.linkUserId) {
+        if (err || !user) {
+          const msg = err?.message || `${provider.label} authentication failed`;
+          return res.redirect(
+            linkResultUrl(oauthState.redirectPath, { error: msg }),
+          );
+        }
+        sendIdentityLinkedEmail({
+          to: user.email,
+          firstName: user.firstName || "there",
+          provider: provider.label,
+        }).catch(console.error);
+        recordAuditEvent(req, "auth.identity_linked", {
+          actor: { userId: user._id, email: user.email },
+          metadata: { provider: provider.name, confirmedBy: "session" },
+        }).catch(console.error);
+        return res.redirect(
+          linkResultUrl(oauthState.redirectPath, { linked: provider.name }),
+        );
+      }
+
+      // Email belongs to an existing account — its owner must confirm first
+      if (!err && !user && info?.linkTicket) {
+        const params = new URLSearchParams({
+          ticket: info.linkTicket,
+          provider: provider.name,
+          next: oauthState.redirectPath,
+        });
+        return res.redirect(`${env.CLIENT_URL}/link-account?${params.toString()}`);
+      }
+
       if (err || !user) {
-        const msg = err?.message || "Google authentication failed";
-        console.error("[Google OAuth] Error:", msg);
+        const msg = err?.message || `${provider.label} authentication failed`;
+        console.error(`[OAuth:${provider.name}] Error:`, msg);
         return res.redirect(
           `${env.CLIENT_URL}/login?oauth_error=${encodeURIComponent(msg)}`,
         );
       }
 
-      try {
-        const plan = user.subscription?.plan || "free";
-        const { access, refresh } = makeTokens(user, plan);
-        await storeRefreshToken(user.id, refresh);
+      try {
+        // Tokens never travel in the URL — the frontend swaps this one-time
+        // code (plus the state) for them via POST /api/auth/oauth/exchange.
+        // 2FA accounts get their sign-in challenge from that exchange too.
+        const code = await oauthStates.issueCode(user._id, oauthState);
+        const params = new URLSearchParams({
+          code,
+          state: oauthState.state,
+          next: oauthState.redirectPath,
+        });
+
+        res.redirect(`${env.CLIENT_URL}/oauth-callback?${params.toString()}`);
+      } catch (tokenErr) {
+        console.error(`[OAuth:${provider.name}] Token issuance error:`, tokenErr);
+        res.redirect(`${env.CLIENT_URL}/login?oauth_error=token_error`);
+      }
+    },
+  )(req, res, next);
+}
+
+/**
+ * POST /api/auth/oauth/exchange
+ * Exchanges the one-time code from the /oauth-callback redirect for the
+ * usual user + access/refresh response — or, for 2FA accounts, the
+ * challenge to finish at /login/2fa. Codes live 60 seconds, work once, and
+ * only together with the state of the flow that produced them.
+ */
+export async function oauthExchange(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = oauthExchangeSchema.parse(req.body);
+
+    const userId = await oauthStates.redeemCode(body.code, body.state);
+    const user = userId ? await User.findById(userId) : null;
+    if (!user?.isActive) {
+      res.status(400).json({ error: "Sign-in code is invalid or has expired" });
+      return;
+    }
+
+    if (user.twoFactorEnabled) {
+      res.json(await twoFactorRequired(user));
+      return;
+    }
+
+    const subscription = await findSubscription(user);
+    res.json(
+      await startSignIn(req, user, subscription?.plan || "free", "oauth"),
+    );
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/oauth/link/email
+ * Emails the account owner a one-time link confirming a pending link
+ * request — the option for accounts without a password.
+ */
+export async function sendOAuthLinkEmail(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { ticket } = oauthLinkEmailSchema.parse(req.body);
+
+    const request = await findLinkRequest(ticket);
+    const user = request ? await User.findById(request.userId) : null;
+    if (!request || !user?.isActive) {
+      res
+        .status(400)
+        .json({ error: "Link request is invalid or has expired" });
+      return;
+    }
+
+    const token = await issueLinkEmailToken(request);
+    await sendIdentityLinkEmail({
+      to: user.email,
+      firstName: user.firstName || "there",
+      provider: oauthProviderLabel(request.provider),
+      confirmUrl: `${env.CLIENT_URL}/link-account/confirm?token=${encodeURIComponent(token)}`,
+      expiresInMinutes: LINK_REQUEST_TTL_MINUTES,
+    });
+
+    res.json({ message: "Confirmation email sent" });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
 
-        const userData = userResponse(user, plan);
+/**
+ * POST /api/auth/oauth/link/confirm
+ * Confirms a pending link with the account password ({ ticket, password })
+ * or the emailed token ({ token }), links the identity and signs in — or
+ * returns a 2FA challenge, exactly like /login.
+ */
+export async function confirmOAuthLink(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = oauthLinkConfirmSchema.parse(req.body);
 
-        // Redirect to frontend OAuth callback page with tokens in query params.
-        // The frontend reads and stores these in Redux + localStorage.
-        const params = new URLSearchParams({
-          token: access,
-          refresh,
-          user: JSON.stringify(userData),
+    let linked;
+    if ("password" in body) {
+      const request = await findLinkRequest(body.ticket);
+      const owner = request ? await User.findById(request.userId) : null;
+      if (!owner?.isActive) {
+        res
+          .status(400)
+          .json({ error: "Link request is invalid or has expired" });
+        return;
+      }
+      if (!owner.password) {
+        res.status(400).json({
+          error: "This account has no password. Confirm by email instead.",
         });
+        return;
+      }
 
-        res.redirect(`${env.CLIENT_URL}/oauth-callback?${params.toString()}`);
-      } catch (tokenErr) {
-        console.error("[Google OAuth] Token issuance error:", tokenErr);
-        res.redirect(`${env.CLIENT_URL}/login?oauth_error=token_error`);
+      const { ip } = clientContext(req);
+      if (!(await checkSignInThrottle(res, owner.email, ip))) return;
+      if (!(await bcrypt.compare(body.password, owner.password))) {
+        await recordFailedSignIn(req, owner.email, "invalid_password");
+        res.status(401).json({ error: "Incorrect password" });
+        return;
       }
-    },
-  )(req, res, next);
+
+      linked = await completeLinkRequest({ ticket: body.ticket });
+    } else {
+      linked = await completeLinkRequest({ emailToken: body.token });
+    }
+
+    if (!linked) {
+      res.status(400).json({ error: "Link request is invalid or has expired" });
+      return;
+    }
+    const { user, provider } = linked;
+    await recordAuditEvent(req, "auth.identity_linked", {
+      actor: { userId: user._id, email: user.email },
+      metadata: {
+        provider,
+        confirmedBy: "password" in body ? "password" : "email",
+      },
+    });
+
+    sendIdentityLinkedEmail({
+      to: user.email,
+      firstName: user.firstName || "there",
+      provider: oauthProviderLabel(provider),
+    }).catch(console.error);
+
+    // Like /login, failures are cleared only once the sign-in completes
+    if (user.twoFactorEnabled) {
+      res.json(await twoFactorRequired(user));
+      return;
+    }
+    if ("password" in body) await loginThrottle.recordSuccess(user.email);
+    const subscription = await findSubscription(user);
+    res.json(
+      await startSignIn(req, user, subscription?.plan || "free", "oauth"),
+    );
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
 }
 
 // ─── Token Refresh ────────────────────────────────────────────────────────────
 
+/**
+ * A refresh token that was already rotated has been presented again, so
+ * either the client or an attacker holds a stale copy. We can't tell which,
+ * so the whole session family is revoked and the user is alerted.
+ */
+async function handleRefreshTokenReuse(
+  stored: IRefreshToken,
+  req: Request,
+): Promise<void> {
+  const client = clientContext(req);
+  const revoked = stored.familyId
+    ? await revokeSession(stored.userId, stored.familyId)
+    : await revokeAllSessions(stored.userId);
+
+  console.warn("[Security] Refresh token reuse detected", {
+    userId: stored.userId,
+    sessionId: stored.familyId,
+    tokenId: stored._id,
+    ip: client.ip,
+    userAgent: client.userAgent,
+    revoked,
+  });
+  await recordAuditEvent(req, "auth.refresh_token_reused", {
+    actor: null,
+    targetUserId: stored.userId,
+    metadata: {
+      sessionId: stored.familyId ?? null,
+      tokenId: stored.tokenId,
+      sessionsRevoked: revoked,
+    },
+  });
+
+  // Only alert the first time — later replays find the family already revoked
+  if (!env.REFRESH_REUSE_ALERT_EMAIL || revoked === 0) return;
+  const user = await User.findById(stored.userId);
+  if (!user) return;
+  sendSuspiciousSessionEmail({
+    to: user.email,
+    firstName: user.firstName || "there",
+    device: describeDevice(stored.userAgent),
+    ip: client.ip,
+  }).catch(console.error);
+}
+
 export async function refreshToken(
   req: Request,
   res: Response,
@@ -411,19 +1747,32 @@ export async function refreshToken(
 
     const payload = verifyRefreshToken(refresh);
 
-    const stored = await RefreshToken.findOne({ token: refresh });
+    const stored = await findStoredRefreshToken(refresh);
+    if (stored?.rotatedAt) {
+      await handleRefreshTokenReuse(stored, req);
+      res.status(401).json({ error: "Refresh token invalid or expired" });
+      return;
+    }
     if (!stored || stored.revoked || stored.expiresAt < new Date()) {
       res.status(401).json({ error: "Refresh token invalid or expired" });
       return;
     }
 
-    // Revoke old token (rotation)
-    stored.revoked = true;
-    await stored.save();
+    // Revoke old token (rotation). The claim is atomic so two concurrent
+    // refreshes with the same token cannot both succeed.
+    const claimed = await RefreshToken.updateOne(
+      { _id: stored._id, revoked: false },
+      { revoked: true, rotatedAt: new Date() },
+    );
+    if (claimed.modifiedCount === 0) {
+      await handleRefreshTokenReuse(stored, req);
+      res.status(401).json({ error: "Refresh token invalid or expired" });
+      return;
+    }
 
     const user = await User.findById(payload.userId);
     const subscription = user
-      ? await Subscription.findOne({ userId: user._id })
+      ? await findSubscription(user)
       : null;
 
     if (!user?.isActive) {
@@ -432,18 +1781,39 @@ export async function refreshToken(
     }
 
     const plan = subscription?.plan || "free";
-    const newAccess = signAccessToken({
-      userId: user._id,
-      email: user.email,
-      userType: user.userType,
+    // Rotation stays in the same session family and keeps the original
+    // sign-in time. Tokens minted before sessions existed start a family now.
+    const { access: newAccess, refresh: newRefresh, session } = makeTokens(
+      {
+        id: user._id,
+        email: user.email,
+        userType: user.userType,
+        username: user.username,
+        roles: user.roles,
+        companyId: user.companyId,
+      },
       plan,
-      username: user.username || "",
-    });
-    const newRefresh = signRefreshToken({
-      userId: user._id,
-      tokenId: crypto.randomUUID(),
+      {
+        sessionId:
+          stored.familyId || payload.sessionId || crypto.randomUUID(),
+        authTime:
+          payload.authTime ?? Math.floor(stored.createdAt.getTime() / 1000),
+      },
+    );
+    await storeRefreshToken(
+      user._id,
+      newRefresh,
+      session,
+      clientContext(req),
+      stored.startedAt ?? stored.createdAt,
+    );
+    await recordAuditEvent(req, "auth.token_refreshed", {
+      actor: { userId: user._id, email: user.email },
+      metadata: {
+        sessionId: session.sessionId,
+        previousTokenId: stored.tokenId,
+      },
     });
-    await storeRefreshToken(user._id, newRefresh);
 
     res.json({ access: newAccess, refresh: newRefresh });
   } catch {
@@ -461,7 +1831,7 @@ export async function verify(
   try {
     const user = await User.findById(req.user!.userId);
     const subscription = user
-      ? await Subscription.findOne({ userId: user._id })
+      ? await findSubscription(user)
       : null;
 
     if (!user?.isActive) {
@@ -479,6 +1849,10 @@ export async function verify(
           lastName: user.lastName ?? null,
           userType: user.userType,
           username: user.username,
+          roles: user.roles,
+          companyId: user.companyId,
+          emailVerified: user.emailVerified,
+          twoFactorEnabled: user.twoFactorEnabled,
           membershipConfig: user.membershipConfig ?? null,
           hasPurchasedVisibility: user.hasPurchasedVisibility,
           createdAt: user.createdAt,
@@ -499,36 +1873,347 @@ export async function logout(
 ): Promise<void> {
   try {
     const { refresh } = req.body as { refresh?: string };
-    if (refresh) {
-      await RefreshToken.updateMany(
-        { token: refresh, revoked: false },
+    const found = refresh ? await findStoredRefreshToken(refresh) : null;
+    const stored = found?.userId === req.user!.userId ? found : null;
+    if (stored?.familyId) {
+      await revokeSession(stored.userId, stored.familyId);
+    } else if (stored) {
+      stored.revoked = true;
+      await stored.save();
+    }
+    await recordAuditEvent(req, "auth.signed_out", {
+      metadata: { sessionId: stored?.familyId ?? req.user!.sessionId ?? null },
+    });
+    res.json({ message: "Logged out successfully" });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// ─── Sessions ─────────────────────────────────────────────────────────────────
+
+/**
+ * GET /api/auth/sessions
+ * Lists the user's signed-in devices. Each session is the live (unrevoked)
+ * refresh token of a rotation family.
+ */
+export async function listSessions(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const tokens = await RefreshToken.find({
+      userId: req.user!.userId,
+      revoked: false,
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1, createdAt: -1 });
+
+    const sessions = tokens.map((t) => ({
+      id: t.familyId || t._id,
+      device: describeDevice(t.userAgent),
+      user_agent: t.userAgent ?? null,
+      ip: t.ip ?? null,
+      created_at: (t.startedAt ?? t.createdAt).toISOString(),
+      last_used_at: (t.lastUsedAt ?? t.createdAt).toISOString(),
+      expires_at: t.expiresAt.toISOString(),
+      current: !!t.familyId && t.familyId === req.user!.sessionId,
+    }));
+
+    res.json({ sessions });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Signs out one device. The id is the session id from GET /sessions.
+ */
+export async function revokeSessionById(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    let revoked = await revokeSession(userId, id);
+    if (revoked === 0) {
+      // Tokens issued before session families existed are listed by _id
+      const legacy = await RefreshToken.updateOne(
+        { _id: id, userId, familyId: null, revoked: false },
         { revoked: true },
       );
+      revoked = legacy.modifiedCount;
     }
-    res.json({ message: "Logged out successfully" });
+
+    if (revoked === 0) {
+      res.status(404).json({ error: "Session not found" });
+      return;
+    }
+    await recordAuditEvent(req, "auth.session_revoked", {
+      metadata: { sessionId: id },
+    });
+    res.json({ message: "Session revoked" });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * DELETE /api/auth/sessions
+ * Signs out every device except the one making the request. Access tokens
+ * minted before session ids existed carry none, so every session is revoked.
+ */
+export async function revokeOtherSessions(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const revoked = await revokeAllSessions(
+      req.user!.userId,
+      req.user!.sessionId,
+    );
+    await recordAuditEvent(req, "auth.other_sessions_revoked", {
+      metadata: { keptSessionId: req.user!.sessionId ?? null, revoked },
+    });
+    res.json({ message: "Signed out of all other sessions", revoked });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// ─── Admin ────────────────────────────────────────────────────────────────────
+
+/**
+ * POST /api/auth/unlock
+ * Clears a sign-in lockout for an account (and optionally an IP address).
+ */
+export async function unlockAccount(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = unlockSchema.parse(req.body);
+    await loginThrottle.unlock(body.email, body.ip);
+    console.log(
+      `[Security] Sign-in lockout cleared for ${body.email} by ${req.user!.email}`,
+    );
+    const target = await User.findOne({ email: body.email }).select("_id");
+    await recordAuditEvent(req, "admin.signin_unlocked", {
+      targetUserId: target?._id ?? null,
+      metadata: { email: body.email, ip: body.ip ?? null },
+    });
+    res.json({ message: "Account unlocked" });
   } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
     next(err);
   }
 }
 
+/**
+ * DELETE /api/auth/account
+ * Schedules the account for deletion after ACCOUNT_DELETION_GRACE_DAYS and
+ * signs it out everywhere. Needs the current password, or a sign-in within
+ * REAUTH_MAX_AGE_MINUTES (e.g. for accounts without a password).
+ */
 export async function deleteAccount(
   req: Request,
   res: Response,
   next: NextFunction,
 ): Promise<void> {
   try {
-    const userId = req.user!.userId;
+    const body = deleteAccountSchema.parse(req.body ?? {});
 
-    // Delete user and related data
-    await Promise.all([
-      RefreshToken.deleteMany({ userId }),
-      Subscription.deleteMany({ userId }),
-      CandidatePayment.deleteMany({ userId }),
-    ]);
-    await User.deleteOne({ _id: userId });
+    const user = await User.findById(req.user!.userId);
+    if (!user?.isActive) {
+      res.status(401).json({ error: "User not found" });
+      return;
+    }
+
+    if (body.password) {
+      const matches = user.password
+        ? await bcrypt.compare(body.password, user.password)
+        : false;
+      if (!matches) {
+        res.status(401).json({ error: "Password is incorrect" });
+        return;
+      }
+    } else if (!recentlyAuthenticated(req)) {
+      res.status(401).json({
+        error: "Please confirm your password or sign in again to delete your account",
+        code: "reauth_required",
+      });
+      return;
+    }
+
+    const deletionScheduledAt = await scheduleAccountDeletion(user);
+    await recordAuditEvent(req, "auth.account_deletion_scheduled", {
+      after: { isActive: false, deletionScheduledAt },
+    });
+    sendRestoreLink(user._id).catch(console.error);
+
+    res.json({
+      message: `Your account will be permanently deleted in ${env.ACCOUNT_DELETION_GRACE_DAYS} days. Use the link we emailed you to restore it before then.`,
+      deletion_scheduled_at: deletionScheduledAt.toISOString(),
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+const RESTORE_LINK_MESSAGE =
+  "If that account is scheduled for deletion, a restore link has been sent.";
+const RESTORE_INVALID = "Restore link is invalid or has expired";
+
+const restoreLinkLimit = new SendRateLimit(
+  new MongoLoginAttemptStore(),
+  "account-restore",
+  env.MAGIC_LINK_MAX_PER_HOUR,
+  60 * 60 * 1000,
+);
+
+/**
+ * Mails the deletion notice with a restore link, valid until the account is
+ * purged. The link is tied to this scheduled deletion, so it stops working
+ * once the account is restored.
+ */
+async function sendRestoreLink(userId: string): Promise<void> {
+  const user = await User.findOne({
+    _id: userId,
+    isActive: false,
+    deletionScheduledAt: { $gt: new Date() },
+  });
+  if (!user?.deletionScheduledAt) return;
+
+  const seconds = Math.floor(
+    (user.deletionScheduledAt.getTime() - Date.now()) / 1000,
+  );
+  const token = signActionToken(
+    "account_restore",
+    {
+      userId: user._id,
+      email: user.email,
+      nonce: String(user.deletionScheduledAt.getTime()),
+    },
+    `${seconds}s`,
+  );
+  await sendAccountDeletionScheduledEmail({
+    to: user.email,
+    firstName: user.firstName || "there",
+    deletionDate: user.deletionScheduledAt,
+    restoreUrl: `${env.CLIENT_URL}/restore-account?token=${encodeURIComponent(token)}`,
+  });
+}
+
+/**
+ * POST /api/auth/account/restore-link
+ * Re-sends the restore link for an account awaiting deletion. Answers the
+ * same way for every address, like forgot-password.
+ */
+export async function requestRestoreLink(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { email } = restoreLinkSchema.parse(req.body);
+
+    const retryAfter = await restoreLinkLimit.consume(email);
+    if (retryAfter > 0) {
+      res.set("Retry-After", String(retryAfter));
+      res.status(429).json({
+        error: "Too many restore links requested. Please try again later.",
+        retry_after: retryAfter,
+      });
+      return;
+    }
+
+    User.findOne({ email })
+      .select("_id")
+      .then((user) => user && sendRestoreLink(user._id))
+      .catch(console.error);
+    res.json({ message: RESTORE_LINK_MESSAGE });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/account/restore
+ * Cancels a scheduled deletion using the emailed link. The user then signs
+ * in as usual.
+ */
+export async function restoreDeletedAccount(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = restoreAccountSchema.parse(req.body);
+
+    let payload;
+    try {
+      payload = verifyActionToken("account_restore", body.token);
+    } catch {
+      res.status(400).json({ error: RESTORE_INVALID });
+      return;
+    }
+
+    const user = await User.findOne({
+      _id: payload.userId,
+      isActive: false,
+      deletionScheduledAt: { $gt: new Date() },
+    });
+    if (
+      !user?.deletionScheduledAt ||
+      String(user.deletionScheduledAt.getTime()) !== payload.nonce
+    ) {
+      res.status(400).json({ error: RESTORE_INVALID });
+      return;
+    }
+
+    const deletionScheduledAt = user.deletionScheduledAt;
+    await restoreAccount(user);
+    await recordAuditEvent(req, "auth.account_restored", {
+      actor: { userId: user._id, email: user.email },
+      before: { isActive: false, deletionScheduledAt },
+      after: { isActive: true, deletionScheduledAt: null },
+    });
+    sendAccountRestoredEmail({
+      to: user.email,
+      firstName: user.firstName || "there",
+    }).catch(console.error);
 
-    res.json({ message: "Account deleted permanently" });
+    res.json({ message: "Your account has been restored. You can sign in again." });
   } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
     next(err);
   }
 }
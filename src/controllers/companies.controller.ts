@@ -0,0 +1,148 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { Company, ICompany, Subscription, User } from "../models";
+import { permissionsFor, rolesFor } from "../config/roles";
+import { createCompany, syncSeatBilling } from "../services/company.service";
+import { revokeAllSessions } from "../services/session.service";
+import { recordAuditEvent } from "../services/audit.service";
+
+const updateCompanySchema = z.object({
+  name: z.string().trim().min(1, "Company name is required").max(120),
+  website: z.string().trim().url("Website must be a valid URL").nullish(),
+  phone: z.string().trim().max(40).nullish(),
+  address: z.string().trim().max(300).nullish(),
+});
+
+async function companyResponse(company: ICompany) {
+  const [memberCount, subscription] = await Promise.all([
+    User.countDocuments({ companyId: company._id }),
+    Subscription.findOne({ companyId: company._id }),
+  ]);
+  return {
+    id: company._id,
+    name: company.name,
+    website: company.website ?? null,
+    phone: company.phone ?? null,
+    address: company.address ?? null,
+    owner_id: company.ownerId,
+    member_count: memberCount,
+    plan: subscription?.plan || "free",
+    created_at: company.createdAt.toISOString(),
+    updated_at: company.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * GET /api/companies/:id
+ * Company details for its admins.
+ */
+export async function getCompany(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const company = await Company.findById(req.params.id);
+    if (!company) {
+      res.status(404).json({ error: "Company not found" });
+      return;
+    }
+    res.json({ company: await companyResponse(company) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * PUT /api/companies/:id
+ * Replaces the editable company details. Omitted optional fields are cleared.
+ */
+export async function updateCompany(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = updateCompanySchema.parse(req.body);
+    const company = await Company.findByIdAndUpdate(
+      req.params.id,
+      {
+        name: body.name,
+        website: body.website || null,
+        phone: body.phone || null,
+        address: body.address || null,
+      },
+      { new: true, runValidators: true },
+    );
+    if (!company) {
+      res.status(404).json({ error: "Company not found" });
+      return;
+    }
+    res.json({ company: await companyResponse(company) });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * DELETE /api/companies/:id/members/:userId
+ * Removes an employee from the company. They keep their account, on a new
+ * company of their own, and are signed out everywhere. The owner cannot be
+ * removed, and only holders of company:manage may remove an admin.
+ */
+export async function removeMember(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const companyId = req.params.id;
+    const [company, actor, member] = await Promise.all([
+      Company.findById(companyId),
+      User.findById(req.user!.userId).select("userType roles"),
+      User.findOne({ _id: req.params.userId, companyId }),
+    ]);
+    if (!company || !actor || !member) {
+      res.status(404).json({ error: "Member not found" });
+      return;
+    }
+    if (member._id === actor._id) {
+      res.status(409).json({ error: "You cannot remove yourself" });
+      return;
+    }
+    if (member._id === company.ownerId) {
+      res.status(409).json({ error: "The company owner cannot be removed" });
+      return;
+    }
+    if (
+      rolesFor(member).includes("admin") &&
+      !permissionsFor(rolesFor(actor)).includes("company:manage")
+    ) {
+      res
+        .status(403)
+        .json({ error: "Only company admins can remove another admin" });
+      return;
+    }
+
+    const before = { companyId, roles: [...member.roles] };
+    await createCompany(member);
+    await revokeAllSessions(member._id);
+    await recordAuditEvent(req, "company.member_removed", {
+      targetUserId: member._id,
+      before,
+      after: { companyId: member.companyId, roles: member.roles },
+    });
+    // The company loses a member — stop billing the seat
+    syncSeatBilling(companyId).catch(console.error);
+
+    res.json({ message: "Member removed" });
+  } catch (err) {
+    next(err);
+  }
+}
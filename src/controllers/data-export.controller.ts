@@ -0,0 +1,186 @@
+import { Request, Response, NextFunction } from "express";
+import { DataExport, IDataExport } from "../models";
+import { env } from "../config/env";
+import {
+  signActionToken,
+  verifyActionToken,
+} from "../services/jwt.service";
+import {
+  buildDataExport,
+  EXPORT_STALE_MINUTES,
+} from "../services/data-export.service";
+import { recordAuditEvent } from "../services/audit.service";
+
+const DOWNLOAD_INVALID = "Download link is invalid or has expired";
+
+function isStale(job: IDataExport): boolean {
+  return (
+    job.status === "pending" &&
+    job.createdAt.getTime() < Date.now() - EXPORT_STALE_MINUTES * 60 * 1000
+  );
+}
+
+/**
+ * Status body for an export. Ready exports get a fresh download link valid
+ * for DATA_EXPORT_LINK_TTL_MINUTES (capped by the archive's own expiry).
+ */
+function exportResponse(
+  job: IDataExport,
+  user: { userId: string; email: string },
+) {
+  const status = isStale(job) ? "failed" : job.status;
+  let download: { url: string; expiresAt: Date } | null = null;
+  if (status === "ready") {
+    const expiresAt = new Date(
+      Math.min(
+        Date.now() + env.DATA_EXPORT_LINK_TTL_MINUTES * 60 * 1000,
+        job.expiresAt.getTime(),
+      ),
+    );
+    const seconds = Math.max(
+      1,
+      Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+    );
+    const token = signActionToken(
+      "data_export",
+      { userId: user.userId, email: user.email, nonce: job._id },
+      `${seconds}s`,
+    );
+    download = {
+      url: `/api/user/export/${job._id}/download?token=${encodeURIComponent(token)}`,
+      expiresAt,
+    };
+  }
+
+  return {
+    id: job._id,
+    status,
+    error:
+      status === "failed"
+        ? (job.error ?? "The export was interrupted. Please request a new one.")
+        : null,
+    size_bytes: job.sizeBytes ?? null,
+    created_at: job.createdAt.toISOString(),
+    completed_at: job.completedAt?.toISOString() ?? null,
+    expires_at: status === "ready" ? job.expiresAt.toISOString() : null,
+    download_url: download?.url ?? null,
+    download_expires_at: download?.expiresAt.toISOString() ?? null,
+  };
+}
+
+/**
+ * POST /api/user/export
+ * Starts building an archive of the user's data (202). While one is still
+ * being built, that export is returned instead of starting another.
+ */
+export async function requestDataExport(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const inProgress = await DataExport.findOne({
+      userId,
+      status: "pending",
+      createdAt: {
+        $gt: new Date(Date.now() - EXPORT_STALE_MINUTES * 60 * 1000),
+      },
+    });
+    if (inProgress) {
+      res.status(202).json({ export: exportResponse(inProgress, req.user!) });
+      return;
+    }
+
+    const job = await DataExport.create({
+      userId,
+      expiresAt: new Date(
+        Date.now() + env.DATA_EXPORT_TTL_HOURS * 60 * 60 * 1000,
+      ),
+    });
+    buildDataExport(job._id).catch(console.error);
+
+    await recordAuditEvent(req, "privacy.export_requested", {
+      metadata: { exportId: job._id },
+    });
+    res.status(202).json({ export: exportResponse(job, req.user!) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * GET /api/user/export/:id
+ * Poll until `status` is ready, then follow `download_url`. Calling again
+ * mints a new link while the archive is kept (DATA_EXPORT_TTL_HOURS).
+ */
+export async function getDataExport(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const job = await DataExport.findOne({
+      _id: req.params.id,
+      userId: req.user!.userId,
+    });
+    if (!job) {
+      res.status(404).json({ error: "Export not found" });
+      return;
+    }
+    res.json({ export: exportResponse(job, req.user!) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * GET /api/user/export/:id/download?token=
+ * Sends the ZIP. The signed token stands in for the bearer header so the
+ * link works as a plain browser download.
+ */
+export async function downloadDataExport(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    let payload;
+    try {
+      payload = verifyActionToken("data_export", String(req.query.token ?? ""));
+    } catch {
+      res.status(401).json({ error: DOWNLOAD_INVALID });
+      return;
+    }
+    if (payload.nonce !== req.params.id) {
+      res.status(401).json({ error: DOWNLOAD_INVALID });
+      return;
+    }
+
+    const job = await DataExport.findOne({
+      _id: req.params.id,
+      userId: payload.userId,
+      status: "ready",
+      expiresAt: { $gt: new Date() },
+    }).select("+archive");
+    if (!job?.archive) {
+      res.status(404).json({ error: DOWNLOAD_INVALID });
+      return;
+    }
+
+    await recordAuditEvent(req, "privacy.export_downloaded", {
+      actor: { userId: payload.userId, email: payload.email },
+      metadata: { exportId: job._id },
+    });
+
+    const day = (job.completedAt ?? job.createdAt).toISOString().slice(0, 10);
+    res.set({
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="matchingdb-export-${day}.zip"`,
+      "Cache-Control": "no-store",
+    });
+    res.send(job.archive);
+  } catch (err) {
+    next(err);
+  }
+}
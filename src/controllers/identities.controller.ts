@@ -0,0 +1,169 @@
+import { Request, Response, NextFunction } from "express";
+import crypto from "node:crypto";
+import { z } from "zod";
+import { User, UserIdentity } from "../models";
+import {
+  getOAuthProvider,
+  oauthProviderLabel,
+  oauthProviders,
+} from "../config/oauth-providers";
+import { signActionToken } from "../services/jwt.service";
+import { clientRedirectUrl } from "../services/oauth-state.service";
+import { countLoginMethods } from "../services/oauth-identity.service";
+import { recordAuditEvent } from "../services/audit.service";
+import { sendIdentityUnlinkedEmail } from "../services/sendgrid.service";
+
+// The browser must reach /api/auth/:provider within this time
+const LINK_TICKET_EXPIRES = "5m";
+
+const linkSchema = z.object({
+  provider: z.string().min(1, "Provider is required"),
+  redirect: z.string().optional(),
+});
+
+/**
+ * GET /api/user/identities
+ * Lists the external sign-in identities linked to the account, whether a
+ * password is set, and which providers this server can link.
+ */
+export async function listIdentities(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const [user, identities] = await Promise.all([
+      User.findById(userId).select("password"),
+      UserIdentity.find({ userId }).sort({ createdAt: 1 }),
+    ]);
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    res.json({
+      identities: identities.map((i) => ({
+        id: i._id,
+        provider: i.provider,
+        provider_label: oauthProviderLabel(i.provider),
+        email: i.email ?? null,
+        linked_at: i.createdAt.toISOString(),
+        last_used_at: i.lastUsedAt?.toISOString() ?? null,
+      })),
+      has_password: !!user.password,
+      available_providers: [...oauthProviders.values()].map((p) => ({
+        provider: p.name,
+        label: p.label,
+      })),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/user/identities
+ * Starts linking a provider. Returns the URL the browser should navigate to;
+ * it carries a short-lived ticket naming this user, so the OAuth round trip
+ * links instead of signing in. The outcome comes back on `redirect` as
+ * ?identity_linked=<provider> or ?identity_link_error=<message>.
+ */
+export async function startIdentityLink(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = linkSchema.parse(req.body);
+    const provider = getOAuthProvider(body.provider);
+    if (!provider) {
+      res.status(400).json({ error: "Unsupported or unconfigured provider" });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    if (await UserIdentity.exists({ userId, provider: provider.name })) {
+      res.status(409).json({
+        error: `A ${provider.label} account is already linked. Remove it before linking another.`,
+      });
+      return;
+    }
+
+    // The nonce makes the ticket single-use; a new one voids older tickets
+    const nonce = crypto.randomUUID();
+    await User.updateOne({ _id: userId }, { identityLinkNonce: nonce });
+    const ticket = signActionToken(
+      "identity_link",
+      { userId, email: req.user!.email, nonce },
+      LINK_TICKET_EXPIRES,
+    );
+
+    // Same origin the provider calls back to, so the state-binding cookie
+    // set by /api/auth/:provider is sent with the callback
+    const url = new URL(`/api/auth/${provider.name}`, provider.callbackUrl);
+    // Validated against CLIENT_URL here as well as in the callback
+    const redirect = clientRedirectUrl(body.redirect ?? "/settings");
+    url.searchParams.set("link_ticket", ticket);
+    url.searchParams.set(
+      "redirect",
+      redirect.pathname + redirect.search + redirect.hash,
+    );
+
+    res.json({ authorization_url: url.toString() });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * DELETE /api/user/identities/:id
+ * Unlinks a provider and alerts the account's email address. Refused when
+ * it is the account's last way to sign in.
+ */
+export async function unlinkIdentity(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const [user, identity] = await Promise.all([
+      User.findById(userId).select("password email firstName"),
+      UserIdentity.findOne({ _id: req.params.id, userId }),
+    ]);
+    if (!user || !identity) {
+      res.status(404).json({ error: "Linked account not found" });
+      return;
+    }
+
+    if ((await countLoginMethods(user)) <= 1) {
+      res.status(409).json({
+        error:
+          "This is your only way to sign in. Add a password or link another provider first.",
+      });
+      return;
+    }
+
+    await UserIdentity.deleteOne({ _id: identity._id });
+    await recordAuditEvent(req, "auth.identity_unlinked", {
+      metadata: { provider: identity.provider },
+    });
+    sendIdentityUnlinkedEmail({
+      to: user.email,
+      firstName: user.firstName || "there",
+      provider: oauthProviderLabel(identity.provider),
+    }).catch(console.error);
+    res.json({
+      message: `${oauthProviderLabel(identity.provider)} sign-in removed`,
+    });
+  } catch (err) {
+    next(err);
+  }
+}
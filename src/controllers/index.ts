@@ -1,2 +1,12 @@
 export * from "./auth.controller";
 export * from "./payments.controller";
+export * from "./two-factor.controller";
+export * from "./identities.controller";
+export * from "./webauthn.controller";
+export * from "./companies.controller";
+export * from "./invitations.controller";
+export * from "./admin.controller";
+export * from "./activity.controller";
+export * from "./data-export.controller";
+export * from "./profile.controller";
+export * from "./users.controller";
@@ -0,0 +1,288 @@
+import { Request, Response, NextFunction } from "express";
+import crypto from "node:crypto";
+import { HydratedDocument } from "mongoose";
+import { z } from "zod";
+import {
+  Company,
+  CompanyInvitation,
+  ICompanyInvitation,
+  User,
+} from "../models";
+import { env } from "../config/env";
+import {
+  EMPLOYER_ROLES,
+  Role,
+  isRole,
+  roleLabel,
+  permissionsFor,
+  rolesFor,
+} from "../config/roles";
+import { signActionToken } from "../services/jwt.service";
+import { sendCompanyInvitationEmail } from "../services/sendgrid.service";
+import { seatUsage, SeatUsage } from "../services/company.service";
+import { recordAuditEvent } from "../services/audit.service";
+
+const createInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.string().refine(
+    (r): r is Role => isRole(r) && EMPLOYER_ROLES.includes(r),
+    { message: `Role must be one of: ${EMPLOYER_ROLES.join(", ")}` },
+  ),
+});
+
+function invitationResponse(invitation: ICompanyInvitation) {
+  return {
+    id: invitation._id,
+    email: invitation.email,
+    role: invitation.role,
+    status: invitation.status,
+    invited_by: invitation.invitedBy,
+    expires_at: invitation.expiresAt.toISOString(),
+    expired:
+      invitation.status === "pending" && invitation.expiresAt <= new Date(),
+    created_at: invitation.createdAt.toISOString(),
+  };
+}
+
+function seatsResponse(seats: SeatUsage) {
+  return {
+    members: seats.members,
+    pending_invitations: seats.pendingInvitations,
+    used: seats.used,
+    included: seats.included,
+    extra: seats.extra,
+    limit: seats.limit,
+  };
+}
+
+function seatLimitReached(res: Response, seats: SeatUsage): void {
+  res.status(409).json({
+    error: `Your plan allows ${seats.limit} seats and all are taken (pending invitations count). Upgrade or revoke an invitation first.`,
+    code: "seat_limit_reached",
+    seats: seatsResponse(seats),
+  });
+}
+
+/**
+ * Rotates the invitation's nonce (voiding any earlier link), restarts its
+ * expiry and emails the new link.
+ */
+async function sendInvitationLink(
+  invitation: HydratedDocument<ICompanyInvitation>,
+  inviter: { userId: string; email: string },
+): Promise<void> {
+  invitation.nonce = crypto.randomUUID();
+  invitation.expiresAt = new Date(
+    Date.now() + env.INVITATION_TTL_HOURS * 60 * 60 * 1000,
+  );
+  await invitation.save();
+
+  const token = signActionToken(
+    "company_invitation",
+    { userId: inviter.userId, email: invitation.email, nonce: invitation.nonce },
+    `${env.INVITATION_TTL_HOURS}h`,
+  );
+
+  const [company, sender] = await Promise.all([
+    Company.findById(invitation.companyId).select("name"),
+    User.findById(inviter.userId).select("firstName lastName"),
+  ]);
+  const inviterName =
+    [sender?.firstName, sender?.lastName].filter(Boolean).join(" ") ||
+    inviter.email;
+
+  sendCompanyInvitationEmail({
+    to: invitation.email,
+    companyName: company?.name ?? "your team",
+    inviterName,
+    role: roleLabel(invitation.role as Role),
+    acceptUrl: `${env.CLIENT_URL}/accept-invitation?token=${encodeURIComponent(token)}`,
+    expiresInHours: env.INVITATION_TTL_HOURS,
+  }).catch(console.error);
+}
+
+/**
+ * POST /api/companies/:id/invitations
+ * Invites someone to the company with a role. Only holders of
+ * company:manage may invite another admin.
+ */
+export async function createInvitation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = createInvitationSchema.parse(req.body);
+    const companyId = req.params.id;
+
+    if (body.role === "admin") {
+      // Stored roles, not the token's — a demoted admin loses this at once
+      const inviter = await User.findById(req.user!.userId).select(
+        "userType roles",
+      );
+      if (
+        !inviter ||
+        !permissionsFor(rolesFor(inviter)).includes("company:manage")
+      ) {
+        res
+          .status(403)
+          .json({ error: "Only company admins can invite another admin" });
+        return;
+      }
+    }
+
+    const existing = await User.findOne({ email: body.email }).select(
+      "userType companyId",
+    );
+    if (existing?.companyId === companyId) {
+      res.status(409).json({ error: "This person is already on your team" });
+      return;
+    }
+    if (existing && existing.userType !== "employer") {
+      res.status(409).json({
+        error: "This email belongs to a candidate account and cannot join a company",
+      });
+      return;
+    }
+
+    const outstanding = await CompanyInvitation.exists({
+      companyId,
+      email: body.email,
+      status: "pending",
+      expiresAt: { $gt: new Date() },
+    });
+    if (outstanding) {
+      res.status(409).json({
+        error: "This email already has a pending invitation. Resend it instead.",
+      });
+      return;
+    }
+
+    const seats = await seatUsage(companyId);
+    if (seats.used >= seats.limit) {
+      seatLimitReached(res, seats);
+      return;
+    }
+
+    const invitation = new CompanyInvitation({
+      companyId,
+      email: body.email,
+      role: body.role,
+      invitedBy: req.user!.userId,
+    });
+    await sendInvitationLink(invitation, req.user!);
+    await recordAuditEvent(req, "company.invitation_created", {
+      after: { email: invitation.email, role: invitation.role },
+      metadata: { companyId, invitationId: invitation._id },
+    });
+
+    res.status(201).json({ invitation: invitationResponse(invitation) });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * GET /api/companies/:id/invitations
+ * Pending invitations (expired ones are flagged) and current seat usage.
+ */
+export async function listInvitations(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const companyId = req.params.id;
+    const [invitations, seats] = await Promise.all([
+      CompanyInvitation.find({ companyId, status: "pending" }).sort({
+        createdAt: -1,
+      }),
+      seatUsage(companyId),
+    ]);
+    res.json({
+      invitations: invitations.map(invitationResponse),
+      seats: seatsResponse(seats),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * DELETE /api/companies/:id/invitations/:invitationId
+ * Revokes a pending invitation; its link stops working and the seat is freed.
+ */
+export async function revokeInvitation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const invitation = await CompanyInvitation.findOneAndUpdate(
+      {
+        _id: req.params.invitationId,
+        companyId: req.params.id,
+        status: "pending",
+      },
+      { status: "revoked" },
+      { new: true },
+    );
+    if (!invitation) {
+      res.status(404).json({ error: "Invitation not found" });
+      return;
+    }
+    await recordAuditEvent(req, "company.invitation_revoked", {
+      before: { email: invitation.email, role: invitation.role },
+      metadata: { companyId: invitation.companyId, invitationId: invitation._id },
+    });
+    res.json({ message: "Invitation revoked" });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/companies/:id/invitations/:invitationId/resend
+ * Emails a fresh link valid for another INVITATION_TTL_HOURS. Earlier links
+ * stop working. An expired invitation needs a free seat to be revived.
+ */
+export async function resendInvitation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const companyId = req.params.id;
+    const invitation = await CompanyInvitation.findOne({
+      _id: req.params.invitationId,
+      companyId,
+      status: "pending",
+    });
+    if (!invitation) {
+      res.status(404).json({ error: "Invitation not found" });
+      return;
+    }
+
+    if (invitation.expiresAt <= new Date()) {
+      const seats = await seatUsage(companyId);
+      if (seats.used >= seats.limit) {
+        seatLimitReached(res, seats);
+        return;
+      }
+    }
+
+    await sendInvitationLink(invitation, req.user!);
+    await recordAuditEvent(req, "company.invitation_resent", {
+      metadata: { companyId, invitationId: invitation._id },
+    });
+    res.json({ invitation: invitationResponse(invitation) });
+  } catch (err) {
+    next(err);
+  }
+}
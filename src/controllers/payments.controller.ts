@@ -1,10 +1,17 @@
 import { Request, Response, NextFunction } from "express";
 import Stripe from "stripe";
-import { User, Subscription, CandidatePayment } from "../models";
+import {
+  User,
+  Subscription,
+  ISubscription,
+  CandidatePayment,
+  Company,
+} from "../models";
 import {
   stripe,
   VENDOR_PLAN_DEFINITIONS,
   MARKETER_PLAN,
+  EXTRA_SEAT,
   CANDIDATE_PACKAGES,
   CandidatePackageId,
   createOrGetStripeCustomer,
@@ -13,6 +20,12 @@ import {
   createCustomerPortalSession,
 } from "../services/stripe.service";
 import { sendSubscriptionActivatedEmail } from "../services/sendgrid.service";
+import {
+  findSubscription,
+  subscriptionFilter,
+  seatUsage,
+} from "../services/company.service";
+import { AuditAction, recordAuditEvent } from "../services/audit.service";
 import { env } from "../config/env";
 
 // Define plan and status types locally
@@ -98,10 +111,32 @@ function processPayment(
   }
 }
 
+/** Name for the Stripe customer — the company for employers. */
+async function billingName(user: {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  companyId?: string | null;
+}): Promise<string> {
+  const company = user.companyId
+    ? await Company.findById(user.companyId).select("name")
+    : null;
+  return (
+    company?.name ||
+    `${user.firstName || ""} ${user.lastName || ""}`.trim() ||
+    user.email
+  );
+}
+
 // ─── Plans / Packages ─────────────────────────────────────────────────────────
 
 export function getPlans(_req: Request, res: Response): void {
-  res.json({ plans: VENDOR_PLAN_DEFINITIONS });
+  res.json({
+    plans: VENDOR_PLAN_DEFINITIONS,
+    extra_seat: EXTRA_SEAT.stripePriceId
+      ? { price: EXTRA_SEAT.price, interval: EXTRA_SEAT.interval }
+      : null,
+  });
 }
 
 export function getCandidatePackages(_req: Request, res: Response): void {
@@ -116,8 +151,22 @@ export async function getSubscription(
   next: NextFunction,
 ): Promise<void> {
   try {
-    const sub = await Subscription.findOne({ userId: req.user!.userId });
-    res.json({ subscription: sub ?? { plan: "free", status: "active" } });
+    const user = await User.findById(req.user!.userId).select("companyId");
+    const sub = user ? await findSubscription(user) : null;
+    // Employers see their company's seats: members, pending invitations,
+    // seats included in the plan and extra seats billed on top
+    const seats = user?.companyId ? await seatUsage(user.companyId) : null;
+    res.json({
+      subscription: sub ?? { plan: "free", status: "active" },
+      seats: seats && {
+        members: seats.members,
+        pending_invitations: seats.pendingInvitations,
+        used: seats.used,
+        included: seats.included,
+        extra: seats.extra,
+        limit: seats.limit,
+      },
+    });
   } catch (err) {
     next(err);
   }
@@ -141,7 +190,7 @@ export async function createCheckout(
 
     const user = await User.findById(req.user!.userId);
     const subscription = user
-      ? await Subscription.findOne({ userId: user._id })
+      ? await findSubscription(user)
       : null;
     if (!user) {
       res.status(404).json({ error: "User not found" });
@@ -160,21 +209,33 @@ export async function createCheckout(
       stripeCustomerId = await createOrGetStripeCustomer(
         user._id,
         user.email,
-        `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email,
+        await billingName(user),
+        user.companyId,
       );
       await Subscription.findOneAndUpdate(
-        { userId: user._id },
-        { userId: user._id, stripeCustomerId, plan: "free", status: "active" },
+        subscriptionFilter(user),
+        {
+          ...subscriptionFilter(user),
+          stripeCustomerId,
+          plan: "free",
+          status: "active",
+        },
         { upsert: true, new: true },
       );
     }
 
+    // Teams already larger than the plan's included seats pay for the rest
+    const members = user.companyId
+      ? (await seatUsage(user.companyId)).members
+      : 1;
+
     const url = await createCheckoutSession({
       stripeCustomerId,
       stripePriceId: plan.stripePriceId,
       successUrl: `${env.CLIENT_URL}/?success=true`,
       cancelUrl: `${env.CLIENT_URL}/?canceled=true`,
       userId: user._id,
+      extraSeats: Math.max(0, members - plan.includedSeats),
     });
 
     res.json({ url });
@@ -244,7 +305,7 @@ export async function createCandidateCheckout(
 
     const user = await User.findById(req.user!.userId);
     const subscription = user
-      ? await Subscription.findOne({ userId: user._id })
+      ? await findSubscription(user)
       : null;
     if (!user) {
       res.status(404).json({ error: "User not found" });
@@ -266,8 +327,13 @@ export async function createCandidateCheckout(
         `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email,
       );
       await Subscription.findOneAndUpdate(
-        { userId: user._id },
-        { userId: user._id, stripeCustomerId, plan: "free", status: "active" },
+        subscriptionFilter(user),
+        {
+          ...subscriptionFilter(user),
+          stripeCustomerId,
+          plan: "free",
+          status: "active",
+        },
         { upsert: true, new: true },
       );
     }
@@ -314,7 +380,7 @@ export async function createMarketerCheckout(
 
     const user = await User.findById(req.user!.userId);
     const subscription = user
-      ? await Subscription.findOne({ userId: user._id })
+      ? await findSubscription(user)
       : null;
     if (!user) {
       res.status(404).json({ error: "User not found" });
@@ -330,12 +396,13 @@ export async function createMarketerCheckout(
       stripeCustomerId = await createOrGetStripeCustomer(
         user._id,
         user.email,
-        `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email,
+        await billingName(user),
+        user.companyId,
       );
       await Subscription.findOneAndUpdate(
-        { userId: user._id },
+        subscriptionFilter(user),
         {
-          userId: user._id,
+          ...subscriptionFilter(user),
           stripeCustomerId,
           plan: "free",
           status: "inactive",
@@ -366,7 +433,8 @@ export async function createPortal(
   next: NextFunction,
 ): Promise<void> {
   try {
-    const sub = await Subscription.findOne({ userId: req.user!.userId });
+    const user = await User.findById(req.user!.userId).select("companyId");
+    const sub = user ? await findSubscription(user) : null;
     if (!sub?.stripeCustomerId) {
       res
         .status(400)
@@ -430,10 +498,59 @@ export async function stripeWebhook(
 
 // ─── Webhook event handlers ───────────────────────────────────────────────────
 
+function billingSnapshot(sub: ISubscription) {
+  return {
+    plan: sub.plan,
+    status: sub.status,
+    currentPeriodEnd: sub.currentPeriodEnd?.toISOString() ?? null,
+    extraSeats: sub.extraSeats,
+  };
+}
+
+/**
+ * Records a webhook-driven change to each of the customer's subscriptions
+ * that actually changed, against the candidate or the company owner.
+ */
+async function auditSubscriptionChanges(
+  event: Stripe.Event,
+  action: AuditAction,
+  customerId: string,
+  before: ISubscription[],
+): Promise<void> {
+  const after = await Subscription.find({ stripeCustomerId: customerId });
+  for (const sub of after) {
+    const previous = before.find((b) => b._id === sub._id);
+    const from = previous ? billingSnapshot(previous) : null;
+    const to = billingSnapshot(sub);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    const company = sub.companyId
+      ? await Company.findById(sub.companyId).select("ownerId")
+      : null;
+    await recordAuditEvent(null, action, {
+      actor: null,
+      targetUserId: sub.userId ?? company?.ownerId ?? null,
+      before: from,
+      after: to,
+      metadata: {
+        subscriptionId: sub._id,
+        companyId: sub.companyId ?? null,
+        stripeEventId: event.id,
+      },
+    });
+  }
+}
+
 async function handleSubscriptionUpsert(event: Stripe.Event): Promise<void> {
   const sub = event.data.object as Stripe.Subscription;
   const customerId = sub.customer as string;
-  const priceId = sub.items.data[0]?.price.id || "";
+  // Vendor subscriptions may carry a second item for extra seats
+  const isSeatItem = (item: Stripe.SubscriptionItem) =>
+    !!EXTRA_SEAT.stripePriceId && item.price.id === EXTRA_SEAT.stripePriceId;
+  const planItem =
+    sub.items.data.find((item) => !isSeatItem(item)) ?? sub.items.data[0];
+  const seatItem = sub.items.data.find(isSeatItem);
+  const priceId = planItem?.price.id || "";
 
   let plan: string;
   if (priceId && priceId === MARKETER_PLAN.stripePriceId) {
@@ -447,6 +564,7 @@ async function handleSubscriptionUpsert(event: Stripe.Event): Promise<void> {
 
   const status = sub.status as SubStatus;
   const currentPeriodEnd = new Date(sub.current_period_end * 1000);
+  const before = await Subscription.find({ stripeCustomerId: customerId });
 
   const updatedSub = await Subscription.updateMany(
     { stripeCustomerId: customerId },
@@ -456,9 +574,21 @@ async function handleSubscriptionUpsert(event: Stripe.Event): Promise<void> {
       stripeSubId: sub.id,
       stripePriceId: priceId,
       currentPeriodEnd,
+      // Stripe's seat quantity is taken as-is — pushing our own count back
+      // here would undo changes made in the billing portal. Seats are only
+      // pushed to Stripe when members join or leave (syncSeatBilling).
+      extraSeats: seatItem?.quantity ?? 0,
+      stripeSeatItemId: seatItem?.id ?? null,
     },
   );
 
+  await auditSubscriptionChanges(
+    event,
+    "billing.subscription_updated",
+    customerId,
+    before,
+  );
+
   if (
     updatedSub.modifiedCount > 0 &&
     event.type === "customer.subscription.created"
@@ -475,7 +605,11 @@ async function sendActivationEmail(
   const dbSub = await Subscription.findOne({ stripeCustomerId: customerId });
   if (!dbSub) return;
 
-  const user = await User.findById(dbSub.userId);
+  // Company subscriptions notify the company owner
+  const company = dbSub.companyId
+    ? await Company.findById(dbSub.companyId)
+    : null;
+  const user = await User.findById(company?.ownerId ?? dbSub.userId);
   if (!user) return;
 
   sendSubscriptionActivatedEmail({
@@ -488,16 +622,26 @@ async function sendActivationEmail(
 
 async function handleSubscriptionDeleted(event: Stripe.Event): Promise<void> {
   const sub = event.data.object as Stripe.Subscription;
+  const customerId = sub.customer as string;
+  const before = await Subscription.find({ stripeCustomerId: customerId });
   await Subscription.updateMany(
-    { stripeCustomerId: sub.customer as string },
+    { stripeCustomerId: customerId },
     {
       plan: "free",
       status: "canceled",
       stripeSubId: null,
       stripePriceId: null,
       currentPeriodEnd: null,
+      extraSeats: 0,
+      stripeSeatItemId: null,
     },
   );
+  await auditSubscriptionChanges(
+    event,
+    "billing.subscription_canceled",
+    customerId,
+    before,
+  );
 }
 
 async function handleCheckoutCompleted(event: Stripe.Event): Promise<void> {
@@ -568,13 +712,31 @@ async function handleCheckoutCompleted(event: Stripe.Event): Promise<void> {
     }>,
   );
 
-  await User.updateOne(
-    { _id: userId },
-    {
-      membershipConfig: JSON.stringify(newConfig),
-      hasPurchasedVisibility: true,
+  const previous = await User.findByIdAndUpdate(userId, {
+    membershipConfig: JSON.stringify(newConfig),
+    hasPurchasedVisibility: true,
+  }).select("membershipConfig");
+
+  let previousConfig: Record<string, string[]> | null = null;
+  try {
+    previousConfig = previous?.membershipConfig
+      ? JSON.parse(previous.membershipConfig)
+      : null;
+  } catch {
+    /* ignore malformed JSON */
+  }
+  await recordAuditEvent(null, "billing.visibility_updated", {
+    actor: null,
+    targetUserId: userId,
+    before: previousConfig,
+    after: newConfig,
+    metadata: {
+      stripeSessionId: session.id,
+      packageType: packageId,
+      amountCents: session.amount_total || 0,
+      stripeEventId: event.id,
     },
-  );
+  });
 
   console.log(
     `[Stripe Webhook] Candidate visibility updated for user ${userId}:`,
@@ -1,10 +1,17 @@
 import { Request, Response } from "express";
-import { User } from "../models/User";
+import { IUserPreferences, User } from "../models/User";
+import { recordAuditEvent } from "../services/audit.service";
 
 const ALLOWED_THEME_MODES = ["legacy", "classic", "modern"] as const;
 const ALLOWED_COLOR_SCHEMES = ["light", "dark", "auto"] as const;
 const ALLOWED_TEXT_SIZES = ["small", "medium", "large"] as const;
 
+function preferencesSnapshot(prefs: IUserPreferences | undefined) {
+  if (!prefs) return null;
+  const { themeMode, colorScheme, textSize } = prefs;
+  return { themeMode, colorScheme, textSize };
+}
+
 /**
  * GET /api/user/preferences
  * Returns the authenticated user's appearance preferences.
@@ -62,6 +69,7 @@ export async function updatePreferences(
     return;
   }
 
+  const previous = await User.findById(req.user!.userId).select("preferences");
   const user = await User.findByIdAndUpdate(
     req.user!.userId,
     { $set: update },
@@ -73,5 +81,9 @@ export async function updatePreferences(
     return;
   }
 
+  await recordAuditEvent(req, "preferences.updated", {
+    before: preferencesSnapshot(previous?.preferences),
+    after: preferencesSnapshot(user.preferences),
+  });
   res.json(user.preferences);
 }
@@ -0,0 +1,402 @@
+import crypto from "node:crypto";
+import { Request, Response, NextFunction } from "express";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import { User, IUser } from "../models";
+import { env } from "../config/env";
+import { signActionToken, verifyActionToken } from "../services/jwt.service";
+import {
+  sendEmailChangeVerificationEmail,
+  sendEmailChangedEmail,
+} from "../services/sendgrid.service";
+import {
+  makeTokens,
+  recentlyAuthenticated,
+  startSession,
+  clientContext,
+  storeRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+} from "../services/session.service";
+import {
+  loginThrottle,
+  checkSignInThrottle,
+  recordFailedSignIn,
+} from "../services/login-throttle.service";
+import { planFor } from "../services/company.service";
+import {
+  usernameStatus,
+  suggestUsernames,
+  USERNAME_PATTERN,
+  USERNAME_MIN_LENGTH,
+  USERNAME_MAX_LENGTH,
+} from "../services/username.service";
+import { recordAuditEvent } from "../services/audit.service";
+
+const name = z.string().trim().min(1, "Name cannot be empty").max(100);
+
+const updateProfileSchema = z
+  .object({
+    firstName: name.optional(),
+    lastName: name.optional(),
+    username: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .min(
+        USERNAME_MIN_LENGTH,
+        `Username must be at least ${USERNAME_MIN_LENGTH} characters`,
+      )
+      .max(
+        USERNAME_MAX_LENGTH,
+        `Username must be at most ${USERNAME_MAX_LENGTH} characters`,
+      )
+      .regex(
+        USERNAME_PATTERN,
+        "Username may only contain letters, numbers and single hyphens",
+      )
+      .optional(),
+  })
+  .strict()
+  .refine((body) => Object.keys(body).length > 0, "No fields to update");
+
+const emailChangeSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  // Optional after a recent sign-in (REAUTH_MAX_AGE_MINUTES)
+  password: z.string().optional(),
+});
+
+const confirmEmailChangeSchema = z.object({
+  token: z.string().min(1),
+});
+
+const EMAIL_CHANGE_INVALID = "Confirmation link is invalid or has expired";
+
+type ProfileFields = Pick<IUser, "firstName" | "lastName" | "username">;
+
+function profileResponse(user: IUser) {
+  return {
+    id: user._id,
+    email: user.email,
+    pending_email: user.pendingEmail ?? null,
+    email_verified: user.emailVerified,
+    username: user.username || "",
+    first_name: user.firstName || "",
+    last_name: user.lastName || "",
+    user_type: user.userType,
+    created_at: user.createdAt.toISOString(),
+    updated_at: user.updatedAt.toISOString(),
+  };
+}
+
+/** The fields of `next` that differ from `current`, for audit before/after. */
+function changedFields(current: ProfileFields, next: ProfileFields) {
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  for (const key of ["firstName", "lastName", "username"] as const) {
+    if (next[key] !== undefined && next[key] !== current[key]) {
+      before[key] = current[key] ?? null;
+      after[key] = next[key];
+    }
+  }
+  return { before, after };
+}
+
+function isDuplicateKey(err: unknown): boolean {
+  return (err as { code?: number })?.code === 11000;
+}
+
+/**
+ * GET /api/user/profile
+ * The signed-in user's name, username and email (plus any address still
+ * awaiting confirmation).
+ */
+export async function getProfile(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+    res.json({ profile: profileResponse(user) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * PATCH /api/user/profile
+ * Updates first/last name and username. A taken or reserved username
+ * answers 409 with free `suggestions`. Changing the username replaces the
+ * caller's session so the new access token carries it.
+ */
+export async function updateProfile(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = updateProfileSchema.parse(req.body);
+
+    const user = await User.findById(req.user!.userId);
+    if (!user?.isActive) {
+      res.status(401).json({ error: "User not found" });
+      return;
+    }
+
+    const { before, after } = changedFields(user, body);
+    if (Object.keys(after).length === 0) {
+      res.json({ profile: profileResponse(user) });
+      return;
+    }
+
+    const usernameUnavailable = async (reason: "reserved" | "taken") =>
+      res.status(409).json({
+        error:
+          reason === "reserved"
+            ? "That username is reserved"
+            : "Username is already taken",
+        suggestions: await suggestUsernames(body.username!, {
+          firstName: body.firstName ?? user.firstName,
+          lastName: body.lastName ?? user.lastName,
+        }),
+      });
+    if (after.username !== undefined) {
+      const status = await usernameStatus(body.username!, user._id);
+      if (status === "reserved" || status === "taken") {
+        await usernameUnavailable(status);
+        return;
+      }
+    }
+
+    Object.assign(user, after);
+    try {
+      await user.save();
+    } catch (err) {
+      // Lost a race for the username
+      if (isDuplicateKey(err)) {
+        await usernameUnavailable("taken");
+        return;
+      }
+      throw err;
+    }
+    await recordAuditEvent(req, "profile.updated", { before, after });
+
+    if (after.username === undefined) {
+      res.json({ profile: profileResponse(user) });
+      return;
+    }
+
+    // Access tokens embed the username — swap the caller's session for one
+    // with fresh tokens. Other sessions pick it up on their next refresh.
+    if (req.user!.sessionId) {
+      await revokeSession(user._id, req.user!.sessionId);
+    }
+    const { access, refresh, session } = makeTokens(
+      {
+        id: user._id,
+        email: user.email,
+        userType: user.userType,
+        username: user.username,
+        roles: user.roles,
+        companyId: user.companyId,
+      },
+      await planFor(user),
+      { ...startSession(), authTime: req.user!.authTime ?? 0 },
+    );
+    await storeRefreshToken(user._id, refresh, session, clientContext(req));
+
+    res.json({ profile: profileResponse(user), access, refresh });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * POST /api/user/profile/email
+ * Starts an email change: mails a confirmation link to the new address and
+ * keeps the current one until it is used. Needs the current password, or a
+ * sign-in within REAUTH_MAX_AGE_MINUTES.
+ */
+export async function requestEmailChange(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = emailChangeSchema.parse(req.body);
+
+    const user = await User.findById(req.user!.userId);
+    if (!user?.isActive) {
+      res.status(401).json({ error: "User not found" });
+      return;
+    }
+
+    if (body.password) {
+      // Same lockout as sign-in, so this cannot be used to guess passwords
+      const { ip } = clientContext(req);
+      if (!(await checkSignInThrottle(res, user.email, ip))) return;
+      const matches = user.password
+        ? await bcrypt.compare(body.password, user.password)
+        : false;
+      if (!matches) {
+        await recordFailedSignIn(req, user.email, "invalid_password");
+        res.status(401).json({ error: "Password is incorrect" });
+        return;
+      }
+      await loginThrottle.recordSuccess(user.email);
+    } else if (!recentlyAuthenticated(req)) {
+      res.status(401).json({
+        error: "Please confirm your password or sign in again to change your email",
+        code: "reauth_required",
+      });
+      return;
+    }
+
+    if (body.email === user.email.toLowerCase()) {
+      res.status(400).json({ error: "That is already your email address" });
+      return;
+    }
+    // Addresses are stored lowercase, so this catches any casing of it
+    if (await User.exists({ email: body.email })) {
+      res.status(409).json({ error: "Email already registered" });
+      return;
+    }
+
+    // A new request voids any earlier confirmation link
+    const nonce = crypto.randomUUID();
+    await User.updateOne(
+      { _id: user._id },
+      { pendingEmail: body.email, pendingEmailNonce: nonce },
+    );
+    const token = signActionToken(
+      "email_change",
+      { userId: user._id, email: body.email, nonce },
+      env.EMAIL_VERIFICATION_EXPIRES,
+    );
+    await recordAuditEvent(req, "profile.email_change_requested", {
+      metadata: { pendingEmail: body.email },
+    });
+    sendEmailChangeVerificationEmail({
+      to: body.email,
+      firstName: user.firstName || "there",
+      confirmUrl: `${env.CLIENT_URL}/confirm-email-change?token=${encodeURIComponent(token)}`,
+    }).catch(console.error);
+
+    res.status(202).json({
+      message: "Check your new inbox for a confirmation link.",
+      pending_email: body.email,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * POST /api/user/profile/email/confirm
+ * Swaps in the new address from the emailed link (no bearer needed — the
+ * link may be opened on another device) and alerts the old address. Every
+ * session is signed out; the response carries fresh tokens for this one.
+ */
+export async function confirmEmailChange(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { token } = confirmEmailChangeSchema.parse(req.body);
+
+    let payload;
+    try {
+      payload = verifyActionToken("email_change", token);
+    } catch {
+      res.status(400).json({ error: EMAIL_CHANGE_INVALID });
+      return;
+    }
+
+    const user = await User.findOne({
+      _id: payload.userId,
+      pendingEmail: payload.email,
+      isActive: true,
+    }).select("+pendingEmailNonce");
+    if (!user || user.pendingEmailNonce !== payload.nonce) {
+      res.status(400).json({ error: EMAIL_CHANGE_INVALID });
+      return;
+    }
+
+    const previousEmail = user.email;
+    user.email = payload.email;
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    user.pendingEmail = null;
+    user.pendingEmailNonce = null;
+    try {
+      await user.save();
+    } catch (err) {
+      // Someone registered the address after the change was requested
+      if (isDuplicateKey(err)) {
+        res.status(409).json({ error: "Email already registered" });
+        return;
+      }
+      throw err;
+    }
+
+    // Sessions still carry the old address — end them all
+    const revoked = await revokeAllSessions(user._id);
+    const { access, refresh, session } = makeTokens(
+      {
+        id: user._id,
+        email: user.email,
+        userType: user.userType,
+        username: user.username,
+        roles: user.roles,
+        companyId: user.companyId,
+      },
+      await planFor(user),
+    );
+    await storeRefreshToken(user._id, refresh, session, clientContext(req));
+
+    await recordAuditEvent(req, "profile.email_changed", {
+      actor: { userId: user._id, email: user.email },
+      before: { email: previousEmail },
+      after: { email: user.email },
+      metadata: { sessionsRevoked: revoked, sessionId: session.sessionId },
+    });
+    sendEmailChangedEmail({
+      to: previousEmail,
+      firstName: user.firstName || "there",
+      newEmail: user.email,
+    }).catch(console.error);
+
+    res.json({
+      message: "Email address updated",
+      profile: profileResponse(user),
+      access,
+      refresh,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
@@ -0,0 +1,232 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { User } from "../models";
+import {
+  generateTotpSecret,
+  buildOtpauthUri,
+  verifyTotp,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+} from "../services/totp.service";
+import {
+  encryptSecret,
+  decryptSecret,
+  hashToken,
+} from "../services/token.service";
+import { verifySecondFactor } from "../services/two-factor.service";
+import { recordAuditEvent } from "../services/audit.service";
+import { TOTP_ISSUER, RECOVERY_CODE_COUNT } from "../constants";
+
+const enableSchema = z.object({
+  code: z.string().min(1, "Authenticator code is required"),
+});
+
+const secondFactorSchema = z
+  .object({
+    code: z.string().optional(),
+    recoveryCode: z.string().optional(),
+  })
+  .refine((b) => b.code || b.recoveryCode, {
+    message: "An authenticator code or recovery code is required",
+  });
+
+function hashRecoveryCodes(codes: string[]): string[] {
+  return codes.map((c) => hashToken(normalizeRecoveryCode(c)));
+}
+
+// ─── Enrollment ───────────────────────────────────────────────────────────────
+
+/**
+ * POST /api/auth/2fa/setup
+ * Starts TOTP enrollment for an employer account. Returns the secret and an
+ * otpauth:// URI for the QR code; nothing changes until /2fa/enable succeeds.
+ */
+export async function setupTwoFactor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = await User.findById(req.user!.userId);
+    if (!user?.isActive) {
+      res.status(401).json({ error: "User not found" });
+      return;
+    }
+    if (user.userType !== "employer") {
+      res.status(403).json({
+        error: "Two-factor authentication is available for employer accounts",
+      });
+      return;
+    }
+    if (user.twoFactorEnabled) {
+      res
+        .status(409)
+        .json({ error: "Two-factor authentication is already enabled" });
+      return;
+    }
+
+    const secret = generateTotpSecret();
+    await User.updateOne(
+      { _id: user._id },
+      { twoFactorPendingSecret: encryptSecret(secret) },
+    );
+
+    res.json({
+      secret,
+      otpauth_uri: buildOtpauthUri(secret, user.email, TOTP_ISSUER),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/2fa/enable
+ * Confirms enrollment with a code from the authenticator app. Responds with
+ * recovery codes, which are only ever shown this once.
+ */
+export async function enableTwoFactor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { code } = enableSchema.parse(req.body);
+
+    const user = await User.findById(req.user!.userId).select(
+      "+twoFactorPendingSecret",
+    );
+    if (!user?.isActive) {
+      res.status(401).json({ error: "User not found" });
+      return;
+    }
+    if (user.twoFactorEnabled) {
+      res
+        .status(409)
+        .json({ error: "Two-factor authentication is already enabled" });
+      return;
+    }
+    if (!user.twoFactorPendingSecret) {
+      res.status(400).json({ error: "Start setup before enabling 2FA" });
+      return;
+    }
+
+    const step = verifyTotp(decryptSecret(user.twoFactorPendingSecret), code);
+    if (step === null) {
+      res.status(400).json({ error: "Invalid authenticator code" });
+      return;
+    }
+
+    const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          twoFactorEnabled: true,
+          twoFactorSecret: user.twoFactorPendingSecret,
+          twoFactorLastStep: step,
+          twoFactorRecoveryCodes: hashRecoveryCodes(recoveryCodes),
+        },
+        $unset: { twoFactorPendingSecret: 1 },
+      },
+    );
+    await recordAuditEvent(req, "auth.two_factor_enabled");
+
+    res.json({
+      message: "Two-factor authentication enabled",
+      recovery_codes: recoveryCodes,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+// ─── Management ───────────────────────────────────────────────────────────────
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Replaces all recovery codes. Requires a current second factor.
+ */
+export async function regenerateRecoveryCodes(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = secondFactorSchema.parse(req.body);
+    const userId = req.user!.userId;
+
+    const method = await verifySecondFactor(userId, body);
+    if (!method) {
+      res.status(401).json({ error: "Invalid authenticator or recovery code" });
+      return;
+    }
+
+    const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+    await User.updateOne(
+      { _id: userId },
+      { twoFactorRecoveryCodes: hashRecoveryCodes(recoveryCodes) },
+    );
+    await recordAuditEvent(req, "auth.recovery_codes_regenerated", {
+      metadata: { verifiedWith: method },
+    });
+
+    res.json({ recovery_codes: recoveryCodes });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turns 2FA off. Requires a current second factor.
+ */
+export async function disableTwoFactor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = secondFactorSchema.parse(req.body);
+    const userId = req.user!.userId;
+
+    const method = await verifySecondFactor(userId, body);
+    if (!method) {
+      res.status(401).json({ error: "Invalid authenticator or recovery code" });
+      return;
+    }
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: { twoFactorEnabled: false, twoFactorRecoveryCodes: [] },
+        $unset: { twoFactorSecret: 1, twoFactorLastStep: 1 },
+      },
+    );
+    await recordAuditEvent(req, "auth.two_factor_disabled", {
+      metadata: { verifiedWith: method },
+    });
+
+    res.json({ message: "Two-factor authentication disabled" });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
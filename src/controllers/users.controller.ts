@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { User } from "../models";
+import {
+  usernameStatus,
+  suggestUsernames,
+  isValidUsername,
+  isReservedUsername,
+} from "../services/username.service";
+
+const availabilityQuerySchema = z.object({
+  u: z.string().trim().toLowerCase().min(1, "Query parameter u is required"),
+});
+
+/**
+ * GET /api/user/username-available?u=
+ * Whether a username can be claimed, for sign-up and profile forms. Names
+ * that are taken or reserved come back with free `suggestions`.
+ */
+export async function checkUsernameAvailability(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { u: username } = availabilityQuerySchema.parse(req.query);
+    const status = await usernameStatus(username);
+    const available = status === "available";
+
+    res.json({
+      username,
+      available,
+      reason: available ? null : status,
+      suggestions:
+        status === "taken" || status === "reserved"
+          ? await suggestUsernames(username, {})
+          : [],
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    next(err);
+  }
+}
+
+/**
+ * GET /api/users/:username
+ * Public profile card behind profile URLs. Only fields meant to be public
+ * are returned; deactivated accounts (including those awaiting deletion)
+ * answer 404 like unknown names.
+ */
+export async function getPublicProfile(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const username = req.params.username.toLowerCase();
+    if (!isValidUsername(username) || isReservedUsername(username)) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    const user = await User.findOne({ username, isActive: true }).select(
+      "username firstName lastName userType createdAt",
+    );
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    res.json({
+      username: user.username,
+      first_name: user.firstName || "",
+      last_name: user.lastName || "",
+      user_type: user.userType,
+      member_since: user.createdAt.toISOString(),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
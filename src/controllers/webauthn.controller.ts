@@ -0,0 +1,227 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { User, WebAuthnCredential } from "../models";
+import { env } from "../config/env";
+import {
+  issueChallenge,
+  consumeChallenge,
+  verifyRegistrationResponse,
+  SUPPORTED_COSE_ALGS,
+  CHALLENGE_TIMEOUT_MS,
+  WebAuthnError,
+} from "../services/webauthn.service";
+import { countLoginMethods } from "../services/oauth-identity.service";
+import { recordAuditEvent } from "../services/audit.service";
+
+const registerSchema = z.object({
+  name: z.string().trim().max(64).optional(),
+  response: z.object({
+    clientDataJSON: z.string().min(1),
+    attestationObject: z.string().min(1),
+    transports: z.array(z.string()).optional(),
+  }),
+});
+
+function relyingParty() {
+  return { id: env.WEBAUTHN_RP_ID, origins: env.WEBAUTHN_ORIGINS };
+}
+
+// ─── Registration ─────────────────────────────────────────────────────────────
+
+/**
+ * POST /api/auth/webauthn/register/options
+ * Creation options for navigator.credentials.create(). Passkeys are offered
+ * to employer accounts; existing ones are excluded so an authenticator is
+ * not registered twice.
+ */
+export async function passkeyRegistrationOptions(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = await User.findById(req.user!.userId);
+    if (!user?.isActive) {
+      res.status(401).json({ error: "User not found" });
+      return;
+    }
+    if (user.userType !== "employer") {
+      res
+        .status(403)
+        .json({ error: "Passkeys are available for employer accounts" });
+      return;
+    }
+
+    const existing = await WebAuthnCredential.find({ userId: user._id });
+    const challenge = await issueChallenge("registration", user._id);
+
+    res.json({
+      challenge,
+      rp: { id: env.WEBAUTHN_RP_ID, name: env.WEBAUTHN_RP_NAME },
+      user: {
+        id: Buffer.from(user._id).toString("base64url"),
+        name: user.email,
+        displayName:
+          [user.firstName, user.lastName].filter(Boolean).join(" ") ||
+          user.email,
+      },
+      pubKeyCredParams: SUPPORTED_COSE_ALGS.map((alg) => ({
+        type: "public-key",
+        alg,
+      })),
+      timeout: CHALLENGE_TIMEOUT_MS,
+      attestation: "none",
+      authenticatorSelection: {
+        residentKey: "required",
+        userVerification: "required",
+      },
+      excludeCredentials: existing.map((c) => ({
+        type: "public-key",
+        id: c.credentialId,
+        transports: c.transports,
+      })),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/webauthn/register/verify
+ * Verifies the authenticator's response and stores the new passkey.
+ */
+export async function registerPasskey(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const body = registerSchema.parse(req.body);
+    const userId = req.user!.userId;
+
+    const challenge = await consumeChallenge(
+      body.response.clientDataJSON,
+      "registration",
+      userId,
+    );
+    if (!challenge) {
+      res.status(400).json({ error: "Passkey challenge expired. Try again." });
+      return;
+    }
+
+    const verified = verifyRegistrationResponse(
+      body.response,
+      challenge,
+      relyingParty(),
+    );
+    const duplicate = await WebAuthnCredential.exists({
+      credentialId: verified.credentialId,
+    });
+    if (duplicate) {
+      res.status(409).json({ error: "This passkey is already registered" });
+      return;
+    }
+
+    const credential = await WebAuthnCredential.create({
+      userId,
+      credentialId: verified.credentialId,
+      publicKey: verified.publicKey,
+      signCount: verified.signCount,
+      backedUp: verified.backedUp,
+      transports: body.response.transports ?? [],
+      name: body.name || "Passkey",
+    });
+    await recordAuditEvent(req, "auth.passkey_added", {
+      metadata: { credentialId: credential._id, name: credential.name },
+    });
+
+    res.status(201).json({ credential: credentialResponse(credential) });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res
+        .status(400)
+        .json({ error: err.errors[0]?.message || "Validation error" });
+      return;
+    }
+    if (err instanceof WebAuthnError) {
+      res.status(400).json({ error: `Passkey rejected: ${err.message}` });
+      return;
+    }
+    next(err);
+  }
+}
+
+// ─── Management ───────────────────────────────────────────────────────────────
+
+function credentialResponse(c: {
+  _id: string;
+  name: string;
+  backedUp: boolean;
+  createdAt: Date;
+  lastUsedAt?: Date | null;
+}) {
+  return {
+    id: c._id,
+    name: c.name,
+    synced: c.backedUp,
+    created_at: c.createdAt.toISOString(),
+    last_used_at: c.lastUsedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * GET /api/auth/webauthn/credentials
+ * Lists the user's passkeys.
+ */
+export async function listPasskeys(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const credentials = await WebAuthnCredential.find({
+      userId: req.user!.userId,
+    }).sort({ createdAt: 1 });
+    res.json({ credentials: credentials.map(credentialResponse) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * DELETE /api/auth/webauthn/credentials/:id
+ * Removes a passkey. Refused when it is the account's last way to sign in.
+ */
+export async function deletePasskey(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const [user, credential] = await Promise.all([
+      User.findById(userId).select("password"),
+      WebAuthnCredential.findOne({ _id: req.params.id, userId }),
+    ]);
+    if (!user || !credential) {
+      res.status(404).json({ error: "Passkey not found" });
+      return;
+    }
+
+    if ((await countLoginMethods(user)) <= 1) {
+      res.status(409).json({
+        error:
+          "This is your only way to sign in. Add a password or another passkey first.",
+      });
+      return;
+    }
+
+    await WebAuthnCredential.deleteOne({ _id: credential._id });
+    await recordAuditEvent(req, "auth.passkey_removed", {
+      metadata: { credentialId: credential._id, name: credential.name },
+    });
+    res.json({ message: "Passkey removed" });
+  } catch (err) {
+    next(err);
+  }
+}
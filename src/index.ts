@@ -1,11 +1,21 @@
 import { env } from "./config/env";
 import { connectMongo, disconnectMongo } from "./config/mongoose";
 import app from "./app";
+import { assertRefreshTokensMigrated } from "./services/session.service";
+import {
+  purgeDueAccounts,
+  ACCOUNT_PURGE_INTERVAL_MS,
+} from "./services/account-deletion.service";
 
 async function main() {
   // Connect to MongoDB
   await connectMongo();
   console.log("[DB] MongoDB connected");
+  await assertRefreshTokensMigrated();
+
+  // Permanently delete accounts whose deletion grace period has ended
+  purgeDueAccounts();
+  setInterval(purgeDueAccounts, ACCOUNT_PURGE_INTERVAL_MS).unref();
 
   app.listen(env.PORT, () => {
     console.log(
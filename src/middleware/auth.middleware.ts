@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import { verifyAccessToken } from "../services/jwt.service";
+import { User } from "../models";
+import { Permission, permissionsFor, rolesFor } from "../config/roles";
 
 export function requireAuth(
   req: Request,
@@ -20,3 +22,81 @@ export function requireAuth(
     res.status(401).json({ error: "Invalid or expired token" });
   }
 }
+
+/**
+ * Must run after `requireAuth`. Rejects accounts that have not confirmed
+ * their email address (checked against the database, not the token, so a
+ * freshly verified user does not have to refresh first).
+ */
+export async function requireVerifiedEmail(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = await User.findById(req.user!.userId).select("emailVerified");
+    if (!user?.emailVerified) {
+      res.status(403).json({
+        error: "Please verify your email address to continue",
+        code: "email_not_verified",
+      });
+      return;
+    }
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Must run after `requireAuth`. Allows active users whose stored roles grant
+ * every one of `permissions` (see config/roles.ts). Resolved from the
+ * database rather than the token's claims, so a revoked role or a
+ * deactivated account loses access before the token expires.
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const user = await User.findById(req.user!.userId).select(
+        "userType roles isActive",
+      );
+      const granted = user?.isActive ? permissionsFor(rolesFor(user)) : [];
+      if (!permissions.every((p) => granted.includes(p))) {
+        res.status(403).json({
+          error: "Your role does not allow this action",
+          code: "permission_denied",
+        });
+        return;
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+/**
+ * Must run after `requireAuth` on routes with an `:id` company parameter.
+ * Allows members of that company only (checked against the database, so a
+ * user removed from the company loses access before their token expires).
+ */
+export async function requireCompanyMember(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = await User.findById(req.user!.userId).select("companyId");
+    if (!user?.companyId || user.companyId !== req.params.id) {
+      res.status(404).json({ error: "Company not found" });
+      return;
+    }
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
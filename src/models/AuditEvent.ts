@@ -0,0 +1,80 @@
+import mongoose, { Schema } from "mongoose";
+
+/**
+ * Who did what to whom. Append-only: written through audit.service
+ * recordAuditEvent(); updates and deletes are rejected by the hooks below.
+ */
+export interface IAuditEvent {
+  _id: string;
+  /** e.g. "auth.signed_in" — see AuditAction in audit.service. */
+  action: string;
+  /** User who performed the action (null for system actions, e.g. webhooks). */
+  actorId?: string | null;
+  actorEmail?: string | null;
+  /** User the action was performed on (the actor for their own actions). */
+  targetUserId?: string | null;
+  /** State of what changed, before and after the action. */
+  before?: unknown;
+  after?: unknown;
+  metadata?: Record<string, unknown> | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  createdAt: Date;
+}
+
+const AuditEventSchema = new Schema<IAuditEvent>(
+  {
+    _id: {
+      type: String,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    action: { type: String, required: true },
+    actorId: { type: String, default: null },
+    actorEmail: { type: String, default: null },
+    targetUserId: { type: String, default: null },
+    before: { type: Schema.Types.Mixed, default: null },
+    after: { type: Schema.Types.Mixed, default: null },
+    metadata: { type: Schema.Types.Mixed, default: null },
+    ip: { type: String, default: null },
+    userAgent: { type: String, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+// _id is an ObjectId string, so sorting on it is chronological; every
+// listing pages through these newest-first with an _id cursor
+AuditEventSchema.index({ targetUserId: 1, _id: -1 });
+AuditEventSchema.index({ actorId: 1, _id: -1 });
+AuditEventSchema.index({ action: 1, _id: -1 });
+
+function rejectChange(): never {
+  throw new Error("Audit events are append-only");
+}
+
+AuditEventSchema.pre(
+  [
+    "updateOne",
+    "updateMany",
+    "findOneAndUpdate",
+    "replaceOne",
+    "findOneAndReplace",
+    "deleteOne",
+    "deleteMany",
+    "findOneAndDelete",
+  ],
+  { document: false, query: true },
+  rejectChange,
+);
+AuditEventSchema.pre(
+  ["updateOne", "deleteOne"],
+  { document: true, query: false },
+  rejectChange,
+);
+AuditEventSchema.pre("save", function () {
+  if (!this.isNew) rejectChange();
+});
+
+export const AuditEvent = mongoose.model<IAuditEvent>(
+  "AuditEvent",
+  AuditEventSchema,
+);
@@ -2,7 +2,8 @@ import mongoose, { Schema } from "mongoose";
 
 export interface ICandidatePayment {
   _id: string;
-  userId: string;
+  /** Null once the payer's account has been deleted (see anonymizedAt). */
+  userId: string | null;
   stripeSessionId: string;
   stripePaymentIntentId?: string;
   packageType: string;
@@ -10,6 +11,7 @@ export interface ICandidatePayment {
   subdomains: string;
   amountCents: number;
   status: string;
+  anonymizedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -20,7 +22,8 @@ const CandidatePaymentSchema = new Schema<ICandidatePayment>(
       type: String,
       default: () => new mongoose.Types.ObjectId().toString(),
     },
-    userId: { type: String, required: true, index: true },
+    // Payments outlive the account for accounting; deletion only unlinks them
+    userId: { type: String, default: null, index: true },
     stripeSessionId: { type: String, required: true, unique: true },
     stripePaymentIntentId: { type: String, default: null },
     packageType: { type: String, required: true },
@@ -28,6 +31,7 @@ const CandidatePaymentSchema = new Schema<ICandidatePayment>(
     subdomains: { type: String, required: true },
     amountCents: { type: Number, required: true },
     status: { type: String, default: "pending" },
+    anonymizedAt: { type: Date, default: null },
   },
   { timestamps: true },
 );
@@ -0,0 +1,34 @@
+import mongoose, { Schema } from "mongoose";
+
+/**
+ * An employer organization. Employer users belong to one company
+ * (User.companyId) and share its subscription.
+ */
+export interface ICompany {
+  _id: string;
+  name: string;
+  /** The user who registered the company. */
+  ownerId: string;
+  website?: string;
+  phone?: string;
+  address?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CompanySchema = new Schema<ICompany>(
+  {
+    _id: {
+      type: String,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    name: { type: String, required: true, trim: true },
+    ownerId: { type: String, required: true, index: true },
+    website: { type: String, default: null },
+    phone: { type: String, default: null },
+    address: { type: String, default: null },
+  },
+  { timestamps: true },
+);
+
+export const Company = mongoose.model<ICompany>("Company", CompanySchema);
@@ -0,0 +1,52 @@
+import mongoose, { Schema } from "mongoose";
+
+/**
+ * An invitation to join a company with a given role. The emailed link is a
+ * signed token carrying `nonce`; resending rotates the nonce, so only the
+ * newest link works. Pending invitations hold a seat until they expire.
+ */
+export interface ICompanyInvitation {
+  _id: string;
+  companyId: string;
+  email: string;
+  role: string;
+  invitedBy: string;
+  nonce: string;
+  status: "pending" | "accepted" | "revoked";
+  expiresAt: Date;
+  acceptedAt?: Date | null;
+  acceptedBy?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CompanyInvitationSchema = new Schema<ICompanyInvitation>(
+  {
+    _id: {
+      type: String,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    companyId: { type: String, required: true },
+    email: { type: String, required: true, lowercase: true, trim: true },
+    role: { type: String, required: true },
+    invitedBy: { type: String, required: true },
+    nonce: { type: String, required: true, unique: true, select: false },
+    status: {
+      type: String,
+      enum: ["pending", "accepted", "revoked"],
+      default: "pending",
+    },
+    expiresAt: { type: Date, required: true },
+    acceptedAt: { type: Date, default: null },
+    acceptedBy: { type: String, default: null },
+  },
+  { timestamps: true },
+);
+
+CompanyInvitationSchema.index({ companyId: 1, status: 1, expiresAt: 1 });
+CompanyInvitationSchema.index({ email: 1, status: 1 });
+
+export const CompanyInvitation = mongoose.model<ICompanyInvitation>(
+  "CompanyInvitation",
+  CompanyInvitationSchema,
+);
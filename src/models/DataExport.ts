@@ -0,0 +1,46 @@
+import mongoose, { Schema } from "mongoose";
+
+/**
+ * A personal data export requested through POST /api/user/export. The ZIP
+ * is built in the background and kept here until `expiresAt`.
+ */
+export interface IDataExport {
+  _id: string;
+  userId: string;
+  status: "pending" | "ready" | "failed";
+  /** The ZIP archive — only loaded for downloads. */
+  archive?: Buffer | null;
+  sizeBytes?: number | null;
+  error?: string | null;
+  completedAt?: Date | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DataExportSchema = new Schema<IDataExport>(
+  {
+    _id: {
+      type: String,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: { type: String, required: true, index: true },
+    status: {
+      type: String,
+      enum: ["pending", "ready", "failed"],
+      default: "pending",
+    },
+    archive: { type: Buffer, default: null, select: false },
+    sizeBytes: { type: Number, default: null },
+    error: { type: String, default: null },
+    completedAt: { type: Date, default: null },
+    // TTL index — archives are purged once their download window closes
+    expiresAt: { type: Date, required: true, index: { expires: 0 } },
+  },
+  { timestamps: true },
+);
+
+export const DataExport = mongoose.model<IDataExport>(
+  "DataExport",
+  DataExportSchema,
+);
@@ -0,0 +1,37 @@
+import mongoose, { Schema } from "mongoose";
+
+/**
+ * An OAuth sign-in that matched an existing account by email. Nothing is
+ * linked until the account owner confirms with their password or the
+ * emailed link.
+ */
+export interface IIdentityLinkRequest {
+  /** SHA-256 of the ticket handed to the frontend. */
+  _id: string;
+  userId: string;
+  provider: string;
+  subject: string;
+  email: string;
+  /** Whether the provider reported the email as verified. */
+  emailVerified: boolean;
+  /** SHA-256 of the emailed confirmation token, once one was sent. */
+  emailTokenHash?: string;
+  expiresAt: Date;
+}
+
+const IdentityLinkRequestSchema = new Schema<IIdentityLinkRequest>({
+  _id: { type: String, required: true },
+  userId: { type: String, required: true },
+  provider: { type: String, required: true },
+  subject: { type: String, required: true },
+  email: { type: String, required: true },
+  emailVerified: { type: Boolean, default: false },
+  emailTokenHash: { type: String, sparse: true, unique: true },
+  // TTL index — unconfirmed requests are purged automatically
+  expiresAt: { type: Date, required: true, index: { expires: 0 } },
+});
+
+export const IdentityLinkRequest = mongoose.model<IIdentityLinkRequest>(
+  "IdentityLinkRequest",
+  IdentityLinkRequestSchema,
+);
@@ -0,0 +1,24 @@
+import mongoose, { Schema } from "mongoose";
+
+/** Failed sign-in counter for one throttle key ("account:<email>" or "ip:<addr>"). */
+export interface ILoginAttempt {
+  _id: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+  expiresAt: Date;
+}
+
+const LoginAttemptSchema = new Schema<ILoginAttempt>({
+  _id: { type: String, required: true },
+  failures: { type: Number, default: 0 },
+  lastFailureAt: { type: Date, required: true },
+  lockedUntil: { type: Date, default: null },
+  // TTL index — counters disappear once the window and any lock have passed
+  expiresAt: { type: Date, required: true, index: { expires: 0 } },
+});
+
+export const LoginAttempt = mongoose.model<ILoginAttempt>(
+  "LoginAttempt",
+  LoginAttemptSchema,
+);
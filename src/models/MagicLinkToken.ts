@@ -0,0 +1,30 @@
+import mongoose, { Schema } from "mongoose";
+
+export interface IMagicLinkToken {
+  _id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+const MagicLinkTokenSchema = new Schema<IMagicLinkToken>(
+  {
+    _id: {
+      type: String,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: { type: String, required: true, index: true },
+    tokenHash: { type: String, required: true, unique: true },
+    // TTL index — MongoDB purges expired links automatically
+    expiresAt: { type: Date, required: true, index: { expires: 0 } },
+    usedAt: { type: Date, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+export const MagicLinkToken = mongoose.model<IMagicLinkToken>(
+  "MagicLinkToken",
+  MagicLinkTokenSchema,
+);
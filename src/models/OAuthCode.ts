@@ -0,0 +1,26 @@
+import mongoose, { Schema } from "mongoose";
+
+/** One-time code handed to the frontend after an OAuth sign-in. */
+export interface IOAuthCode {
+  /** SHA-256 of the code — the raw code is never stored. */
+  _id: string;
+  userId: string;
+  provider: string;
+  /** SHA-256 of the OAuth state the code was issued for. */
+  stateHash: string;
+  expiresAt: Date;
+}
+
+const OAuthCodeSchema = new Schema<IOAuthCode>({
+  _id: { type: String, required: true },
+  userId: { type: String, required: true },
+  provider: { type: String, required: true },
+  stateHash: { type: String, required: true },
+  // TTL index — unredeemed codes are purged automatically
+  expiresAt: { type: Date, required: true, index: { expires: 0 } },
+});
+
+export const OAuthCode = mongoose.model<IOAuthCode>(
+  "OAuthCode",
+  OAuthCodeSchema,
+);
@@ -0,0 +1,30 @@
+import mongoose, { Schema } from "mongoose";
+
+/** Pending OAuth authorization request, keyed by the `state` parameter. */
+export interface IOAuthState {
+  _id: string;
+  provider: string;
+  userType: string;
+  redirectPath: string;
+  /** Set when a signed-in user is linking a provider rather than signing in. */
+  linkUserId?: string;
+  /** SHA-256 of the browser-binding cookie set when the flow started. */
+  bindingHash: string;
+  expiresAt: Date;
+}
+
+const OAuthStateSchema = new Schema<IOAuthState>({
+  _id: { type: String, required: true },
+  provider: { type: String, required: true },
+  userType: { type: String, default: "candidate" },
+  redirectPath: { type: String, default: "/" },
+  linkUserId: { type: String, default: null },
+  bindingHash: { type: String, required: true },
+  // TTL index — abandoned flows are purged automatically
+  expiresAt: { type: Date, required: true, index: { expires: 0 } },
+});
+
+export const OAuthState = mongoose.model<IOAuthState>(
+  "OAuthState",
+  OAuthStateSchema,
+);
@@ -2,10 +2,21 @@ import mongoose, { Schema } from "mongoose";
 
 export interface IRefreshToken {
   _id: string;
-  token: string;
+  /** `tokenId` claim of the refresh JWT — the lookup key. */
+  tokenId: string;
+  /** SHA-256 of the raw JWT; the token itself is never stored. */
+  tokenHash: string;
   userId: string;
+  /** Session family — shared by every token rotated from one sign-in. */
+  familyId?: string;
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt?: Date;
+  startedAt?: Date;
   expiresAt: Date;
   revoked: boolean;
+  /** Set when this token was exchanged for a successor during rotation. */
+  rotatedAt?: Date;
   createdAt: Date;
 }
 
@@ -15,10 +26,18 @@ const RefreshTokenSchema = new Schema<IRefreshToken>(
       type: String,
       default: () => new mongoose.Types.ObjectId().toString(),
     },
-    token: { type: String, required: true, unique: true },
+    tokenId: { type: String, required: true, unique: true },
+    tokenHash: { type: String, required: true },
     userId: { type: String, required: true, index: true },
-    expiresAt: { type: Date, required: true },
+    familyId: { type: String, default: null, index: true },
+    userAgent: { type: String, default: null },
+    ip: { type: String, default: null },
+    lastUsedAt: { type: Date, default: null },
+    startedAt: { type: Date, default: null },
+    // TTL index — expired tokens are purged by MongoDB
+    expiresAt: { type: Date, required: true, index: { expires: 0 } },
     revoked: { type: Boolean, default: false },
+    rotatedAt: { type: Date, default: null },
   },
   { timestamps: { createdAt: true, updatedAt: false } },
 );
@@ -1,14 +1,23 @@
 import mongoose, { Schema } from "mongoose";
 
+/**
+ * Billing state. Employer subscriptions belong to the company and are shared
+ * by its members; candidates (and employers not yet migrated to companies)
+ * have one per user. Exactly one of companyId / userId is set.
+ */
 export interface ISubscription {
   _id: string;
-  userId: string;
+  userId?: string | null;
+  companyId?: string | null;
   stripeCustomerId?: string;
   stripePriceId?: string;
   stripeSubId?: string;
   plan: string;
   status: string;
   currentPeriodEnd?: Date;
+  /** Paid seats beyond the plan's included ones (Stripe seat item quantity). */
+  extraSeats: number;
+  stripeSeatItemId?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -19,17 +28,29 @@ const SubscriptionSchema = new Schema<ISubscription>(
       type: String,
       default: () => new mongoose.Types.ObjectId().toString(),
     },
-    userId: { type: String, required: true, unique: true },
+    userId: { type: String, default: null },
+    companyId: { type: String, default: null },
     stripeCustomerId: { type: String, sparse: true, unique: true },
     stripePriceId: { type: String, default: null },
     stripeSubId: { type: String, default: null },
     plan: { type: String, default: "free" },
     status: { type: String, default: "inactive" },
     currentPeriodEnd: { type: Date, default: null },
+    extraSeats: { type: Number, default: 0 },
+    stripeSeatItemId: { type: String, default: null },
   },
   { timestamps: true },
 );
 
+SubscriptionSchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { userId: { $type: "string" } } },
+);
+SubscriptionSchema.index(
+  { companyId: 1 },
+  { unique: true, partialFilterExpression: { companyId: { $type: "string" } } },
+);
+
 export const Subscription = mongoose.model<ISubscription>(
   "Subscription",
   SubscriptionSchema,
@@ -10,14 +10,38 @@ export interface IUser {
   _id: string;
   email: string;
   password?: string;
-  googleId?: string;
   username?: string;
   firstName?: string;
   lastName?: string;
   userType: string;
+  /** See config/roles.ts; empty means the default for userType. */
+  roles: string[];
+  /** Employer accounts only — the company the user works for. */
+  companyId?: string | null;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  emailVerificationNonce?: string;
+  /** New address awaiting confirmation (POST /api/user/profile/email). */
+  pendingEmail?: string | null;
+  pendingEmailNonce?: string | null;
+  /** Nonce of the outstanding identity-link ticket (single use). */
+  identityLinkNonce?: string;
+  twoFactorEnabled: boolean;
+  /** AES-GCM encrypted base32 TOTP secret (see token.service encryptSecret). */
+  twoFactorSecret?: string;
+  /** Secret generated by /2fa/setup, promoted by /2fa/enable. */
+  twoFactorPendingSecret?: string;
+  /** Last accepted TOTP step — codes at or before it are replays. */
+  twoFactorLastStep?: number;
+  /** SHA-256 hashes of unused recovery codes. */
+  twoFactorRecoveryCodes: string[];
+  /** Nonce of the outstanding sign-in challenge (single use). */
+  twoFactorChallengeNonce?: string | null;
   membershipConfig?: string;
   hasPurchasedVisibility: boolean;
   isActive: boolean;
+  /** Set while a requested deletion is pending — when the account is purged. */
+  deletionScheduledAt?: Date | null;
   preferences: IUserPreferences;
   createdAt: Date;
   updatedAt: Date;
@@ -50,16 +74,40 @@ const UserSchema = new Schema<IUser>(
       type: String,
       default: () => new mongoose.Types.ObjectId().toString(),
     },
-    email: { type: String, required: true, unique: true },
+    // Stored lowercase so lookups and uniqueness ignore case
+    email: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
     password: { type: String, default: null },
-    googleId: { type: String, sparse: true, unique: true },
     username: { type: String, sparse: true, unique: true },
     firstName: { type: String, default: null },
     lastName: { type: String, default: null },
     userType: { type: String, default: "candidate" },
+    roles: { type: [String], default: [] },
+    companyId: { type: String, default: null, index: true },
+    emailVerified: { type: Boolean, default: false },
+    emailVerifiedAt: { type: Date, default: null },
+    // Nonce of the one outstanding verification link; cleared once consumed
+    emailVerificationNonce: { type: String, default: null, select: false },
+    pendingEmail: { type: String, default: null, lowercase: true, trim: true },
+    // Nonce of the outstanding email-change link; a new request voids it
+    pendingEmailNonce: { type: String, default: null, select: false },
+    identityLinkNonce: { type: String, default: null, select: false },
+    twoFactorEnabled: { type: Boolean, default: false },
+    twoFactorSecret: { type: String, default: null, select: false },
+    twoFactorPendingSecret: { type: String, default: null, select: false },
+    twoFactorLastStep: { type: Number, default: null, select: false },
+    twoFactorRecoveryCodes: { type: [String], default: [], select: false },
+    // A new challenge voids the previous one; cleared once it is redeemed
+    twoFactorChallengeNonce: { type: String, default: null, select: false },
     membershipConfig: { type: String, default: null },
     hasPurchasedVisibility: { type: Boolean, default: false },
     isActive: { type: Boolean, default: true },
+    deletionScheduledAt: { type: Date, default: null, index: true },
     preferences: {
       type: PreferencesSchema,
       default: () => ({
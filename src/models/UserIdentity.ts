@@ -0,0 +1,37 @@
+import mongoose, { Schema } from "mongoose";
+
+/** An external sign-in identity (Google, Microsoft, LinkedIn …) linked to a user. */
+export interface IUserIdentity {
+  _id: string;
+  userId: string;
+  /** Provider name as registered in config/oauth-providers. */
+  provider: string;
+  /** The provider's stable user id (OIDC `sub`). */
+  subject: string;
+  /** Email reported by the provider when the identity was linked. */
+  email?: string;
+  lastUsedAt: Date;
+  createdAt: Date;
+}
+
+const UserIdentitySchema = new Schema<IUserIdentity>(
+  {
+    _id: {
+      type: String,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: { type: String, required: true, index: true },
+    provider: { type: String, required: true },
+    subject: { type: String, required: true },
+    email: { type: String, default: null },
+    lastUsedAt: { type: Date, default: () => new Date() },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+UserIdentitySchema.index({ provider: 1, subject: 1 }, { unique: true });
+
+export const UserIdentity = mongoose.model<IUserIdentity>(
+  "UserIdentity",
+  UserIdentitySchema,
+);
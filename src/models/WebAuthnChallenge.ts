@@ -0,0 +1,27 @@
+import mongoose, { Schema } from "mongoose";
+
+/** Outstanding WebAuthn challenge, keyed by the challenge itself. */
+export interface IWebAuthnChallenge {
+  _id: string;
+  purpose: "registration" | "authentication";
+  /** Set for registration — the signed-in user adding a passkey. */
+  userId?: string;
+  expiresAt: Date;
+}
+
+const WebAuthnChallengeSchema = new Schema<IWebAuthnChallenge>({
+  _id: { type: String, required: true },
+  purpose: {
+    type: String,
+    enum: ["registration", "authentication"],
+    required: true,
+  },
+  userId: { type: String, default: null },
+  // TTL index — unanswered challenges are purged automatically
+  expiresAt: { type: Date, required: true, index: { expires: 0 } },
+});
+
+export const WebAuthnChallenge = mongoose.model<IWebAuthnChallenge>(
+  "WebAuthnChallenge",
+  WebAuthnChallengeSchema,
+);
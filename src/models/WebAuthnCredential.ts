@@ -0,0 +1,43 @@
+import mongoose, { Schema } from "mongoose";
+
+/** A registered passkey. */
+export interface IWebAuthnCredential {
+  _id: string;
+  userId: string;
+  /** Credential id from the authenticator (base64url). */
+  credentialId: string;
+  /** COSE_Key public key (base64url). */
+  publicKey: string;
+  /** Last signature counter seen — detects cloned authenticators. */
+  signCount: number;
+  transports: string[];
+  /** Synced passkey (e.g. iCloud Keychain, Google Password Manager). */
+  backedUp: boolean;
+  /** User-chosen label, e.g. "MacBook Touch ID". */
+  name: string;
+  lastUsedAt?: Date;
+  createdAt: Date;
+}
+
+const WebAuthnCredentialSchema = new Schema<IWebAuthnCredential>(
+  {
+    _id: {
+      type: String,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: { type: String, required: true, index: true },
+    credentialId: { type: String, required: true, unique: true },
+    publicKey: { type: String, required: true },
+    signCount: { type: Number, default: 0 },
+    transports: { type: [String], default: [] },
+    backedUp: { type: Boolean, default: false },
+    name: { type: String, default: "Passkey" },
+    lastUsedAt: { type: Date, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+export const WebAuthnCredential = mongoose.model<IWebAuthnCredential>(
+  "WebAuthnCredential",
+  WebAuthnCredentialSchema,
+);
@@ -1,4 +1,29 @@
 export { User, IUser } from "./User";
 export { Subscription, ISubscription } from "./Subscription";
+export { Company, ICompany } from "./Company";
+export {
+  CompanyInvitation,
+  ICompanyInvitation,
+} from "./CompanyInvitation";
 export { RefreshToken, IRefreshToken } from "./RefreshToken";
 export { CandidatePayment, ICandidatePayment } from "./CandidatePayment";
+export {
+  PasswordResetToken,
+  IPasswordResetToken,
+} from "./PasswordResetToken";
+export { LoginAttempt, ILoginAttempt } from "./LoginAttempt";
+export { OAuthState, IOAuthState } from "./OAuthState";
+export { OAuthCode, IOAuthCode } from "./OAuthCode";
+export { UserIdentity, IUserIdentity } from "./UserIdentity";
+export {
+  IdentityLinkRequest,
+  IIdentityLinkRequest,
+} from "./IdentityLinkRequest";
+export { MagicLinkToken, IMagicLinkToken } from "./MagicLinkToken";
+export {
+  WebAuthnCredential,
+  IWebAuthnCredential,
+} from "./WebAuthnCredential";
+export { WebAuthnChallenge, IWebAuthnChallenge } from "./WebAuthnChallenge";
+export { AuditEvent, IAuditEvent } from "./AuditEvent";
+export { DataExport, IDataExport } from "./DataExport";
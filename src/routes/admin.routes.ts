@@ -0,0 +1,32 @@
+import { Router } from "express";
+import {
+  searchUsers,
+  getUserDetails,
+  activateUser,
+  deactivateUser,
+  forceLogout,
+  overridePlan,
+  overrideMembership,
+  searchAuditEvents,
+} from "../controllers/admin.controller";
+import {
+  requireAuth,
+  requirePermission,
+} from "../middleware/auth.middleware";
+
+const router = Router();
+
+// Platform administrators only (granted with npm run admin:grant)
+router.use(requireAuth, requirePermission("platform:admin"));
+
+router.get("/users", searchUsers);
+router.get("/users/:id", getUserDetails);
+router.post("/users/:id/activate", activateUser);
+router.post("/users/:id/deactivate", deactivateUser);
+router.post("/users/:id/logout", forceLogout);
+router.put("/users/:id/plan", overridePlan);
+router.put("/users/:id/membership", overrideMembership);
+
+router.get("/audit-events", searchAuditEvents);
+
+export default router;
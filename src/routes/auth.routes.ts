@@ -2,27 +2,118 @@ import { Router } from "express";
 import {
   register,
   login,
-  googleAuth,
-  googleCallback,
+  oauthAuthorize,
+  oauthCallback,
   refreshToken,
   verify,
   logout,
   deleteAccount,
+  requestRestoreLink,
+  restoreDeletedAccount,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  listSessions,
+  revokeSessionById,
+  revokeOtherSessions,
+  loginTwoFactor,
+  unlockAccount,
+  oauthExchange,
+  requestMagicLink,
+  consumeMagicLink,
+  sendOAuthLinkEmail,
+  confirmOAuthLink,
+  webauthnLoginOptions,
+  webauthnLogin,
+  acceptInvitation,
 } from "../controllers/auth.controller";
-import { requireAuth } from "../middleware/auth.middleware";
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from "../controllers/two-factor.controller";
+import {
+  passkeyRegistrationOptions,
+  registerPasskey,
+  listPasskeys,
+  deletePasskey,
+} from "../controllers/webauthn.controller";
+import {
+  requireAuth,
+  requirePermission,
+} from "../middleware/auth.middleware";
 
 const router = Router();
 
 // Email / password
 router.post("/register", register);
 router.post("/login", login);
+router.post("/login/2fa", loginTwoFactor);
 router.post("/refresh", refreshToken);
 router.get("/verify", requireAuth, verify);
 router.post("/logout", requireAuth, logout);
 router.delete("/account", requireAuth, deleteAccount);
 
-// Google OAuth (stateless — no sessions)
-router.get("/google", googleAuth);
-router.get("/google/callback", googleCallback);
+// Restoring an account during its deletion grace period
+router.post("/account/restore-link", requestRestoreLink);
+router.post("/account/restore", restoreDeletedAccount);
+
+// Email verification
+router.post("/verify-email", verifyEmail);
+router.post("/resend-verification", requireAuth, resendVerification);
+
+// Password recovery
+router.post("/forgot-password", forgotPassword);
+router.post("/reset-password", resetPassword);
+router.put("/password", requireAuth, changePassword);
+
+// Company team invitations
+router.post("/invitations/accept", acceptInvitation);
+
+// Passwordless sign-in (candidates)
+router.post("/magic-link", requestMagicLink);
+router.post("/magic-link/consume", consumeMagicLink);
+
+// Two-factor authentication (TOTP)
+router.post("/2fa/setup", requireAuth, setupTwoFactor);
+router.post("/2fa/enable", requireAuth, enableTwoFactor);
+router.post("/2fa/disable", requireAuth, disableTwoFactor);
+router.post("/2fa/recovery-codes", requireAuth, regenerateRecoveryCodes);
+
+// Passkeys (WebAuthn)
+router.post("/webauthn/login/options", webauthnLoginOptions);
+router.post("/webauthn/login/verify", webauthnLogin);
+router.post(
+  "/webauthn/register/options",
+  requireAuth,
+  passkeyRegistrationOptions,
+);
+router.post("/webauthn/register/verify", requireAuth, registerPasskey);
+router.get("/webauthn/credentials", requireAuth, listPasskeys);
+router.delete("/webauthn/credentials/:id", requireAuth, deletePasskey);
+
+// Sessions (signed-in devices)
+router.get("/sessions", requireAuth, listSessions);
+router.delete("/sessions", requireAuth, revokeOtherSessions);
+router.delete("/sessions/:id", requireAuth, revokeSessionById);
+
+// Admin
+router.post(
+  "/unlock",
+  requireAuth,
+  requirePermission("platform:admin"),
+  unlockAccount,
+);
+
+// OAuth (stateless — no sessions). The :provider routes must stay last so
+// they cannot shadow the fixed paths above.
+router.post("/oauth/exchange", oauthExchange);
+router.post("/oauth/link/email", sendOAuthLinkEmail);
+router.post("/oauth/link/confirm", confirmOAuthLink);
+router.get("/:provider", oauthAuthorize);
+router.get("/:provider/callback", oauthCallback);
 
 export default router;
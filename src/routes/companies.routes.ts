@@ -0,0 +1,53 @@
+import { Router } from "express";
+import {
+  getCompany,
+  updateCompany,
+  removeMember,
+} from "../controllers/companies.controller";
+import {
+  createInvitation,
+  listInvitations,
+  revokeInvitation,
+  resendInvitation,
+} from "../controllers/invitations.controller";
+import {
+  requireAuth,
+  requirePermission,
+  requireCompanyMember,
+} from "../middleware/auth.middleware";
+
+const router = Router();
+
+// Company admins only
+const companyAdmin = [
+  requireAuth,
+  requirePermission("company:manage"),
+  requireCompanyMember,
+];
+
+router.get("/:id", ...companyAdmin, getCompany);
+router.put("/:id", ...companyAdmin, updateCompany);
+
+// Team invitations and members (admins and managers)
+const teamManager = [
+  requireAuth,
+  requirePermission("team:manage"),
+  requireCompanyMember,
+];
+
+router.get("/:id/invitations", ...teamManager, listInvitations);
+router.post("/:id/invitations", ...teamManager, createInvitation);
+router.delete(
+  "/:id/invitations/:invitationId",
+  ...teamManager,
+  revokeInvitation,
+);
+router.post(
+  "/:id/invitations/:invitationId/resend",
+  ...teamManager,
+  resendInvitation,
+);
+
+router.delete("/:id/members/:userId", ...teamManager, removeMember);
+
+export default router;
@@ -1,2 +1,5 @@
 export { default as authRouter } from "./auth.routes";
 export { default as paymentsRouter } from "./payments.routes";
+export { default as companiesRouter } from "./companies.routes";
+export { default as adminRouter } from "./admin.routes";
+export { default as usersRouter } from "./users.routes";
@@ -10,7 +10,11 @@ import {
   createPortal,
   stripeWebhook,
 } from "../controllers/payments.controller";
-import { requireAuth } from "../middleware/auth.middleware";
+import {
+  requireAuth,
+  requireVerifiedEmail,
+  requirePermission,
+} from "../middleware/auth.middleware";
 
 const router = Router();
 
@@ -27,9 +31,10 @@ router.get("/candidate-packages", getCandidatePackages);
 
 // Auth-gated routes
 router.get("/subscription", requireAuth, getSubscription);
-router.post("/checkout", requireAuth, createCheckout);               // Vendor recurring
-router.post("/candidate-checkout", requireAuth, createCandidateCheckout); // Candidate one-time
-router.post("/marketer-checkout", requireAuth, createMarketerCheckout);   // Marketer recurring
-router.post("/portal", requireAuth, createPortal);                   // Billing portal
+const canManageBilling = requirePermission("billing:manage");
+router.post("/checkout", requireAuth, requireVerifiedEmail, canManageBilling, createCheckout);               // Vendor recurring
+router.post("/candidate-checkout", requireAuth, requireVerifiedEmail, createCandidateCheckout);              // Candidate one-time
+router.post("/marketer-checkout", requireAuth, requireVerifiedEmail, canManageBilling, createMarketerCheckout); // Marketer recurring
+router.post("/portal", requireAuth, canManageBilling, createPortal);                   // Billing portal
 
 export default router;
@@ -3,6 +3,24 @@ import {
   getPreferences,
   updatePreferences,
 } from "../controllers/preferences.controller";
+import {
+  listIdentities,
+  startIdentityLink,
+  unlinkIdentity,
+} from "../controllers/identities.controller";
+import {
+  getProfile,
+  updateProfile,
+  requestEmailChange,
+  confirmEmailChange,
+} from "../controllers/profile.controller";
+import { checkUsernameAvailability } from "../controllers/users.controller";
+import { listActivity } from "../controllers/activity.controller";
+import {
+  requestDataExport,
+  getDataExport,
+  downloadDataExport,
+} from "../controllers/data-export.controller";
 import { requireAuth } from "../middleware/auth.middleware";
 
 const router = Router();
@@ -10,4 +28,27 @@ const router = Router();
 router.get("/preferences", requireAuth, getPreferences);
 router.put("/preferences", requireAuth, updatePreferences);
 
+// Public — used by the sign-up form (rate limited per IP in app.ts)
+router.get("/username-available", checkUsernameAvailability);
+
+// Name, username and email. The confirm link works without a bearer header.
+router.get("/profile", requireAuth, getProfile);
+router.patch("/profile", requireAuth, updateProfile);
+router.post("/profile/email", requireAuth, requestEmailChange);
+router.post("/profile/email/confirm", confirmEmailChange);
+
+// Linked sign-in providers (Google, Microsoft, LinkedIn)
+router.get("/identities", requireAuth, listIdentities);
+router.post("/identities", requireAuth, startIdentityLink);
+router.delete("/identities/:id", requireAuth, unlinkIdentity);
+
+// Audit history of the user's own account
+router.get("/activity", requireAuth, listActivity);
+
+// Personal data export (ZIP of JSON + CSV). The download link carries its
+// own signed token instead of a bearer header.
+router.post("/export", requireAuth, requestDataExport);
+router.get("/export/:id", requireAuth, getDataExport);
+router.get("/export/:id/download", downloadDataExport);
+
 export default router;
@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { getPublicProfile } from "../controllers/users.controller";
+
+const router = Router();
+
+// Public profile cards (rate limited per IP in app.ts)
+router.get("/:username", getPublicProfile);
+
+export default router;
@@ -0,0 +1,297 @@
+/**
+ * auth-check.ts — runs the sign-in throttle and OAuth state handling
+ * against their in-memory stores with a fake clock, so no database or
+ * waiting is needed.
+ *
+ * Covers the free failures, the doubling backoff and its cap, the account
+ * lockout (and when it ends), the looser per-IP limits, and the resets done
+ * by a successful sign-in and by an admin unlock. OAuth states must be
+ * single-use, bound to the browser that started the flow and to its
+ * provider, and expire; so must the one-time codes exchanged for tokens,
+ * which also only work with the state they were issued for.
+ *
+ * Usage:  npm run auth:check
+ */
+import assert from "node:assert/strict";
+import { Request, Response } from "express";
+import {
+  DEFAULT_THROTTLE_POLICY,
+  LoginThrottle,
+  MemoryLoginAttemptStore,
+} from "../services/login-throttle.service";
+import {
+  MemoryOAuthStateStore,
+  OAuthStateService,
+} from "../services/oauth-state.service";
+
+const { account: ACCOUNT, ip: IP } = DEFAULT_THROTTLE_POLICY;
+
+class FakeClock {
+  private time = new Date("2026-01-01T00:00:00Z").getTime();
+
+  readonly now = () => new Date(this.time);
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+function throttleWithClock(): { throttle: LoginThrottle; clock: FakeClock } {
+  const clock = new FakeClock();
+  const throttle = new LoginThrottle(
+    new MemoryLoginAttemptStore(),
+    DEFAULT_THROTTLE_POLICY,
+    clock.now,
+  );
+  return { throttle, clock };
+}
+
+/** Just the parts of a response the state service touches. */
+function fakeResponse(): { res: Response; cookies: Map<string, string> } {
+  const cookies = new Map<string, string>();
+  const res = {
+    cookie(name: string, value: string) {
+      cookies.set(name, value);
+      return res;
+    },
+    clearCookie(name: string) {
+      cookies.delete(name);
+      return res;
+    },
+  };
+  return { res: res as unknown as Response, cookies };
+}
+
+/** The provider's redirect back, sent with the browser's cookies. */
+function callback(state: string, cookies: Map<string, string>): Request {
+  const cookie = [...cookies].map(([k, v]) => `${k}=${v}`).join("; ");
+  return {
+    query: { state },
+    headers: cookie ? { cookie } : {},
+  } as unknown as Request;
+}
+
+// ─── Checks ───────────────────────────────────────────────────────────────────
+
+async function accountBackoffAndLockout(): Promise<void> {
+  const { throttle, clock } = throttleWithClock();
+  const email = "victim@example.com";
+
+  for (let i = 0; i < ACCOUNT.freeFailures; i++) {
+    await throttle.recordFailure(email, null);
+  }
+  assert.deepEqual(await throttle.check(email, null), { allowed: true });
+
+  // Each further failure doubles the wait, up to the cap
+  let expectedDelay = ACCOUNT.baseDelayMs;
+  for (let i = ACCOUNT.freeFailures; i < ACCOUNT.lockThreshold - 1; i++) {
+    const outcome = await throttle.recordFailure(email, null);
+    assert.equal(outcome.accountLocked, false);
+    assert.deepEqual(await throttle.check(email, null), {
+      allowed: false,
+      reason: "backoff",
+      retryAfterSeconds: Math.ceil(expectedDelay / 1000),
+    });
+    clock.advance(expectedDelay);
+    assert.deepEqual(await throttle.check(email, null), { allowed: true });
+    expectedDelay = Math.min(expectedDelay * 2, ACCOUNT.maxDelayMs);
+  }
+
+  // Addresses are matched case-insensitively
+  const outcome = await throttle.recordFailure(" Victim@Example.com", null);
+  assert.equal(outcome.accountLocked, true);
+  assert.equal(outcome.accountFailures, ACCOUNT.lockThreshold);
+  assert.deepEqual(await throttle.check(email, null), {
+    allowed: false,
+    reason: "locked",
+    retryAfterSeconds: ACCOUNT.lockDurationMs / 1000,
+  });
+
+  clock.advance(ACCOUNT.lockDurationMs);
+  assert.deepEqual(await throttle.check(email, null), { allowed: true });
+
+  // A failure after the quiet window starts the count over
+  clock.advance(ACCOUNT.windowMs + 1);
+  const fresh = await throttle.recordFailure(email, null);
+  assert.equal(fresh.accountFailures, 1);
+}
+
+async function ipLimits(): Promise<void> {
+  const { throttle } = throttleWithClock();
+  const ip = "203.0.113.7";
+
+  // Spread over many accounts so only the IP counter builds up
+  for (let i = 0; i < IP.freeFailures; i++) {
+    await throttle.recordFailure(`user${i}@example.com`, ip);
+  }
+  assert.deepEqual(await throttle.check("someone@example.com", ip), {
+    allowed: true,
+  });
+  await throttle.recordFailure("another@example.com", ip);
+  const decision = await throttle.check("someone@example.com", ip);
+  assert.equal(decision.allowed, false);
+  assert.deepEqual(
+    await throttle.check("someone@example.com", "198.51.100.1"),
+    { allowed: true },
+  );
+
+  // Signing in clears the account, not the IP
+  await throttle.recordSuccess("another@example.com");
+  const stillBlocked = await throttle.check("another@example.com", ip);
+  assert.equal(stillBlocked.allowed, false);
+
+  await throttle.unlock("another@example.com", ip);
+  assert.deepEqual(await throttle.check("another@example.com", ip), {
+    allowed: true,
+  });
+}
+
+async function successResets(): Promise<void> {
+  const { throttle } = throttleWithClock();
+  const email = "forgetful@example.com";
+
+  for (let i = 0; i <= ACCOUNT.freeFailures; i++) {
+    await throttle.recordFailure(email, null);
+  }
+  assert.equal((await throttle.check(email, null)).allowed, false);
+  await throttle.recordSuccess(email);
+  assert.deepEqual(await throttle.check(email, null), { allowed: true });
+  const outcome = await throttle.recordFailure(email, null);
+  assert.equal(outcome.accountFailures, 1);
+}
+
+async function oauthStates(): Promise<void> {
+  const clock = new FakeClock();
+  const states = new OAuthStateService(new MemoryOAuthStateStore(), clock.now);
+  const params = {
+    provider: "google",
+    userType: "candidate" as const,
+    redirectPath: "/jobs?page=2",
+  };
+
+  const browser = fakeResponse();
+  const state = await states.begin(browser.res, params);
+  const cookies = new Map(browser.cookies);
+  const record = await states.complete(
+    callback(state, cookies),
+    fakeResponse().res,
+    "google",
+  );
+  assert.equal(record?.state, state);
+  assert.equal(record?.redirectPath, "/jobs?page=2");
+  assert.equal(
+    await states.complete(
+      callback(state, cookies),
+      fakeResponse().res,
+      "google",
+    ),
+    null,
+    "replayed state",
+  );
+
+  // Lifted from the URL and completed in another browser
+  const victim = fakeResponse();
+  const lifted = await states.begin(victim.res, params);
+  const attacker = fakeResponse();
+  await states.begin(attacker.res, params);
+  assert.equal(
+    await states.complete(
+      callback(lifted, new Map(attacker.cookies)),
+      fakeResponse().res,
+      "google",
+    ),
+    null,
+    "state with another browser's binding",
+  );
+  assert.equal(
+    await states.complete(
+      callback(lifted, new Map()),
+      fakeResponse().res,
+      "google",
+    ),
+    null,
+    "state without a binding cookie",
+  );
+
+  const wrongProvider = fakeResponse();
+  const forGoogle = await states.begin(wrongProvider.res, params);
+  assert.equal(
+    await states.complete(
+      callback(forGoogle, new Map(wrongProvider.cookies)),
+      fakeResponse().res,
+      "microsoft",
+    ),
+    null,
+    "state for another provider",
+  );
+
+  const slow = fakeResponse();
+  const expiring = await states.begin(slow.res, params);
+  clock.advance(10 * 60 * 1000);
+  assert.equal(
+    await states.complete(
+      callback(expiring, new Map(slow.cookies)),
+      fakeResponse().res,
+      "google",
+    ),
+    null,
+    "expired state",
+  );
+}
+
+async function oauthCodes(): Promise<void> {
+  const clock = new FakeClock();
+  const states = new OAuthStateService(new MemoryOAuthStateStore(), clock.now);
+  const browser = fakeResponse();
+  const state = await states.begin(browser.res, {
+    provider: "google",
+    userType: "candidate",
+    redirectPath: "/",
+  });
+  const record = await states.complete(
+    callback(state, new Map(browser.cookies)),
+    fakeResponse().res,
+    "google",
+  );
+  assert.ok(record);
+
+  const code = await states.issueCode("user-1", record);
+  assert.equal(await states.redeemCode(code, state), "user-1");
+  assert.equal(await states.redeemCode(code, state), null, "replayed code");
+
+  const stolen = await states.issueCode("user-1", record);
+  assert.equal(
+    await states.redeemCode(stolen, "another-state"),
+    null,
+    "code with another state",
+  );
+  assert.equal(
+    await states.redeemCode(stolen, state),
+    null,
+    "code consumed by the failed attempt",
+  );
+
+  const late = await states.issueCode("user-1", record);
+  clock.advance(60 * 1000);
+  assert.equal(await states.redeemCode(late, state), null, "expired code");
+}
+
+async function main() {
+  console.log("🔒 Checking sign-in protections with in-memory stores...\n");
+  await accountBackoffAndLockout();
+  console.log("  ✓ Account backoff doubles, locks out and recovers");
+  await ipLimits();
+  console.log("  ✓ IP limits apply across accounts");
+  await successResets();
+  console.log("  ✓ Successful sign-in clears the account counter");
+  await oauthStates();
+  console.log("  ✓ OAuth states are single-use, browser-bound and expire");
+  await oauthCodes();
+  console.log("  ✓ OAuth codes are single-use, state-bound and expire");
+  console.log("\n✅ Auth checks passed!\n");
+}
+
+main().catch((err) => {
+  console.error("Auth check failed:", err);
+  process.exit(1);
+});
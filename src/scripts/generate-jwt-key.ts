@@ -0,0 +1,27 @@
+/**
+ * generate-jwt-key.ts — prints a new access-token signing key as a
+ * JWT_SIGNING_KEYS entry. Append it to the existing array, then point
+ * JWT_ACTIVE_KID at it once every instance has the new config.
+ *
+ * Usage:  npm run keys:generate [-- RS256|ES256]
+ */
+import crypto from "node:crypto";
+
+const alg = process.argv[2] === "RS256" ? "RS256" : "ES256";
+
+const { privateKey } =
+  alg === "RS256"
+    ? crypto.generateKeyPairSync("rsa", { modulusLength: 2048 })
+    : crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+
+const kid = `${alg.toLowerCase()}-${new Date().toISOString().slice(0, 10)}-${crypto
+  .randomBytes(3)
+  .toString("hex")}`;
+
+console.log(
+  JSON.stringify({
+    kid,
+    alg,
+    privateKey: privateKey.export({ format: "pem", type: "pkcs8" }).toString(),
+  }),
+);
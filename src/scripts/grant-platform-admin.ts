@@ -0,0 +1,64 @@
+/**
+ * grant-platform-admin.ts — gives an account the platform_admin role (the
+ * admin console at /api/admin and POST /api/auth/unlock), or takes it away.
+ *
+ * The role is never granted through the API. The account must be active and
+ * have verified its email address. Access follows the stored role at once —
+ * requirePermission() re-reads it on every request.
+ *
+ * Usage:  npm run admin:grant -- <email> [--revoke]
+ */
+import { connectMongo, disconnectMongo } from "../config/mongoose";
+import { User } from "../models";
+import { Role, rolesFor } from "../config/roles";
+import { recordAuditEvent } from "../services/audit.service";
+
+async function grant() {
+  const args = process.argv.slice(2);
+  const revoke = args.includes("--revoke");
+  const email = args.find((a) => !a.startsWith("--"))?.trim().toLowerCase();
+  if (!email) {
+    console.error("Usage: npm run admin:grant -- <email> [--revoke]");
+    process.exit(1);
+  }
+
+  await connectMongo();
+
+  const user = await User.findOne({ email });
+  if (!user) {
+    throw new Error(`No account for ${email}`);
+  }
+  if (!revoke && (!user.isActive || !user.emailVerified)) {
+    throw new Error(`${email} must be active and verified first`);
+  }
+
+  const before = rolesFor(user);
+  const roles: Role[] = before.filter((r) => r !== "platform_admin");
+  if (!revoke) roles.push("platform_admin");
+  if (roles.length === before.length && roles.every((r, i) => r === before[i])) {
+    console.log(`  ✓ ${email} unchanged`);
+    await disconnectMongo();
+    return;
+  }
+
+  user.roles = roles;
+  await user.save();
+  await recordAuditEvent(null, "admin.platform_role_changed", {
+    actor: null,
+    targetUserId: user._id,
+    before: { roles: before },
+    after: { roles },
+  });
+
+  console.log(
+    revoke
+      ? `  ✓ Revoked platform admin from ${email}`
+      : `  ✓ Granted platform admin to ${email}`,
+  );
+  await disconnectMongo();
+}
+
+grant().catch((err) => {
+  console.error("Grant failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+/**
+ * migrate-companies.ts — one-off migration that gives every employer who
+ * predates companies a company of their own and moves their subscription
+ * from the user onto that company.
+ *
+ * Existing employers become the admin of a single-member company; colleagues
+ * are not grouped automatically (email domains are not a reliable signal)
+ * and have to be invited into the right company afterwards.
+ *
+ * Safe to re-run: employers that already have a company are skipped.
+ *
+ * Usage:  npm run migrate:companies
+ */
+import { connectMongo, disconnectMongo } from "../config/mongoose";
+import { Company, Subscription, User } from "../models";
+
+async function migrate() {
+  await connectMongo();
+  console.log("🏢 Creating companies for existing employers...\n");
+
+  await Subscription.syncIndexes();
+
+  const employers = User.find({
+    userType: "employer",
+    companyId: { $in: [null, ""] },
+  });
+
+  let created = 0;
+  for await (const user of employers) {
+    const domain = user.email.split("@")[1] ?? "";
+    const company = await Company.create({
+      name: domain.split(".")[0] || user.email,
+      ownerId: user._id,
+    });
+
+    user.companyId = company._id;
+    if (!user.roles?.length) user.roles = ["admin"];
+    await user.save();
+
+    const moved = await Subscription.updateOne(
+      { userId: user._id },
+      { $set: { companyId: company._id, userId: null } },
+    );
+    if (moved.matchedCount === 0) {
+      await Subscription.create({
+        companyId: company._id,
+        plan: "free",
+        status: "active",
+      });
+    }
+    created++;
+  }
+  console.log(`  ✓ Created ${created} companies`);
+
+  console.log("\n✅ Company migration complete!\n");
+  await disconnectMongo();
+}
+
+migrate().catch((err) => {
+  console.error("Migration failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+/**
+ * migrate-email-verified.ts — one-off migration that marks accounts created
+ * before email verification existed as verified, so checkout
+ * (requireVerifiedEmail) keeps working for them.
+ *
+ * Accounts with no stored `emailVerified` are grandfathered. Pass --before
+ * with the date verification was deployed to also cover older accounts that
+ * were saved since and picked up the false default.
+ *
+ * Safe to re-run: verified accounts are skipped.
+ *
+ * Usage:  npm run migrate:email-verified [-- --before 2026-01-31]
+ */
+import mongoose from "mongoose";
+import { connectMongo, disconnectMongo } from "../config/mongoose";
+
+interface StoredUser {
+  _id: string;
+  emailVerified?: boolean;
+  createdAt?: Date;
+}
+
+function beforeArg(): Date | null {
+  const index = process.argv.indexOf("--before");
+  if (index === -1) return null;
+  const date = new Date(process.argv[index + 1] ?? "");
+  if (Number.isNaN(date.getTime())) {
+    throw new Error("--before needs a date, e.g. --before 2026-01-31");
+  }
+  return date;
+}
+
+async function migrate() {
+  const before = beforeArg();
+  await connectMongo();
+  console.log("✉️  Grandfathering email verification...\n");
+
+  // The raw collection sees which documents actually store the field —
+  // Mongoose would fill in the false default
+  const collection = mongoose.connection.collection<StoredUser>("users");
+  const filter = before
+    ? {
+        $or: [
+          { emailVerified: { $exists: false } },
+          { emailVerified: false, createdAt: { $lt: before } },
+        ],
+      }
+    : { emailVerified: { $exists: false } };
+
+  const result = await collection.updateMany(filter, {
+    $set: { emailVerified: true, emailVerifiedAt: new Date() },
+  });
+  console.log(`  ✓ Marked ${result.modifiedCount} accounts verified`);
+
+  console.log("\n✅ Email verification migration complete!\n");
+  await disconnectMongo();
+}
+
+migrate().catch((err) => {
+  console.error("Migration failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+/**
+ * migrate-lowercase-emails.ts — one-off migration that lowercases the email
+ * (and pending email) of users stored with mixed case before addresses were
+ * normalized on write.
+ *
+ * Accounts whose lowercased address already belongs to another user are
+ * listed and left alone — merge or rename them by hand, then re-run.
+ *
+ * Safe to re-run: already-lowercase addresses are skipped.
+ *
+ * Usage:  npm run migrate:lowercase-emails
+ */
+import mongoose from "mongoose";
+import { connectMongo, disconnectMongo } from "../config/mongoose";
+
+interface StoredUser {
+  _id: string;
+  email: string;
+  pendingEmail?: string | null;
+}
+
+async function migrate() {
+  await connectMongo();
+  console.log("📧 Lowercasing user email addresses...\n");
+
+  // The raw collection bypasses the schema's lowercase setter, which would
+  // otherwise rewrite the filters below
+  const collection = mongoose.connection.collection<StoredUser>("users");
+  const users = collection.find({ email: /[A-Z\s]/ });
+
+  let updated = 0;
+  const conflicts: string[] = [];
+  for await (const user of users) {
+    const email = user.email.trim().toLowerCase();
+    const clash = await collection.findOne({
+      email,
+      _id: { $ne: user._id },
+    });
+    if (clash) {
+      conflicts.push(`${user.email} (${user._id}) clashes with ${clash._id}`);
+      continue;
+    }
+    await collection.updateOne({ _id: user._id }, { $set: { email } });
+    updated++;
+  }
+
+  const pending = collection.find({ pendingEmail: /[A-Z\s]/ });
+  for await (const user of pending) {
+    await collection.updateOne(
+      { _id: user._id },
+      { $set: { pendingEmail: user.pendingEmail!.trim().toLowerCase() } },
+    );
+  }
+
+  console.log(`  ✓ Lowercased ${updated} email addresses`);
+  if (conflicts.length) {
+    console.log(`  ⚠ ${conflicts.length} left unchanged (duplicates):`);
+    for (const line of conflicts) console.log(`    - ${line}`);
+  }
+
+  console.log("\n✅ Email migration complete!\n");
+  await disconnectMongo();
+}
+
+migrate().catch((err) => {
+  console.error("Migration failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+/**
+ * migrate-oauth-identities.ts — one-off migration that moves users.googleId
+ * into the useridentities collection.
+ *
+ * Safe to re-run: identities that already exist are left alone.
+ *
+ * Usage:  npm run migrate:oauth-identities
+ */
+import { mongo, Types } from "mongoose";
+import { connectMongo, disconnectMongo } from "../config/mongoose";
+import { User, UserIdentity } from "../models";
+
+interface LegacyUser {
+  _id: string;
+  email: string;
+  googleId?: string | null;
+}
+
+async function migrate() {
+  await connectMongo();
+  console.log("🔗 Moving Google ids to linked identities...\n");
+
+  // Raw driver access: googleId is no longer part of the User schema
+  const collection =
+    User.collection as unknown as mongo.Collection<LegacyUser>;
+  const legacy = collection.find(
+    { googleId: { $type: "string", $ne: "" } },
+    { projection: { email: 1, googleId: 1 } },
+  );
+
+  let linked = 0;
+  for await (const doc of legacy) {
+    if (!doc.googleId) continue;
+    const result = await UserIdentity.updateOne(
+      { provider: "google", subject: doc.googleId },
+      {
+        $setOnInsert: {
+          _id: new Types.ObjectId().toString(),
+          userId: doc._id,
+          provider: "google",
+          subject: doc.googleId,
+          email: doc.email,
+        },
+      },
+      { upsert: true },
+    );
+    if (result.upsertedCount) linked++;
+  }
+  console.log(`  ✓ Linked ${linked} Google identities`);
+
+  const cleared = await collection.updateMany(
+    { googleId: { $exists: true } },
+    { $unset: { googleId: "" } },
+  );
+  console.log(`  ✓ Removed googleId from ${cleared.modifiedCount} users`);
+
+  // Drops the old unique { googleId: 1 } index
+  const dropped = await User.syncIndexes();
+  await UserIdentity.syncIndexes();
+  console.log(`  ✓ Indexes synced (dropped: ${dropped.join(", ") || "none"})`);
+
+  console.log("\n✅ OAuth identity migration complete!\n");
+  await disconnectMongo();
+}
+
+migrate().catch((err) => {
+  console.error("Migration failed:", err);
+  process.exit(1);
+});
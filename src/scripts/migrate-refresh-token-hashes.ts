@@ -0,0 +1,75 @@
+/**
+ * migrate-refresh-token-hashes.ts — one-off migration that converts stored
+ * refresh tokens from raw JWTs to { tokenId, tokenHash }.
+ *
+ * Safe to re-run: documents that are already hashed are skipped.
+ *
+ * Usage:  npm run migrate:refresh-tokens
+ */
+import jwt from "jsonwebtoken";
+import { mongo } from "mongoose";
+import { connectMongo, disconnectMongo } from "../config/mongoose";
+import { RefreshToken } from "../models";
+import { RefreshTokenPayload } from "../services/jwt.service";
+import { hashToken } from "../services/token.service";
+
+interface LegacyRefreshToken {
+  _id: string;
+  token: string;
+}
+
+async function migrate() {
+  await connectMongo();
+  console.log("🔐 Hashing stored refresh tokens...\n");
+
+  const collection =
+    RefreshToken.collection as unknown as mongo.Collection<LegacyRefreshToken>;
+
+  const expired = await collection.deleteMany({
+    expiresAt: { $lt: new Date() },
+  });
+  console.log(`  ✓ Removed ${expired.deletedCount} expired tokens`);
+
+  const legacy = collection.find(
+    { token: { $exists: true } },
+    { projection: { token: 1 } },
+  );
+
+  // Raw driver writes: Mongoose strict mode would strip the legacy `token` path
+  const ops: mongo.AnyBulkWriteOperation<LegacyRefreshToken>[] = [];
+  let converted = 0;
+  let discarded = 0;
+  for await (const doc of legacy) {
+    const payload = jwt.decode(doc.token) as Partial<RefreshTokenPayload> | null;
+    if (!payload?.tokenId) {
+      ops.push({ deleteOne: { filter: { _id: doc._id } } });
+      discarded++;
+      continue;
+    }
+    ops.push({
+      updateOne: {
+        filter: { _id: doc._id },
+        update: {
+          $set: { tokenId: payload.tokenId, tokenHash: hashToken(doc.token) },
+          $unset: { token: "" },
+        },
+      },
+    });
+    converted++;
+  }
+
+  if (ops.length > 0) await collection.bulkWrite(ops);
+  console.log(`  ✓ Hashed ${converted} tokens, discarded ${discarded} malformed`);
+
+  // Drops the old unique { token: 1 } index and builds the new ones
+  const dropped = await RefreshToken.syncIndexes();
+  console.log(`  ✓ Indexes synced (dropped: ${dropped.join(", ") || "none"})`);
+
+  console.log("\n✅ Refresh token migration complete!\n");
+  await disconnectMongo();
+}
+
+migrate().catch((err) => {
+  console.error("Migration failed:", err);
+  process.exit(1);
+});
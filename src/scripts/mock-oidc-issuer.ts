@@ -0,0 +1,101 @@
+/**
+ * mock-oidc-issuer.ts — a tiny OpenID Connect issuer for local testing of
+ * every OAuth provider (Google, Microsoft, LinkedIn) without real accounts.
+ *
+ * /authorize signs the user in immediately and redirects back with a code;
+ * no consent screen. The signed-in identity comes from the `login_hint`
+ * query param (an email) or MOCK_OIDC_EMAIL; add `email_verified=false` to
+ * the authorize URL to simulate an unverified address.
+ *
+ * Usage:
+ *   npm run oidc:mock                     # listens on :9400
+ *   OAUTH_MOCK_ISSUER=http://localhost:9400 npm run dev
+ *   open http://localhost:8000/api/auth/microsoft?userType=employer
+ */
+import crypto from "node:crypto";
+import express from "express";
+
+const PORT = Number.parseInt(process.env.MOCK_OIDC_PORT || "9400", 10);
+const ISSUER = `http://localhost:${PORT}`;
+const DEFAULT_EMAIL = process.env.MOCK_OIDC_EMAIL || "mock.user@example.com";
+
+interface MockClaims {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  given_name: string;
+  family_name: string;
+}
+
+const codes = new Map<string, MockClaims>();
+const accessTokens = new Map<string, MockClaims>();
+
+function claimsFor(email: string, emailVerified: boolean): MockClaims {
+  const [local] = email.split("@");
+  const [given, family = "User"] = local.split(/[._-]/);
+  const cap = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+  return {
+    // Stable per email so repeated sign-ins hit the same linked identity
+    sub: crypto.createHash("sha256").update(email).digest("hex").slice(0, 24),
+    email,
+    email_verified: emailVerified,
+    given_name: cap(given),
+    family_name: cap(family),
+  };
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (_req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    response_types_supported: ["code"],
+    scopes_supported: ["openid", "email", "profile"],
+  });
+});
+
+app.get("/authorize", (req, res) => {
+  const redirectUri = String(req.query.redirect_uri || "");
+  if (!redirectUri) {
+    res.status(400).send("redirect_uri is required");
+    return;
+  }
+  const email = String(req.query.login_hint || DEFAULT_EMAIL);
+  const code = crypto.randomBytes(16).toString("hex");
+  codes.set(code, claimsFor(email, req.query.email_verified !== "false"));
+
+  const target = new URL(redirectUri);
+  target.searchParams.set("code", code);
+  if (req.query.state) target.searchParams.set("state", String(req.query.state));
+  res.redirect(target.toString());
+});
+
+app.post("/token", (req, res) => {
+  const claims = codes.get(String(req.body.code || ""));
+  codes.delete(String(req.body.code || ""));
+  if (!claims) {
+    res.status(400).json({ error: "invalid_grant" });
+    return;
+  }
+  const accessToken = crypto.randomBytes(16).toString("hex");
+  accessTokens.set(accessToken, claims);
+  res.json({ access_token: accessToken, token_type: "Bearer", expires_in: 300 });
+});
+
+app.get("/userinfo", (req, res) => {
+  const token = (req.headers.authorization || "").replace(/^Bearer /, "");
+  const claims = accessTokens.get(token);
+  if (!claims) {
+    res.status(401).json({ error: "invalid_token" });
+    return;
+  }
+  res.json(claims);
+});
+
+app.listen(PORT, () => {
+  console.log(`🧪 Mock OIDC issuer listening on ${ISSUER}`);
+});
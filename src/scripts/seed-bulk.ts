@@ -195,6 +195,8 @@ async function seedBulk() {
       lastName,
       userType: "candidate" as const,
       isActive: true,
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
       hasPurchasedVisibility: vis,
     })),
   );
@@ -2,7 +2,13 @@ import mongoose from "mongoose";
 import bcrypt from "bcryptjs";
 import { randomUUID } from "node:crypto";
 import { connectMongo, disconnectMongo } from "../config/mongoose";
-import { User, Subscription, RefreshToken, CandidatePayment } from "../models";
+import {
+  User,
+  Company,
+  Subscription,
+  RefreshToken,
+  CandidatePayment,
+} from "../models";
 
 /* ------------------------------------------------------------------ */
 /*  Deterministic IDs — shared with jobs-services seed                 */
@@ -78,6 +84,17 @@ const HE3 = "hteee003-0003-0003-0003-hteee0030003";
 const HE4 = "hteee004-0004-0004-0004-hteee0040004";
 const HE5 = "hteee005-0005-0005-0005-hteee0050005";
 
+// ── Companies (employers share their company's subscription) ──
+const CO_VENDOR = "cocococo-0001-0001-0001-cocococococo";
+const CO_MARKETER = "cocococo-0002-0002-0002-cocococococo";
+const CO_EMPLOYER = "cocococo-0003-0003-0003-cocococococo";
+const CO_V2 = "cocococo-0004-0004-0004-cocococococo";
+const CO_V3 = "cocococo-0005-0005-0005-cocococococo";
+const CO_DELTA = "cocococo-0006-0006-0006-cocococococo";
+const CO_EPSILON = "cocococo-0007-0007-0007-cocococococo";
+const CO_ZETA = "cocococo-0008-0008-0008-cocococococo";
+const CO_ETA = "cocococo-0009-0009-0009-cocococococo";
+
 const oid = () => new mongoose.Types.ObjectId().toString();
 
 async function seed() {
@@ -91,6 +108,7 @@ async function seed() {
   );
   for (const name of [
     "users",
+    "companies",
     "subscriptions",
     "refreshtokens",
     "candidatepayments",
@@ -99,6 +117,7 @@ async function seed() {
   }
   await Promise.all([
     User.createCollection(),
+    Company.createCollection(),
     Subscription.createCollection(),
     RefreshToken.createCollection(),
     CandidatePayment.createCollection(),
@@ -314,6 +333,7 @@ async function seed() {
       firstName: "Dana",
       lastName: "Manager",
       userType: "employer",
+      roles: ["manager"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -325,6 +345,7 @@ async function seed() {
       firstName: "Derek",
       lastName: "Vendor",
       userType: "employer",
+      roles: ["vendor"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -336,6 +357,7 @@ async function seed() {
       firstName: "Donna",
       lastName: "Accounts",
       userType: "employer",
+      roles: ["marketer_accounts"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -347,6 +369,7 @@ async function seed() {
       firstName: "Dylan",
       lastName: "Immigration",
       userType: "employer",
+      roles: ["marketer_immigration"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -358,6 +381,7 @@ async function seed() {
       firstName: "Diana",
       lastName: "Placement",
       userType: "employer",
+      roles: ["marketer_placement"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -382,6 +406,7 @@ async function seed() {
       firstName: "Eva",
       lastName: "Manager",
       userType: "employer",
+      roles: ["manager"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -393,6 +418,7 @@ async function seed() {
       firstName: "Ethan",
       lastName: "Vendor",
       userType: "employer",
+      roles: ["vendor"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -404,6 +430,7 @@ async function seed() {
       firstName: "Ellen",
       lastName: "Accounts",
       userType: "employer",
+      roles: ["marketer_accounts"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -415,6 +442,7 @@ async function seed() {
       firstName: "Erik",
       lastName: "Immigration",
       userType: "employer",
+      roles: ["marketer_immigration"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -426,6 +454,7 @@ async function seed() {
       firstName: "Elise",
       lastName: "Placement",
       userType: "employer",
+      roles: ["marketer_placement"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -450,6 +479,7 @@ async function seed() {
       firstName: "Zara",
       lastName: "Manager",
       userType: "employer",
+      roles: ["manager"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -461,6 +491,7 @@ async function seed() {
       firstName: "Zach",
       lastName: "Vendor",
       userType: "employer",
+      roles: ["vendor"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -472,6 +503,7 @@ async function seed() {
       firstName: "Zoe",
       lastName: "Accounts",
       userType: "employer",
+      roles: ["marketer_accounts"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -483,6 +515,7 @@ async function seed() {
       firstName: "Zane",
       lastName: "Immigration",
       userType: "employer",
+      roles: ["marketer_immigration"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -494,6 +527,7 @@ async function seed() {
       firstName: "Zelda",
       lastName: "Placement",
       userType: "employer",
+      roles: ["marketer_placement"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -518,6 +552,7 @@ async function seed() {
       firstName: "Hannah",
       lastName: "Manager",
       userType: "employer",
+      roles: ["manager"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -529,6 +564,7 @@ async function seed() {
       firstName: "Henry",
       lastName: "Vendor",
       userType: "employer",
+      roles: ["vendor"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -540,6 +576,7 @@ async function seed() {
       firstName: "Hazel",
       lastName: "Accounts",
       userType: "employer",
+      roles: ["marketer_accounts"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -551,6 +588,7 @@ async function seed() {
       firstName: "Hugo",
       lastName: "Immigration",
       userType: "employer",
+      roles: ["marketer_immigration"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -562,6 +600,7 @@ async function seed() {
       firstName: "Helena",
       lastName: "Placement",
       userType: "employer",
+      roles: ["marketer_placement"],
       isActive: true,
       hasPurchasedVisibility: false,
     },
@@ -678,70 +717,117 @@ async function seed() {
       hasPurchasedVisibility: false,
     },
   ]);
+  // Seeded accounts are pre-verified so checkout works out of the box
+  await User.updateMany(
+    {},
+    { emailVerified: true, emailVerifiedAt: new Date() },
+  );
   console.log(`  ✓ Created ${users.length} users`);
 
-  // ─── Subscriptions ───────────────────────────────────────
+  // ─── Companies ────────────────────────────────────────────
   const oneYearFromNow = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
-  const subData = users.map((u) => {
-    const base: {
-      _id: string;
-      userId: string;
-      plan: string;
-      status: string;
-      currentPeriodEnd: Date | null;
-    } = {
-      _id: oid(),
-      userId: u._id,
+  const companyData: Array<{
+    _id: string;
+    name: string;
+    ownerId: string;
+    members: string[];
+    plan: string;
+  }> = [
+    {
+      _id: CO_VENDOR,
+      name: "Admin Vendor",
+      ownerId: ADMIN_VENDOR_ID,
+      members: [ADMIN_VENDOR_ID],
+      plan: "pro_plus",
+    },
+    {
+      _id: CO_MARKETER,
+      name: "Admin Marketer",
+      ownerId: ADMIN_MARKETER_ID,
+      members: [ADMIN_MARKETER_ID],
+      plan: "pro_plus",
+    },
+    {
+      _id: CO_EMPLOYER,
+      name: "Admin Employer",
+      ownerId: ADMIN_EMPLOYER_ID,
+      members: [ADMIN_EMPLOYER_ID],
+      plan: "pro_plus",
+    },
+    {
+      _id: CO_V2,
+      name: "Miller Staffing",
+      ownerId: V2,
+      members: [V2],
+      plan: "pro",
+    },
+    {
+      _id: CO_V3,
+      name: "Lee Consulting",
+      ownerId: V3,
+      members: [V3],
+      plan: "basic",
+    },
+    {
+      _id: CO_DELTA,
+      name: "Delta Solutions",
+      ownerId: ADMIN_DELTA,
+      members: [ADMIN_DELTA, DE1, DE2, DE3, DE4, DE5],
       plan: "free",
+    },
+    {
+      _id: CO_EPSILON,
+      name: "Epsilon Tech",
+      ownerId: ADMIN_EPSILON,
+      members: [ADMIN_EPSILON, EE1, EE2, EE3, EE4, EE5],
+      plan: "basic",
+    },
+    {
+      _id: CO_ZETA,
+      name: "Zeta Corp",
+      ownerId: ADMIN_ZETA,
+      members: [ADMIN_ZETA, ZE1, ZE2, ZE3, ZE4, ZE5],
+      plan: "pro",
+    },
+    {
+      _id: CO_ETA,
+      name: "Eta Industries",
+      ownerId: ADMIN_ETA,
+      members: [ADMIN_ETA, HE1, HE2, HE3, HE4, HE5],
+      plan: "pro_plus",
+    },
+  ];
+  const companies = await Company.insertMany(
+    companyData.map(({ _id, name, ownerId }) => ({ _id, name, ownerId })),
+  );
+  for (const c of companyData) {
+    await User.updateMany({ _id: { $in: c.members } }, { companyId: c._id });
+  }
+  console.log(`  ✓ Created ${companies.length} companies`);
+
+  // ─── Subscriptions ───────────────────────────────────────
+  const companyMembers = new Set(companyData.flatMap((c) => c.members));
+  const subData = [
+    ...companyData.map((c) => ({
+      _id: oid(),
+      companyId: c._id,
+      plan: c.plan,
       status: "active",
-      currentPeriodEnd: null,
-    };
-    // Admin accounts get top-tier plans
-    if (u._id === ADMIN_VENDOR_ID) {
-      base.plan = "pro_plus";
-      base.currentPeriodEnd = oneYearFromNow;
-    }
-    if (u._id === ADMIN_MARKETER_ID) {
-      base.plan = "pro_plus";
-      base.currentPeriodEnd = oneYearFromNow;
-    }
-    if (u._id === ADMIN_MARKETER2_ID) {
-      base.plan = "pro_plus";
-      base.currentPeriodEnd = oneYearFromNow;
-    }
-    // Other vendors
-    if (u._id === V2) {
-      base.plan = "pro";
-      base.currentPeriodEnd = oneYearFromNow;
-    }
-    if (u._id === V3) {
-      base.plan = "basic";
-      base.currentPeriodEnd = oneYearFromNow;
-    }
-    // Employer gets top-tier plan
-    if (u._id === ADMIN_EMPLOYER_ID) {
-      base.plan = "pro_plus";
-      base.currentPeriodEnd = oneYearFromNow;
-    }
-    // Delta Solutions — Free plan (all employees stay free)
-    // (no override needed, default is "free")
-    // Epsilon Tech — Basic plan
-    if ([ADMIN_EPSILON, EE1, EE2, EE3, EE4, EE5].includes(u._id)) {
-      base.plan = "basic";
-      base.currentPeriodEnd = oneYearFromNow;
-    }
-    // Zeta Corp — Pro plan
-    if ([ADMIN_ZETA, ZE1, ZE2, ZE3, ZE4, ZE5].includes(u._id)) {
-      base.plan = "pro";
-      base.currentPeriodEnd = oneYearFromNow;
-    }
-    // Eta Industries — Pro Plus plan
-    if ([ADMIN_ETA, HE1, HE2, HE3, HE4, HE5].includes(u._id)) {
-      base.plan = "pro_plus";
-      base.currentPeriodEnd = oneYearFromNow;
-    }
-    return base;
-  });
+      currentPeriodEnd: c.plan === "free" ? null : oneYearFromNow,
+    })),
+    // Everyone outside a company (candidates) has a personal subscription
+    ...users
+      .filter((u) => !companyMembers.has(u._id))
+      .map((u) => ({
+        _id: oid(),
+        userId: u._id,
+        // Legacy admin account without a userType keeps its top-tier plan
+        plan: u._id === ADMIN_MARKETER2_ID ? "pro_plus" : "free",
+        status: "active",
+        currentPeriodEnd:
+          u._id === ADMIN_MARKETER2_ID ? oneYearFromNow : null,
+      })),
+  ];
   const subscriptions = await Subscription.insertMany(subData);
   console.log(`  ✓ Created ${subscriptions.length} subscriptions`);
 
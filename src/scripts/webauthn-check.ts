@@ -0,0 +1,347 @@
+/**
+ * webauthn-check.ts — runs passkey registration and sign-in against the
+ * relying-party checks in webauthn.service using a software authenticator,
+ * so no hardware key or browser is needed.
+ *
+ * Covers the happy paths (ES256 and Ed25519) and the rejections that must
+ * surface as WebAuthnError (400) rather than crash the request: wrong
+ * challenge or origin, replayed counters, bad signatures, truncated
+ * authenticator data and keys node:crypto cannot import.
+ *
+ * Usage:  npm run webauthn:check
+ */
+import assert from "node:assert/strict";
+import crypto, { KeyObject } from "node:crypto";
+import {
+  COSE_ALG_ES256,
+  COSE_ALG_EDDSA,
+  RelyingParty,
+  RegistrationResponseJSON,
+  AuthenticationResponseJSON,
+  WebAuthnError,
+  coseToPublicKey,
+  decodeCbor,
+  generateChallenge,
+  verifyRegistrationResponse,
+  verifyAuthenticationResponse,
+} from "../services/webauthn.service";
+
+const RP: RelyingParty = { id: "localhost", origins: ["http://localhost:3000"] };
+
+// ─── CBOR encoding (just what an authenticator emits) ─────────────────────────
+
+type CborInput = number | string | Buffer | Map<CborInput, CborInput>;
+
+function cborHead(major: number, length: number): Buffer {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+  const head = Buffer.alloc(3);
+  head[0] = (major << 5) | 25;
+  head.writeUInt16BE(length, 1);
+  return head;
+}
+
+function encodeCbor(value: CborInput): Buffer {
+  if (typeof value === "number") {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === "string") {
+    const text = Buffer.from(value, "utf8");
+    return Buffer.concat([cborHead(3, text.length), text]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([cborHead(2, value.length), value]);
+  }
+  const parts = [cborHead(5, value.size)];
+  for (const [k, v] of value) parts.push(encodeCbor(k), encodeCbor(v));
+  return Buffer.concat(parts);
+}
+
+// ─── Software authenticator ───────────────────────────────────────────────────
+
+const FLAGS_UP_UV = 0x01 | 0x04;
+const FLAG_AT = 0x40;
+
+class SoftwareAuthenticator {
+  readonly credentialId = crypto.randomBytes(32);
+  signCount = 0;
+  private readonly privateKey: KeyObject;
+  readonly cosePublicKey: Buffer;
+
+  constructor(
+    private readonly alg: number,
+    private readonly origin = RP.origins[0],
+    private readonly rpId = RP.id,
+  ) {
+    if (alg === COSE_ALG_EDDSA) {
+      const pair = crypto.generateKeyPairSync("ed25519");
+      const jwk = pair.publicKey.export({ format: "jwk" });
+      this.privateKey = pair.privateKey;
+      this.cosePublicKey = encodeCbor(
+        new Map<CborInput, CborInput>([
+          [1, 1],
+          [3, COSE_ALG_EDDSA],
+          [-1, 6],
+          [-2, Buffer.from(jwk.x!, "base64url")],
+        ]),
+      );
+    } else {
+      const pair = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+      const jwk = pair.publicKey.export({ format: "jwk" });
+      this.privateKey = pair.privateKey;
+      this.cosePublicKey = encodeCbor(
+        new Map<CborInput, CborInput>([
+          [1, 2],
+          [3, COSE_ALG_ES256],
+          [-1, 1],
+          [-2, Buffer.from(jwk.x!, "base64url")],
+          [-3, Buffer.from(jwk.y!, "base64url")],
+        ]),
+      );
+    }
+  }
+
+  /** navigator.credentials.create() with attestation "none". */
+  register(challenge: string): RegistrationResponseJSON {
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    const authData = Buffer.concat([
+      this.authDataHeader(FLAGS_UP_UV | FLAG_AT),
+      Buffer.alloc(16), // aaguid
+      idLength,
+      this.credentialId,
+      this.cosePublicKey,
+    ]);
+    const attestationObject = encodeCbor(
+      new Map<CborInput, CborInput>([
+        ["fmt", "none"],
+        ["attStmt", new Map()],
+        ["authData", authData],
+      ]),
+    );
+    return {
+      clientDataJSON: this.clientData("webauthn.create", challenge),
+      attestationObject: attestationObject.toString("base64url"),
+    };
+  }
+
+  /** navigator.credentials.get(); each call advances the counter. */
+  assert(challenge: string): AuthenticationResponseJSON {
+    this.signCount++;
+    const authData = this.authDataHeader(FLAGS_UP_UV);
+    const clientDataJSON = this.clientData("webauthn.get", challenge);
+    const signed = Buffer.concat([
+      authData,
+      crypto
+        .createHash("sha256")
+        .update(Buffer.from(clientDataJSON, "base64url"))
+        .digest(),
+    ]);
+    const signature = crypto.sign(
+      this.alg === COSE_ALG_EDDSA ? null : "sha256",
+      signed,
+      this.privateKey,
+    );
+    return {
+      clientDataJSON,
+      authenticatorData: authData.toString("base64url"),
+      signature: signature.toString("base64url"),
+      userHandle: null,
+    };
+  }
+
+  private authDataHeader(flags: number): Buffer {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.signCount);
+    return Buffer.concat([
+      crypto.createHash("sha256").update(this.rpId).digest(),
+      Buffer.from([flags]),
+      counter,
+    ]);
+  }
+
+  private clientData(type: string, challenge: string): string {
+    return Buffer.from(
+      JSON.stringify({ type, challenge, origin: this.origin }),
+    ).toString("base64url");
+  }
+}
+
+// ─── Checks ───────────────────────────────────────────────────────────────────
+
+function rejects(label: string, fn: () => unknown): void {
+  assert.throws(fn, WebAuthnError, label);
+}
+
+function roundTrip(alg: number): void {
+  const authenticator = new SoftwareAuthenticator(alg);
+
+  const registrationChallenge = generateChallenge();
+  const registered = verifyRegistrationResponse(
+    authenticator.register(registrationChallenge),
+    registrationChallenge,
+    RP,
+  );
+  assert.equal(
+    registered.credentialId,
+    authenticator.credentialId.toString("base64url"),
+  );
+  assert.equal(
+    registered.publicKey,
+    authenticator.cosePublicKey.toString("base64url"),
+  );
+  rejects("registration with another challenge", () =>
+    verifyRegistrationResponse(
+      authenticator.register(generateChallenge()),
+      registrationChallenge,
+      RP,
+    ),
+  );
+
+  const credential = {
+    publicKey: registered.publicKey,
+    signCount: registered.signCount,
+  };
+  const challenge = generateChallenge();
+  const assertion = authenticator.assert(challenge);
+  const { signCount } = verifyAuthenticationResponse(
+    assertion,
+    credential,
+    challenge,
+    RP,
+  );
+  assert.equal(signCount, authenticator.signCount);
+
+  const stored = { ...credential, signCount };
+  rejects("replayed assertion", () =>
+    verifyAuthenticationResponse(assertion, stored, challenge, RP),
+  );
+  rejects("assertion for another challenge", () =>
+    verifyAuthenticationResponse(
+      authenticator.assert(generateChallenge()),
+      stored,
+      challenge,
+      RP,
+    ),
+  );
+
+  const next = generateChallenge();
+  const tampered = authenticator.assert(next);
+  const signature = Buffer.from(tampered.signature, "base64url");
+  signature[signature.length - 1] ^= 0xff;
+  rejects("tampered signature", () =>
+    verifyAuthenticationResponse(
+      { ...tampered, signature: signature.toString("base64url") },
+      stored,
+      next,
+      RP,
+    ),
+  );
+  rejects("garbage signature", () =>
+    verifyAuthenticationResponse(
+      { ...tampered, signature: "AA" },
+      stored,
+      next,
+      RP,
+    ),
+  );
+}
+
+function malformedInputs(): void {
+  const challenge = generateChallenge();
+
+  rejects("unexpected origin", () => {
+    const phishing = new SoftwareAuthenticator(
+      COSE_ALG_ES256,
+      "https://evil.example",
+    );
+    verifyRegistrationResponse(phishing.register(challenge), challenge, RP);
+  });
+  rejects("another relying party", () => {
+    const other = new SoftwareAuthenticator(
+      COSE_ALG_ES256,
+      RP.origins[0],
+      "evil.example",
+    );
+    verifyRegistrationResponse(other.register(challenge), challenge, RP);
+  });
+
+  // Attested credential data cut off at every length up to the public key
+  const authenticator = new SoftwareAuthenticator(COSE_ALG_ES256);
+  const response = authenticator.register(challenge);
+  const [attestation] = decodeCbor(
+    Buffer.from(response.attestationObject, "base64url"),
+  );
+  const authData = (attestation as Map<unknown, unknown>).get(
+    "authData",
+  ) as Buffer;
+  for (let length = 37; length < authData.length; length += 3) {
+    rejects(`authenticator data truncated to ${length} bytes`, () =>
+      verifyRegistrationResponse(
+        {
+          ...response,
+          attestationObject: attestationWith(authData.subarray(0, length)),
+        },
+        challenge,
+        RP,
+      ),
+    );
+  }
+
+  // Credential ID length pointing past the end of the data
+  const oversized = Buffer.from(authData);
+  oversized.writeUInt16BE(0xffff, 53);
+  rejects("credential ID length past the end", () =>
+    verifyRegistrationResponse(
+      { ...response, attestationObject: attestationWith(oversized) },
+      challenge,
+      RP,
+    ),
+  );
+
+  // A P-256 point that is not on the curve
+  rejects("public key not on the curve", () =>
+    coseToPublicKey(
+      encodeCbor(
+        new Map<CborInput, CborInput>([
+          [1, 2],
+          [3, COSE_ALG_ES256],
+          [-1, 1],
+          [-2, Buffer.alloc(32, 1)],
+          [-3, Buffer.alloc(32, 2)],
+        ]),
+      ),
+    ),
+  );
+  rejects("truncated COSE key", () =>
+    coseToPublicKey(authenticator.cosePublicKey.subarray(0, 10)),
+  );
+}
+
+function attestationWith(authData: Buffer): string {
+  return encodeCbor(
+    new Map<CborInput, CborInput>([
+      ["fmt", "none"],
+      ["attStmt", new Map()],
+      ["authData", authData],
+    ]),
+  ).toString("base64url");
+}
+
+function main() {
+  console.log("🔑 Checking WebAuthn ceremonies with a software authenticator...\n");
+  roundTrip(COSE_ALG_ES256);
+  console.log("  ✓ ES256 register and sign-in round trip");
+  roundTrip(COSE_ALG_EDDSA);
+  console.log("  ✓ Ed25519 register and sign-in round trip");
+  malformedInputs();
+  console.log("  ✓ Malformed responses rejected with WebAuthnError");
+  console.log("\n✅ WebAuthn checks passed!\n");
+}
+
+try {
+  main();
+} catch (err) {
+  console.error("WebAuthn check failed:", err);
+  process.exit(1);
+}
@@ -0,0 +1,173 @@
+import { HydratedDocument } from "mongoose";
+import {
+  User,
+  IUser,
+  Subscription,
+  RefreshToken,
+  CandidatePayment,
+  PasswordResetToken,
+  MagicLinkToken,
+  UserIdentity,
+  IdentityLinkRequest,
+  WebAuthnCredential,
+  DataExport,
+} from "../models";
+import { env } from "../config/env";
+import { recordAuditEvent } from "./audit.service";
+import {
+  findSubscription,
+  removeCompanyIfEmpty,
+  syncSeatBilling,
+} from "./company.service";
+import { sendAccountDeletedEmail } from "./sendgrid.service";
+import { revokeAllSessions } from "./session.service";
+import { cancelSubscription, setCancelAtPeriodEnd } from "./stripe.service";
+
+/* =============================================================================
+ * Account deletion with a grace period.
+ *
+ * DELETE /api/auth/account only schedules the deletion: the account is
+ * deactivated and signed out everywhere, and a subscription only this user
+ * pays for stops renewing. The user can restore it until the grace period
+ * (ACCOUNT_DELETION_GRACE_DAYS) ends; purgeDueAccounts() then cancels that
+ * subscription, unlinks CandidatePayment rows (kept for accounting) and
+ * deletes everything else.
+ * ============================================================================= */
+
+/** How often the server looks for accounts whose grace period has ended. */
+export const ACCOUNT_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The subscription that bills only this user: their own, or their
+ * company's when nobody else is left in it. Null when it is shared.
+ */
+async function soleSubscription(user: Pick<IUser, "_id" | "companyId">) {
+  if (user.companyId) {
+    const others = await User.countDocuments({
+      companyId: user.companyId,
+      _id: { $ne: user._id },
+    });
+    if (others > 0) return null;
+  }
+  return findSubscription(user);
+}
+
+async function setRenewal(
+  user: Pick<IUser, "_id" | "companyId">,
+  renew: boolean,
+): Promise<void> {
+  const sub = await soleSubscription(user);
+  if (!sub?.stripeSubId || sub.status === "canceled") return;
+  await setCancelAtPeriodEnd(sub.stripeSubId, !renew).catch((err) =>
+    console.error(
+      `[AccountDeletion] Could not update renewal of ${sub.stripeSubId}:`,
+      err,
+    ),
+  );
+}
+
+/**
+ * Deactivates the account, signs it out everywhere and stops its
+ * subscription from renewing. Returns when the account will be purged.
+ */
+export async function scheduleAccountDeletion(
+  user: HydratedDocument<IUser>,
+): Promise<Date> {
+  const deletionScheduledAt = new Date(
+    Date.now() + env.ACCOUNT_DELETION_GRACE_DAYS * DAY_MS,
+  );
+  user.isActive = false;
+  user.deletionScheduledAt = deletionScheduledAt;
+  await user.save();
+
+  await revokeAllSessions(user._id);
+  await setRenewal(user, false);
+  return deletionScheduledAt;
+}
+
+/** Cancels a pending deletion: the account is active and renews again. */
+export async function restoreAccount(
+  user: HydratedDocument<IUser>,
+): Promise<void> {
+  user.isActive = true;
+  user.deletionScheduledAt = null;
+  await user.save();
+
+  await setRenewal(user, true);
+}
+
+/**
+ * Permanently deletes an account whose grace period has ended. Throws
+ * (leaving everything in place for the next sweep) if Stripe cannot cancel
+ * the subscription, so a deleted account is never left billing.
+ */
+export async function purgeAccount(userId: string): Promise<void> {
+  const user = await User.findOne({
+    _id: userId,
+    isActive: false,
+    deletionScheduledAt: { $lte: new Date() },
+  });
+  if (!user) return;
+
+  const sub = await soleSubscription(user);
+  if (sub?.stripeSubId) await cancelSubscription(sub.stripeSubId);
+
+  await removeCompanyIfEmpty(user);
+  await Promise.all([
+    RefreshToken.deleteMany({ userId }),
+    PasswordResetToken.deleteMany({ userId }),
+    MagicLinkToken.deleteMany({ userId }),
+    UserIdentity.deleteMany({ userId }),
+    IdentityLinkRequest.deleteMany({ userId }),
+    WebAuthnCredential.deleteMany({ userId }),
+    DataExport.deleteMany({ userId }),
+    Subscription.deleteMany({ userId }),
+    CandidatePayment.updateMany(
+      { userId },
+      { userId: null, anonymizedAt: new Date() },
+    ),
+  ]);
+  await User.deleteOne({ _id: userId });
+
+  await recordAuditEvent(null, "auth.account_deleted", {
+    actor: null,
+    targetUserId: userId,
+    before: {
+      email: user.email,
+      userType: user.userType,
+      companyId: user.companyId ?? null,
+    },
+  });
+  // The company loses a member — stop billing the seat
+  if (user.companyId) {
+    syncSeatBilling(user.companyId).catch(console.error);
+  }
+  sendAccountDeletedEmail({
+    to: user.email,
+    firstName: user.firstName || "there",
+  }).catch(console.error);
+}
+
+/** Purges every account whose grace period has ended. Never throws. */
+export async function purgeDueAccounts(): Promise<void> {
+  const due = await User.find({
+    isActive: false,
+    deletionScheduledAt: { $lte: new Date() },
+  })
+    .select("_id")
+    .catch((err) => {
+      console.error("[AccountDeletion] Could not list due accounts:", err);
+      return [];
+    });
+
+  for (const { _id } of due) {
+    try {
+      await purgeAccount(_id);
+      console.log(`[AccountDeletion] Account ${_id} permanently deleted`);
+    } catch (err) {
+      console.error(`[AccountDeletion] Purge of ${_id} failed:`, err);
+    }
+  }
+}
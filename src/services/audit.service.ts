@@ -0,0 +1,147 @@
+import { Request } from "express";
+import { FilterQuery } from "mongoose";
+import { AuditEvent, IAuditEvent } from "../models";
+import { clientContext } from "./session.service";
+
+/* =============================================================================
+ * Audit trail.
+ *
+ * Security, billing and account events are written to the append-only
+ * AuditEvent collection: who acted (the signed-in user, an admin, or nobody
+ * for system events such as Stripe webhooks), on whose account, from which
+ * IP and user agent, and what the affected state looked like before and
+ * after. Record an event after the change succeeds so the trail never claims
+ * something that did not happen.
+ * ============================================================================= */
+
+export type AuditAction =
+  // Authentication and sessions
+  | "auth.registered"
+  | "auth.signed_in"
+  | "auth.sign_in_failed"
+  | "auth.account_locked"
+  | "auth.token_refreshed"
+  | "auth.refresh_token_reused"
+  | "auth.signed_out"
+  | "auth.session_revoked"
+  | "auth.other_sessions_revoked"
+  | "auth.email_verified"
+  | "auth.password_reset"
+  | "auth.password_changed"
+  | "auth.identity_linked"
+  | "auth.identity_unlinked"
+  | "auth.two_factor_enabled"
+  | "auth.two_factor_disabled"
+  | "auth.recovery_codes_regenerated"
+  | "auth.passkey_added"
+  | "auth.passkey_removed"
+  | "auth.invitation_accepted"
+  | "auth.account_deletion_scheduled"
+  | "auth.account_restored"
+  | "auth.account_deleted"
+  // Company team
+  | "company.invitation_created"
+  | "company.invitation_revoked"
+  | "company.invitation_resent"
+  | "company.member_removed"
+  // Billing (Stripe webhooks)
+  | "billing.subscription_updated"
+  | "billing.subscription_canceled"
+  | "billing.visibility_updated"
+  // Settings
+  | "preferences.updated"
+  | "profile.updated"
+  | "profile.email_change_requested"
+  | "profile.email_changed"
+  // Personal data requests
+  | "privacy.export_requested"
+  | "privacy.export_downloaded"
+  // Admin console
+  | "admin.user_activated"
+  | "admin.user_deactivated"
+  | "admin.sessions_revoked"
+  | "admin.plan_overridden"
+  | "admin.membership_overridden"
+  | "admin.signin_unlocked"
+  | "admin.platform_role_changed";
+
+export const AUDIT_CATEGORIES = [
+  "auth",
+  "company",
+  "billing",
+  "preferences",
+  "profile",
+  "privacy",
+  "admin",
+];
+
+export interface AuditDetails {
+  /**
+   * Who acted. Defaults to the signed-in user (req.user); pass the user
+   * explicitly on sign-in routes and null for system events.
+   */
+  actor?: { userId: string; email?: string | null } | null;
+  /** Defaults to the actor. */
+  targetUserId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Appends an event. `req` supplies the IP and user agent; pass null when
+ * the request does not come from the user's device (webhooks).
+ */
+export async function recordAuditEvent(
+  req: Request | null,
+  action: AuditAction,
+  details: AuditDetails = {},
+): Promise<void> {
+  const actor =
+    details.actor === undefined
+      ? req?.user && { userId: req.user.userId, email: req.user.email }
+      : details.actor;
+  const client = req ? clientContext(req) : { ip: null, userAgent: null };
+
+  await AuditEvent.create({
+    action,
+    actorId: actor?.userId ?? null,
+    actorEmail: actor?.email ?? null,
+    targetUserId:
+      details.targetUserId === undefined
+        ? (actor?.userId ?? null)
+        : details.targetUserId,
+    before: details.before ?? null,
+    after: details.after ?? null,
+    metadata: details.metadata ?? null,
+    ip: client.ip,
+    userAgent: client.userAgent,
+  });
+}
+
+export const AUDIT_PAGE_MAX = 100;
+
+/**
+ * One page of events matching `filter`, newest first. `cursor` is the
+ * nextCursor of the previous page; nextCursor is null on the last page.
+ */
+export async function listAuditEvents(
+  filter: FilterQuery<IAuditEvent>,
+  page: { cursor?: string; limit: number },
+): Promise<{ events: IAuditEvent[]; nextCursor: string | null }> {
+  const limit = Math.min(page.limit, AUDIT_PAGE_MAX);
+  const query: FilterQuery<IAuditEvent> = page.cursor
+    ? { $and: [filter, { _id: { $lt: page.cursor } }] }
+    : filter;
+
+  const events = await AuditEvent.find(query)
+    .sort({ _id: -1 })
+    .limit(limit + 1)
+    .lean();
+  const hasMore = events.length > limit;
+  if (hasMore) events.pop();
+  return {
+    events,
+    nextCursor: hasMore ? events[events.length - 1]._id : null,
+  };
+}
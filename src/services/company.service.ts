@@ -0,0 +1,205 @@
+import { HydratedDocument } from "mongoose";
+import {
+  Company,
+  CompanyInvitation,
+  ICompany,
+  IUser,
+  ISubscription,
+  Subscription,
+  User,
+} from "../models";
+import {
+  VENDOR_PLAN_DEFINITIONS,
+  MARKETER_PLAN,
+  EXTRA_SEAT,
+  PlanDefinition,
+  setExtraSeatQuantity,
+} from "./stripe.service";
+import { withAccountRole } from "../config/roles";
+
+/* =============================================================================
+ * Companies and the subscription each account bills against.
+ *
+ * Employers belong to a company and share its subscription; candidates have
+ * their own. Always look subscriptions up through findSubscription() so
+ * both cases (and employers created before companies existed) resolve.
+ * ============================================================================= */
+
+type AccountRef = Pick<IUser, "_id" | "companyId">;
+
+/** Query matching the subscription the account bills against. */
+export function subscriptionFilter(
+  user: AccountRef,
+): { companyId: string } | { userId: string } {
+  return user.companyId
+    ? { companyId: user.companyId }
+    : { userId: user._id };
+}
+
+export async function findSubscription(user: AccountRef) {
+  return Subscription.findOne(subscriptionFilter(user));
+}
+
+/** Current plan for the account ("free" when there is no subscription). */
+export async function planFor(user: AccountRef): Promise<string> {
+  return (await findSubscription(user))?.plan || "free";
+}
+
+function defaultCompanyName(user: Pick<IUser, "email">): string {
+  const domain = user.email.split("@")[1] ?? "";
+  return domain.split(".")[0] || user.email;
+}
+
+/**
+ * Creates a company owned by `owner`, makes the owner its admin and moves
+ * them onto a free company subscription.
+ */
+export async function createCompany(
+  owner: HydratedDocument<IUser>,
+  name?: string | null,
+): Promise<HydratedDocument<ICompany>> {
+  const company = await Company.create({
+    name: name?.trim() || defaultCompanyName(owner),
+    ownerId: owner._id,
+  });
+
+  owner.companyId = company._id;
+  owner.roles = withAccountRole(owner.roles, "admin");
+  await owner.save();
+
+  await Subscription.create({
+    companyId: company._id,
+    plan: "free",
+    status: "active",
+  });
+  return company;
+}
+
+/**
+ * Billing setup for a freshly created account: employers get a company
+ * (named `companyName` when given), candidates a personal free plan.
+ */
+export async function setUpNewAccount(
+  user: HydratedDocument<IUser>,
+  companyName?: string | null,
+): Promise<void> {
+  if (user.userType === "employer") {
+    await createCompany(user, companyName);
+    return;
+  }
+  await Subscription.create({ userId: user._id, plan: "free", status: "active" });
+}
+
+/**
+ * Removes the user's company once they were its last member, together with
+ * its subscription. Companies with remaining members are left alone.
+ */
+export async function removeCompanyIfEmpty(user: AccountRef): Promise<void> {
+  if (!user.companyId) return;
+  const others = await User.countDocuments({
+    companyId: user.companyId,
+    _id: { $ne: user._id },
+  });
+  if (others > 0) return;
+  await Promise.all([
+    Company.deleteOne({ _id: user.companyId }),
+    Subscription.deleteMany({ companyId: user.companyId }),
+    CompanyInvitation.deleteMany({ companyId: user.companyId }),
+  ]);
+}
+
+// ─── Seats ────────────────────────────────────────────────────────────────────
+
+type BillingState = Pick<
+  ISubscription,
+  "plan" | "status" | "stripeSubId" | "extraSeats"
+>;
+
+function planDefinition(plan: string): PlanDefinition {
+  if (plan === MARKETER_PLAN.id) return MARKETER_PLAN;
+  return (
+    VENDOR_PLAN_DEFINITIONS.find((p) => p.id === plan) ??
+    VENDOR_PLAN_DEFINITIONS[0]
+  );
+}
+
+/**
+ * Whether members beyond the included seats can be billed: a live paid
+ * vendor subscription and a configured seat price.
+ */
+function seatBillingActive(sub: BillingState | null): boolean {
+  return (
+    !!EXTRA_SEAT.stripePriceId &&
+    !!sub?.stripeSubId &&
+    ["active", "trialing", "past_due"].includes(sub.status) &&
+    VENDOR_PLAN_DEFINITIONS.some((p) => p.id === sub.plan && p.stripePriceId)
+  );
+}
+
+/**
+ * Team members (including pending invitations) the subscription allows: the
+ * plan's maxSeats when extra seats can be billed, else its includedSeats.
+ */
+export function seatLimitFor(sub: BillingState | null): number {
+  const def = planDefinition(sub?.plan || "free");
+  return seatBillingActive(sub) ? def.maxSeats : def.includedSeats;
+}
+
+export interface SeatUsage {
+  members: number;
+  pendingInvitations: number;
+  /** members + pendingInvitations */
+  used: number;
+  /** Seats covered by the plan price. */
+  included: number;
+  /** Seats billed on top (Stripe seat item quantity). */
+  extra: number;
+  limit: number;
+}
+
+/**
+ * Seats taken in a company. Unexpired pending invitations hold a seat so an
+ * admin cannot invite past the limit and have every invitee accept.
+ */
+export async function seatUsage(companyId: string): Promise<SeatUsage> {
+  const [members, pendingInvitations, subscription] = await Promise.all([
+    User.countDocuments({ companyId }),
+    CompanyInvitation.countDocuments({
+      companyId,
+      status: "pending",
+      expiresAt: { $gt: new Date() },
+    }),
+    Subscription.findOne({ companyId }),
+  ]);
+  return {
+    members,
+    pendingInvitations,
+    used: members + pendingInvitations,
+    included: planDefinition(subscription?.plan || "free").includedSeats,
+    extra: subscription?.extraSeats ?? 0,
+    limit: seatLimitFor(subscription),
+  };
+}
+
+/**
+ * Sets the Stripe extra-seat quantity to the members the plan does not
+ * cover. Call after members join or leave — never from the Stripe webhook,
+ * which only records the quantity Stripe reports. Pending invitations are
+ * not billed until accepted.
+ */
+export async function syncSeatBilling(companyId: string): Promise<void> {
+  const sub = await Subscription.findOne({ companyId });
+  if (!sub || !seatBillingActive(sub)) return;
+
+  const members = await User.countDocuments({ companyId });
+  const extra = Math.max(0, members - planDefinition(sub.plan).includedSeats);
+  if (extra === sub.extraSeats) return;
+
+  sub.stripeSeatItemId = await setExtraSeatQuantity(
+    sub.stripeSubId!,
+    extra,
+    sub.stripeSeatItemId,
+  );
+  sub.extraSeats = extra;
+  await sub.save();
+}
@@ -0,0 +1,166 @@
+import {
+  CandidatePayment,
+  DataExport,
+  RefreshToken,
+  User,
+} from "../models";
+import { env } from "../config/env";
+import { createZip, toCsv } from "./archive.service";
+import { findSubscription } from "./company.service";
+import { describeDevice } from "./session.service";
+
+/* =============================================================================
+ * Personal data exports (GDPR / CCPA access requests).
+ *
+ * POST /api/user/export creates a DataExport and buildDataExport() fills it
+ * in the background with a ZIP: export.json holding everything, plus one CSV
+ * per collection. Every field is copied explicitly — password hashes, 2FA
+ * secrets, verification nonces and refresh tokens never reach the archive.
+ * ============================================================================= */
+
+/** A pending export older than this was lost (e.g. to a restart). */
+export const EXPORT_STALE_MINUTES = 15;
+
+type Row = Record<string, unknown>;
+
+export interface PersonalData {
+  profile: Row;
+  preferences: Row;
+  subscription: Row | null;
+  candidatePayments: Row[];
+  sessions: Row[];
+}
+
+function parseJson(raw: string | null | undefined): unknown {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/** Everything the export contains for `userId`, or null if the user is gone. */
+export async function collectPersonalData(
+  userId: string,
+): Promise<PersonalData | null> {
+  const user = await User.findById(userId);
+  if (!user) return null;
+
+  const [subscription, payments, tokens] = await Promise.all([
+    findSubscription(user),
+    CandidatePayment.find({ userId }).sort({ createdAt: 1 }),
+    RefreshToken.find({
+      userId,
+      revoked: false,
+      expiresAt: { $gt: new Date() },
+    }).sort({ createdAt: 1 }),
+  ]);
+
+  return {
+    profile: {
+      id: user._id,
+      email: user.email,
+      username: user.username ?? null,
+      first_name: user.firstName ?? null,
+      last_name: user.lastName ?? null,
+      user_type: user.userType,
+      roles: user.roles,
+      company_id: user.companyId ?? null,
+      email_verified: user.emailVerified,
+      email_verified_at: user.emailVerifiedAt ?? null,
+      two_factor_enabled: user.twoFactorEnabled,
+      has_password: !!user.password,
+      membership_config: parseJson(user.membershipConfig),
+      has_purchased_visibility: user.hasPurchasedVisibility,
+      is_active: user.isActive,
+      created_at: user.createdAt,
+      updated_at: user.updatedAt,
+    },
+    preferences: {
+      theme_mode: user.preferences?.themeMode ?? null,
+      color_scheme: user.preferences?.colorScheme ?? null,
+      text_size: user.preferences?.textSize ?? null,
+    },
+    subscription: subscription && {
+      company_id: subscription.companyId ?? null,
+      plan: subscription.plan,
+      status: subscription.status,
+      current_period_end: subscription.currentPeriodEnd ?? null,
+      extra_seats: subscription.extraSeats,
+      stripe_customer_id: subscription.stripeCustomerId ?? null,
+      created_at: subscription.createdAt,
+      updated_at: subscription.updatedAt,
+    },
+    candidatePayments: payments.map((p) => ({
+      id: p._id,
+      package_type: p.packageType,
+      domain: p.domain ?? null,
+      subdomains: parseJson(p.subdomains),
+      amount_cents: p.amountCents,
+      status: p.status,
+      stripe_session_id: p.stripeSessionId,
+      created_at: p.createdAt,
+    })),
+    sessions: tokens.map((t) => ({
+      session_id: t.familyId || t._id,
+      device: describeDevice(t.userAgent),
+      user_agent: t.userAgent ?? null,
+      ip: t.ip ?? null,
+      started_at: t.startedAt ?? t.createdAt,
+      last_used_at: t.lastUsedAt ?? t.createdAt,
+      expires_at: t.expiresAt,
+    })),
+  };
+}
+
+function archiveFiles(data: PersonalData, exportedAt: Date) {
+  const json = {
+    exported_at: exportedAt,
+    profile: data.profile,
+    preferences: data.preferences,
+    subscription: data.subscription,
+    candidate_payments: data.candidatePayments,
+    sessions: data.sessions,
+  };
+  return [
+    { name: "export.json", content: JSON.stringify(json, null, 2) },
+    { name: "profile.csv", content: toCsv([data.profile]) },
+    { name: "preferences.csv", content: toCsv([data.preferences]) },
+    {
+      name: "subscription.csv",
+      content: toCsv(data.subscription ? [data.subscription] : []),
+    },
+    { name: "candidate_payments.csv", content: toCsv(data.candidatePayments) },
+    { name: "sessions.csv", content: toCsv(data.sessions) },
+  ];
+}
+
+/**
+ * Builds the archive for a pending export and marks it ready (kept for
+ * DATA_EXPORT_TTL_HOURS) or failed. Never throws.
+ */
+export async function buildDataExport(exportId: string): Promise<void> {
+  const job = await DataExport.findById(exportId).catch(() => null);
+  if (job?.status !== "pending") return;
+
+  try {
+    const data = await collectPersonalData(job.userId);
+    if (!data) throw new Error("User no longer exists");
+
+    const now = new Date();
+    const archive = createZip(archiveFiles(data, now), now);
+    job.archive = archive;
+    job.sizeBytes = archive.length;
+    job.status = "ready";
+    job.completedAt = now;
+    job.expiresAt = new Date(
+      now.getTime() + env.DATA_EXPORT_TTL_HOURS * 60 * 60 * 1000,
+    );
+  } catch (err) {
+    console.error(`[DataExport] Export ${exportId} failed:`, err);
+    job.status = "failed";
+    job.error = "The export could not be generated. Please request a new one.";
+  }
+  await job.save().catch(console.error);
+}
@@ -1,3 +1,17 @@
 export * from "./jwt.service";
 export * from "./sendgrid.service";
 export * from "./stripe.service";
+export * from "./token.service";
+export * from "./session.service";
+export * from "./totp.service";
+export * from "./two-factor.service";
+export * from "./login-throttle.service";
+export * from "./oauth-state.service";
+export * from "./oauth-identity.service";
+export * from "./webauthn.service";
+export * from "./company.service";
+export * from "./audit.service";
+export * from "./archive.service";
+export * from "./data-export.service";
+export * from "./account-deletion.service";
+export * from "./username.service";
@@ -1,5 +1,6 @@
 import jwt, { Secret, SignOptions } from "jsonwebtoken";
 import { env } from "../config/env";
+import { activeSigningKey, findSigningKey } from "../config/jwt-keys";
 
 export interface AccessTokenPayload {
   userId: string;
@@ -7,14 +8,37 @@ export interface AccessTokenPayload {
   userType: string;
   plan: string;
   username: string;
+  /** See config/roles.ts. */
+  roles: string[];
+  /** Derived from roles at sign-in and on every refresh. */
+  permissions: string[];
+  /** Employer's company (see /api/companies/:id); null for candidates. */
+  companyId: string | null;
+  /** Unix seconds of the interactive sign-in this session started from. */
+  authTime?: number;
+  /** Session family id — see GET /api/auth/sessions. */
+  sessionId?: string;
 }
 
 export interface RefreshTokenPayload {
   userId: string;
   tokenId: string;
+  authTime?: number;
+  sessionId?: string;
 }
 
+/**
+ * Signs with the active asymmetric key (kid in the header) so other services
+ * can verify via JWKS; falls back to HS256 when no keys are configured.
+ */
 export function signAccessToken(payload: AccessTokenPayload): string {
+  if (activeSigningKey) {
+    return jwt.sign(payload, activeSigningKey.privateKey!, {
+      algorithm: activeSigningKey.alg,
+      keyid: activeSigningKey.kid,
+      expiresIn: env.JWT_ACCESS_EXPIRES,
+    } as SignOptions);
+  }
   return jwt.sign(
     payload,
     env.JWT_SECRET as Secret,
@@ -34,10 +58,72 @@ export function signRefreshToken(payload: RefreshTokenPayload): string {
   );
 }
 
+/**
+ * Accepts tokens signed by any key in the configured set (looked up by kid).
+ * Algorithms are pinned per key so a token cannot pick its own.
+ */
 export function verifyAccessToken(token: string): AccessTokenPayload {
-  return jwt.verify(token, env.JWT_SECRET) as AccessTokenPayload;
+  const decoded = jwt.decode(token, { complete: true });
+  const kid = decoded?.header.kid;
+
+  if (kid) {
+    const key = findSigningKey(kid);
+    if (!key) throw new jwt.JsonWebTokenError("Unknown signing key");
+    return jwt.verify(token, key.publicKey, {
+      algorithms: [key.alg],
+    }) as AccessTokenPayload;
+  }
+
+  if (activeSigningKey && !env.JWT_ACCEPT_HS256) {
+    throw new jwt.JsonWebTokenError("HS256 access tokens are no longer accepted");
+  }
+  return jwt.verify(token, env.JWT_SECRET, {
+    algorithms: ["HS256"],
+  }) as AccessTokenPayload;
 }
 
 export function verifyRefreshToken(token: string): RefreshTokenPayload {
   return jwt.verify(token, env.JWT_REFRESH_SECRET) as RefreshTokenPayload;
 }
+
+// ─── Action tokens (single-purpose links mailed to users) ─────────────────────
+
+export type ActionTokenPurpose =
+  | "email_verification"
+  | "two_factor_challenge"
+  | "identity_link"
+  | "company_invitation"
+  | "data_export"
+  | "account_restore"
+  | "email_change";
+
+export interface ActionTokenPayload {
+  userId: string;
+  email: string;
+  nonce: string;
+}
+
+/**
+ * Signs a token that is only valid for one purpose. The purpose is bound via
+ * the `aud` claim, so a verification link can never be replayed as anything else.
+ */
+export function signActionToken(
+  purpose: ActionTokenPurpose,
+  payload: ActionTokenPayload,
+  expiresIn: string,
+): string {
+  return jwt.sign(
+    payload,
+    env.JWT_ACTION_SECRET as Secret,
+    { expiresIn, audience: purpose } as SignOptions,
+  );
+}
+
+export function verifyActionToken(
+  purpose: ActionTokenPurpose,
+  token: string,
+): ActionTokenPayload {
+  return jwt.verify(token, env.JWT_ACTION_SECRET, {
+    audience: purpose,
+  }) as ActionTokenPayload;
+}
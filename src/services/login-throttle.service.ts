@@ -0,0 +1,388 @@
+import { Request, Response } from "express";
+import { LoginAttempt, User } from "../models";
+import { clientContext } from "./session.service";
+import { recordAuditEvent } from "./audit.service";
+import { sendUnusualSignInEmail } from "./sendgrid.service";
+
+/* =============================================================================
+ * Brute-force protection for sign-in.
+ *
+ * Failed attempts are counted per account (email) and per client IP. After a
+ * few free failures each further attempt must wait an exponentially growing
+ * delay; past a hard threshold the key is locked for a fixed period. Accounts
+ * get tight limits, IPs loose ones, so a targeted account is protected without
+ * punishing an office full of users behind one NAT address.
+ * ============================================================================= */
+
+export interface AttemptRecord {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+/** Storage for attempt counters. Implementations must be safe to share. */
+export interface LoginAttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  /**
+   * Increments the counter, restarting it at 1 when the previous failure is
+   * older than `windowMs`.
+   */
+  recordFailure(key: string, now: Date, windowMs: number): Promise<AttemptRecord>;
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+export interface ThrottleRule {
+  /** Failures allowed before any delay applies. */
+  freeFailures: number;
+  /** First delay; doubles with each further failure. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Failures at which the key is locked outright. */
+  lockThreshold: number;
+  lockDurationMs: number;
+  /** Quiet period after which the counter starts over. */
+  windowMs: number;
+}
+
+export interface ThrottlePolicy {
+  account: ThrottleRule;
+  ip: ThrottleRule;
+}
+
+export const DEFAULT_THROTTLE_POLICY: ThrottlePolicy = {
+  account: {
+    freeFailures: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 60 * 1000,
+    lockThreshold: 10,
+    lockDurationMs: 15 * 60 * 1000,
+    windowMs: 15 * 60 * 1000,
+  },
+  ip: {
+    freeFailures: 20,
+    baseDelayMs: 1000,
+    maxDelayMs: 30 * 1000,
+    lockThreshold: 100,
+    lockDurationMs: 15 * 60 * 1000,
+    windowMs: 15 * 60 * 1000,
+  },
+};
+
+export type ThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; reason: "locked" | "backoff"; retryAfterSeconds: number };
+
+export interface FailureOutcome {
+  /** True when this failure pushed the account into a lockout. */
+  accountLocked: boolean;
+  accountFailures: number;
+  lockedUntil: Date | null;
+}
+
+/** Earliest time the next attempt is allowed, or null if not throttled. */
+export function nextAllowedAt(
+  record: AttemptRecord | null,
+  rule: ThrottleRule,
+  now: Date,
+): { at: Date; reason: "locked" | "backoff" } | null {
+  if (!record) return null;
+  if (record.lockedUntil && record.lockedUntil > now) {
+    return { at: record.lockedUntil, reason: "locked" };
+  }
+  if (now.getTime() - record.lastFailureAt.getTime() > rule.windowMs) {
+    return null;
+  }
+  const excess = record.failures - rule.freeFailures;
+  if (excess <= 0) return null;
+
+  const delay = Math.min(rule.baseDelayMs * 2 ** (excess - 1), rule.maxDelayMs);
+  const at = new Date(record.lastFailureAt.getTime() + delay);
+  return at > now ? { at, reason: "backoff" } : null;
+}
+
+// ─── Stores ───────────────────────────────────────────────────────────────────
+
+/** Process-local store — for tests and single-instance development. */
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private readonly records = new Map<string, AttemptRecord>();
+
+  async get(key: string): Promise<AttemptRecord | null> {
+    const record = this.records.get(key);
+    return record ? { ...record } : null;
+  }
+
+  async recordFailure(
+    key: string,
+    now: Date,
+    windowMs: number,
+  ): Promise<AttemptRecord> {
+    const previous = this.records.get(key);
+    const stale =
+      !previous || now.getTime() - previous.lastFailureAt.getTime() > windowMs;
+    const record: AttemptRecord = {
+      failures: stale ? 1 : previous.failures + 1,
+      lastFailureAt: now,
+      lockedUntil: previous?.lockedUntil ?? null,
+    };
+    this.records.set(key, record);
+    return { ...record };
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    const record = this.records.get(key);
+    if (record) record.lockedUntil = until;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/** MongoDB-backed store shared by every app instance (the default). */
+export class MongoLoginAttemptStore implements LoginAttemptStore {
+  async get(key: string): Promise<AttemptRecord | null> {
+    const doc = await LoginAttempt.findById(key).lean();
+    if (!doc) return null;
+    return {
+      failures: doc.failures,
+      lastFailureAt: doc.lastFailureAt,
+      lockedUntil: doc.lockedUntil ?? null,
+    };
+  }
+
+  async recordFailure(
+    key: string,
+    now: Date,
+    windowMs: number,
+  ): Promise<AttemptRecord> {
+    const cutoff = new Date(now.getTime() - windowMs);
+    // Pipeline update so the window check and increment happen atomically
+    const doc = await LoginAttempt.findOneAndUpdate(
+      { _id: key },
+      [
+        {
+          $set: {
+            failures: {
+              $cond: [
+                { $gt: ["$lastFailureAt", cutoff] },
+                { $add: ["$failures", 1] },
+                1,
+              ],
+            },
+            lastFailureAt: now,
+            expiresAt: {
+              $max: [
+                new Date(now.getTime() + windowMs),
+                { $ifNull: ["$lockedUntil", now] },
+              ],
+            },
+          },
+        },
+      ],
+      { upsert: true, new: true },
+    ).lean();
+
+    return {
+      failures: doc!.failures,
+      lastFailureAt: doc!.lastFailureAt,
+      lockedUntil: doc!.lockedUntil ?? null,
+    };
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    await LoginAttempt.updateOne(
+      { _id: key },
+      { $set: { lockedUntil: until }, $max: { expiresAt: until } },
+    );
+  }
+
+  async reset(key: string): Promise<void> {
+    await LoginAttempt.deleteOne({ _id: key });
+  }
+}
+
+// ─── Throttle ─────────────────────────────────────────────────────────────────
+
+export class LoginThrottle {
+  constructor(
+    private readonly store: LoginAttemptStore,
+    private readonly policy: ThrottlePolicy = DEFAULT_THROTTLE_POLICY,
+    private readonly clock: () => Date = () => new Date(),
+  ) {}
+
+  private static accountKey(email: string): string {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  private static ipKey(ip: string): string {
+    return `ip:${ip}`;
+  }
+
+  /** Whether a sign-in attempt may proceed right now. */
+  async check(email: string, ip: string | null): Promise<ThrottleDecision> {
+    const now = this.clock();
+    const [account, byIp] = await Promise.all([
+      this.store.get(LoginThrottle.accountKey(email)),
+      ip ? this.store.get(LoginThrottle.ipKey(ip)) : null,
+    ]);
+
+    const blocks = [
+      nextAllowedAt(account, this.policy.account, now),
+      nextAllowedAt(byIp, this.policy.ip, now),
+    ].filter((b): b is { at: Date; reason: "locked" | "backoff" } => !!b);
+    if (blocks.length === 0) return { allowed: true };
+
+    const latest = blocks.reduce((a, b) => (a.at > b.at ? a : b));
+    return {
+      allowed: false,
+      reason: latest.reason,
+      retryAfterSeconds: Math.ceil((latest.at.getTime() - now.getTime()) / 1000),
+    };
+  }
+
+  async recordFailure(email: string, ip: string | null): Promise<FailureOutcome> {
+    const now = this.clock();
+    const { account: accountRule, ip: ipRule } = this.policy;
+
+    const accountKey = LoginThrottle.accountKey(email);
+    const account = await this.store.recordFailure(
+      accountKey,
+      now,
+      accountRule.windowMs,
+    );
+    const accountLocked = account.failures === accountRule.lockThreshold;
+    let lockedUntil: Date | null = null;
+    if (account.failures >= accountRule.lockThreshold) {
+      lockedUntil = new Date(now.getTime() + accountRule.lockDurationMs);
+      await this.store.lock(accountKey, lockedUntil);
+    }
+
+    if (ip) {
+      const ipKey = LoginThrottle.ipKey(ip);
+      const byIp = await this.store.recordFailure(ipKey, now, ipRule.windowMs);
+      if (byIp.failures >= ipRule.lockThreshold) {
+        await this.store.lock(
+          ipKey,
+          new Date(now.getTime() + ipRule.lockDurationMs),
+        );
+      }
+    }
+
+    return { accountLocked, accountFailures: account.failures, lockedUntil };
+  }
+
+  /** Clears the account's counter. IP counters are left to expire. */
+  async recordSuccess(email: string): Promise<void> {
+    await this.store.reset(LoginThrottle.accountKey(email));
+  }
+
+  /** Admin override — clears the account's (and optionally an IP's) lock. */
+  async unlock(email: string, ip?: string): Promise<void> {
+    await this.store.reset(LoginThrottle.accountKey(email));
+    if (ip) await this.store.reset(LoginThrottle.ipKey(ip));
+  }
+}
+
+export const loginThrottle = new LoginThrottle(new MongoLoginAttemptStore());
+
+// ─── Password checks ──────────────────────────────────────────────────────────
+
+/**
+ * Responds 429 (with Retry-After) and returns false when the account or IP
+ * is in backoff or locked out.
+ */
+export async function checkSignInThrottle(
+  res: Response,
+  email: string,
+  ip: string | null,
+): Promise<boolean> {
+  const decision = await loginThrottle.check(email, ip);
+  if (decision.allowed) return true;
+
+  res.set("Retry-After", String(decision.retryAfterSeconds));
+  res.status(429).json({
+    error:
+      decision.reason === "locked"
+        ? "Too many failed sign-in attempts. Sign-in is temporarily locked."
+        : "Too many failed sign-in attempts. Please wait before trying again.",
+    retry_after: decision.retryAfterSeconds,
+  });
+  return false;
+}
+
+/**
+ * Counts and audits a failed attempt, and alerts the owner when it triggers
+ * a lockout.
+ */
+export async function recordFailedSignIn(
+  req: Request,
+  email: string,
+  reason: string,
+): Promise<void> {
+  const { ip } = clientContext(req);
+  const outcome = await loginThrottle.recordFailure(email, ip);
+  const user = await User.findOne({ email });
+  await recordAuditEvent(req, "auth.sign_in_failed", {
+    actor: null,
+    targetUserId: user?._id ?? null,
+    metadata: { email, reason, failures: outcome.accountFailures },
+  });
+  if (!outcome.accountLocked || !outcome.lockedUntil) return;
+
+  console.warn("[Security] Account locked after repeated failed sign-ins", {
+    email,
+    ip,
+    failures: outcome.accountFailures,
+  });
+  if (!user) return;
+  await recordAuditEvent(req, "auth.account_locked", {
+    actor: null,
+    targetUserId: user._id,
+    metadata: { lockedUntil: outcome.lockedUntil.toISOString() },
+  });
+  sendUnusualSignInEmail({
+    to: user.email,
+    firstName: user.firstName || "there",
+    failedAttempts: outcome.accountFailures,
+    ip,
+    lockedUntil: outcome.lockedUntil,
+  }).catch(console.error);
+}
+
+// ─── Send limits ──────────────────────────────────────────────────────────────
+
+/**
+ * Caps how often something may be sent to one address (e.g. magic links),
+ * reusing the attempt store as a counter. The window restarts after a quiet
+ * period of `windowMs`.
+ */
+export class SendRateLimit {
+  constructor(
+    private readonly store: LoginAttemptStore,
+    private readonly prefix: string,
+    private readonly limit: number,
+    private readonly windowMs: number,
+    private readonly clock: () => Date = () => new Date(),
+  ) {}
+
+  /**
+   * Counts a send to `address`. Returns 0 when allowed, otherwise the
+   * seconds until the next send is allowed (nothing is counted then).
+   */
+  async consume(address: string): Promise<number> {
+    const key = `${this.prefix}:${address.trim().toLowerCase()}`;
+    const now = this.clock();
+    const record = await this.store.get(key);
+    if (
+      record &&
+      record.failures >= this.limit &&
+      now.getTime() - record.lastFailureAt.getTime() <= this.windowMs
+    ) {
+      const until = record.lastFailureAt.getTime() + this.windowMs;
+      return Math.ceil((until - now.getTime()) / 1000);
+    }
+    await this.store.recordFailure(key, now, this.windowMs);
+    return 0;
+  }
+}
@@ -0,0 +1,246 @@
+import crypto from "node:crypto";
+import { HydratedDocument, Types } from "mongoose";
+import {
+  User,
+  IUser,
+  UserIdentity,
+  WebAuthnCredential,
+  IdentityLinkRequest,
+  IIdentityLinkRequest,
+} from "../models";
+import { generateOpaqueToken, hashToken } from "./token.service";
+import { setUpNewAccount } from "./company.service";
+import { generateUsername } from "./username.service";
+
+/* =============================================================================
+ * Linking external sign-in identities to users.
+ *
+ * The same rules apply to every OAuth provider:
+ *  1. Identity already linked (provider + subject) → that user
+ *  2. A user already has the email → nothing is linked yet; the owner must
+ *     confirm with their password or an emailed link (IdentityLinkRequest)
+ *  3. No user with the email → create one (free plan) and link
+ *
+ * Signed-in users can also link providers deliberately (linkIdentity).
+ * Silently linking on an email match would let anyone who can put a victim's
+ * address on a provider account take over the MatchingDB account.
+ * ============================================================================= */
+
+export const LINK_REQUEST_TTL_MINUTES = 15;
+
+/** Normalized profile from a provider's userinfo claims. */
+export interface OAuthProfile {
+  provider: string;
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+async function markEmailVerified(user: HydratedDocument<IUser>): Promise<void> {
+  if (user.emailVerified) return;
+  user.emailVerified = true;
+  user.emailVerifiedAt = new Date();
+  await user.save();
+}
+
+export type OAuthSignInResult =
+  | { status: "signed_in"; user: HydratedDocument<IUser> }
+  | { status: "link_required"; ticket: string };
+
+async function createIdentity(
+  userId: string,
+  profile: OAuthProfile,
+): Promise<void> {
+  await UserIdentity.create({
+    userId,
+    provider: profile.provider,
+    subject: profile.subject,
+    email: profile.email,
+  });
+}
+
+/**
+ * Finds or creates the user for an OAuth sign-in, or opens a link request
+ * when the email belongs to an existing account. New accounts need an email
+ * the provider reports as verified. Throws an Error whose message is safe to
+ * show the user when sign-in must be refused.
+ */
+export async function resolveOAuthUser(
+  profile: OAuthProfile,
+  label: string,
+  userType: "candidate" | "employer",
+): Promise<OAuthSignInResult> {
+  // 1. Returning user — identity already linked
+  const identity = await UserIdentity.findOneAndUpdate(
+    { provider: profile.provider, subject: profile.subject },
+    { lastUsedAt: new Date() },
+  );
+  if (identity) {
+    const user = await User.findById(identity.userId);
+    if (!user) {
+      // Dangling link (user removed outside deleteAccount) — start over
+      await UserIdentity.deleteOne({ _id: identity._id });
+    } else {
+      if (!user.isActive) throw new Error("Account is deactivated.");
+      if (profile.emailVerified && profile.email === user.email) {
+        await markEmailVerified(user);
+      }
+      return { status: "signed_in", user };
+    }
+  }
+
+  if (!profile.email) {
+    throw new Error(`${label} account has no associated email address.`);
+  }
+
+  // 2. Existing account with this email — owner must confirm the link
+  const existing = await User.findOne({ email: profile.email });
+  if (existing) {
+    if (!existing.isActive) throw new Error("Account is deactivated.");
+    const ticket = generateOpaqueToken();
+    await IdentityLinkRequest.create({
+      _id: hashToken(ticket),
+      userId: existing._id,
+      provider: profile.provider,
+      subject: profile.subject,
+      email: profile.email,
+      emailVerified: profile.emailVerified,
+      expiresAt: new Date(Date.now() + LINK_REQUEST_TTL_MINUTES * 60 * 1000),
+    });
+    return { status: "link_required", ticket };
+  }
+
+  // 3. New user — only from an address the provider has verified, or anyone
+  // could claim an email they do not own
+  if (!profile.emailVerified) {
+    throw new Error(
+      `Your ${label} email address is not verified. Verify it with ${label} first, or register with a password.`,
+    );
+  }
+  const user = await User.create({
+    _id: crypto.randomUUID(),
+    email: profile.email,
+    firstName: profile.firstName,
+    lastName: profile.lastName,
+    userType,
+    username: generateUsername(profile.firstName, profile.lastName),
+    roles: [userType === "employer" ? "admin" : "candidate"],
+    emailVerified: profile.emailVerified,
+    emailVerifiedAt: profile.emailVerified ? new Date() : null,
+    hasPurchasedVisibility: false,
+    isActive: true,
+  });
+  await createIdentity(user._id, profile);
+  await setUpNewAccount(user);
+
+  return { status: "signed_in", user };
+}
+
+/**
+ * Links a provider identity to a signed-in user (explicit link flow).
+ * Throws when the identity belongs to someone else or the user already has
+ * an account of that provider linked.
+ */
+export async function linkIdentity(
+  userId: string,
+  profile: OAuthProfile,
+  label: string,
+): Promise<HydratedDocument<IUser>> {
+  const user = await User.findById(userId);
+  if (!user?.isActive) throw new Error("Account is deactivated.");
+
+  const taken = await UserIdentity.findOne({
+    provider: profile.provider,
+    subject: profile.subject,
+  });
+  if (taken) {
+    if (taken.userId === userId) return user;
+    throw new Error(
+      `This ${label} account is already linked to another MatchingDB account.`,
+    );
+  }
+  if (await UserIdentity.exists({ userId, provider: profile.provider })) {
+    throw new Error(
+      `A ${label} account is already linked. Remove it before linking another.`,
+    );
+  }
+
+  await createIdentity(userId, profile);
+  if (profile.emailVerified && profile.email === user.email) {
+    await markEmailVerified(user);
+  }
+  return user;
+}
+
+/** Looks up an unexpired link request by the ticket from the redirect. */
+export async function findLinkRequest(
+  ticket: string,
+): Promise<HydratedDocument<IIdentityLinkRequest> | null> {
+  return IdentityLinkRequest.findOne({
+    _id: hashToken(ticket),
+    expiresAt: { $gt: new Date() },
+  });
+}
+
+/**
+ * Completes a confirmed link request: consumes it (single use) and links the
+ * identity. Confirming by email also proves the address. Returns the user
+ * and provider, or null when the request was already used or has expired.
+ */
+export async function completeLinkRequest(
+  filter: { ticket: string } | { emailToken: string },
+): Promise<{ user: HydratedDocument<IUser>; provider: string } | null> {
+  const request = await IdentityLinkRequest.findOneAndDelete({
+    ...("ticket" in filter
+      ? { _id: hashToken(filter.ticket) }
+      : { emailTokenHash: hashToken(filter.emailToken) }),
+    expiresAt: { $gt: new Date() },
+  });
+  if (!request) return null;
+
+  const user = await User.findById(request.userId);
+  if (!user?.isActive) return null;
+
+  await UserIdentity.updateOne(
+    { provider: request.provider, subject: request.subject },
+    {
+      $setOnInsert: {
+        _id: new Types.ObjectId().toString(),
+        userId: user._id,
+        email: request.email,
+      },
+    },
+    { upsert: true },
+  );
+  if ("emailToken" in filter || request.emailVerified) {
+    await markEmailVerified(user);
+  }
+  return { user, provider: request.provider };
+}
+
+/** Attaches a fresh emailed-confirmation token to a link request. */
+export async function issueLinkEmailToken(
+  request: HydratedDocument<IIdentityLinkRequest>,
+): Promise<string> {
+  const token = generateOpaqueToken();
+  request.emailTokenHash = hashToken(token);
+  await request.save();
+  return token;
+}
+
+/**
+ * Number of ways the user can sign in — a password, each linked identity
+ * and each passkey. Removing one must never take this to zero.
+ */
+export async function countLoginMethods(user: {
+  _id: string;
+  password?: string | null;
+}): Promise<number> {
+  const [identities, passkeys] = await Promise.all([
+    UserIdentity.countDocuments({ userId: user._id }),
+    WebAuthnCredential.countDocuments({ userId: user._id }),
+  ]);
+  return identities + passkeys + (user.password ? 1 : 0);
+}
@@ -0,0 +1,289 @@
+import crypto from "node:crypto";
+import { Request, Response } from "express";
+import { OAuthState, OAuthCode } from "../models";
+import { env } from "../config/env";
+import { generateOpaqueToken, hashToken } from "./token.service";
+
+/* =============================================================================
+ * OAuth `state` handling.
+ *
+ * Each authorization request gets a random state stored server-side together
+ * with what the callback needs (userType, post-login redirect). The state is
+ * also bound to the browser that started the flow through an httpOnly cookie,
+ * so a state value lifted from a URL cannot be completed elsewhere. Records
+ * live in MongoDB by default, so the callback may land on any app instance.
+ * The one-time codes the frontend exchanges for tokens share the same store.
+ * ============================================================================= */
+
+export interface OAuthStateRecord {
+  state: string;
+  provider: string;
+  userType: "candidate" | "employer";
+  redirectPath: string;
+  /** Signed-in user linking this provider; null for a sign-in flow. */
+  linkUserId: string | null;
+  bindingHash: string;
+  expiresAt: Date;
+}
+
+/** A one-time code handed to the frontend; only hashes are stored. */
+export interface OAuthCodeRecord {
+  codeHash: string;
+  userId: string;
+  provider: string;
+  stateHash: string;
+  expiresAt: Date;
+}
+
+export interface OAuthStateStore {
+  save(record: OAuthStateRecord): Promise<void>;
+  /** Atomically removes and returns the record (states are single-use). */
+  consume(state: string): Promise<OAuthStateRecord | null>;
+  saveCode(record: OAuthCodeRecord): Promise<void>;
+  /** Atomically removes and returns an unexpired code (single use). */
+  consumeCode(codeHash: string, now: Date): Promise<OAuthCodeRecord | null>;
+}
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+const CODE_TTL_MS = 60 * 1000;
+const BINDING_COOKIE = "matchdb_oauth_binding";
+const BINDING_COOKIE_PATH = "/api/auth";
+
+// ─── Stores ───────────────────────────────────────────────────────────────────
+
+/** Process-local store — for tests and single-instance development. */
+export class MemoryOAuthStateStore implements OAuthStateStore {
+  private readonly records = new Map<string, OAuthStateRecord>();
+  private readonly codes = new Map<string, OAuthCodeRecord>();
+
+  async save(record: OAuthStateRecord): Promise<void> {
+    this.records.set(record.state, { ...record });
+  }
+
+  async consume(state: string): Promise<OAuthStateRecord | null> {
+    const record = this.records.get(state);
+    this.records.delete(state);
+    return record ?? null;
+  }
+
+  async saveCode(record: OAuthCodeRecord): Promise<void> {
+    this.codes.set(record.codeHash, { ...record });
+  }
+
+  async consumeCode(
+    codeHash: string,
+    now: Date,
+  ): Promise<OAuthCodeRecord | null> {
+    const record = this.codes.get(codeHash);
+    this.codes.delete(codeHash);
+    return record && record.expiresAt > now ? record : null;
+  }
+}
+
+/** MongoDB TTL-collection store shared by every app instance (the default). */
+export class MongoOAuthStateStore implements OAuthStateStore {
+  async save(record: OAuthStateRecord): Promise<void> {
+    await OAuthState.create({
+      _id: record.state,
+      provider: record.provider,
+      userType: record.userType,
+      redirectPath: record.redirectPath,
+      linkUserId: record.linkUserId,
+      bindingHash: record.bindingHash,
+      expiresAt: record.expiresAt,
+    });
+  }
+
+  async consume(state: string): Promise<OAuthStateRecord | null> {
+    const doc = await OAuthState.findOneAndDelete({ _id: state }).lean();
+    if (!doc) return null;
+    return {
+      state: doc._id,
+      provider: doc.provider,
+      userType: doc.userType === "employer" ? "employer" : "candidate",
+      redirectPath: doc.redirectPath,
+      linkUserId: doc.linkUserId ?? null,
+      bindingHash: doc.bindingHash,
+      expiresAt: doc.expiresAt,
+    };
+  }
+
+  async saveCode(record: OAuthCodeRecord): Promise<void> {
+    await OAuthCode.create({
+      _id: record.codeHash,
+      userId: record.userId,
+      provider: record.provider,
+      stateHash: record.stateHash,
+      expiresAt: record.expiresAt,
+    });
+  }
+
+  async consumeCode(
+    codeHash: string,
+    now: Date,
+  ): Promise<OAuthCodeRecord | null> {
+    const doc = await OAuthCode.findOneAndDelete({
+      _id: codeHash,
+      expiresAt: { $gt: now },
+    }).lean();
+    if (!doc) return null;
+    return {
+      codeHash: doc._id,
+      userId: doc.userId,
+      provider: doc.provider,
+      stateHash: doc.stateHash,
+      expiresAt: doc.expiresAt,
+    };
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Only same-site absolute paths are allowed as post-login redirects.
+ * Whitespace and control characters are rejected outright — browsers strip
+ * them, so "/\t/evil.example" would otherwise become "//evil.example" — and
+ * the path must still resolve to CLIENT_URL's origin.
+ */
+export function sanitizeRedirectPath(path: unknown): string {
+  if (typeof path !== "string" || path.length > 512) return "/";
+  if (
+    !path.startsWith("/") ||
+    path.startsWith("//") ||
+    path.includes("\\") ||
+    /[\x00-\x20\x7f]/.test(path)
+  ) {
+    return "/";
+  }
+  const base = new URL(env.CLIENT_URL);
+  let resolved: URL;
+  try {
+    resolved = new URL(path, base);
+  } catch {
+    return "/";
+  }
+  if (resolved.origin !== base.origin) return "/";
+  return resolved.pathname + resolved.search + resolved.hash;
+}
+
+/**
+ * Frontend URL for a user-supplied redirect path. Every redirect back to the
+ * app goes through here: the result is always on CLIENT_URL's origin, and
+ * falls back to its root when `path` would leave it.
+ */
+export function clientRedirectUrl(path: unknown): URL {
+  const base = new URL(env.CLIENT_URL);
+  const url = new URL(sanitizeRedirectPath(path), base);
+  return url.origin === base.origin ? url : new URL("/", base);
+}
+
+function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.cookie;
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+  return null;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && crypto.timingSafeEqual(ab, bb);
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class OAuthStateService {
+  constructor(
+    private readonly store: OAuthStateStore,
+    private readonly clock: () => Date = () => new Date(),
+  ) {}
+
+  /**
+   * Starts an authorization request: persists the state and sets the
+   * browser-binding cookie on the response. Returns the state to send to
+   * the provider.
+   */
+  async begin(
+    res: Response,
+    params: {
+      provider: string;
+      userType: "candidate" | "employer";
+      redirectPath: string;
+      linkUserId?: string;
+    },
+  ): Promise<string> {
+    const state = generateOpaqueToken();
+    const binding = generateOpaqueToken();
+    const now = this.clock();
+
+    await this.store.save({
+      state,
+      provider: params.provider,
+      userType: params.userType,
+      redirectPath: sanitizeRedirectPath(params.redirectPath),
+      linkUserId: params.linkUserId ?? null,
+      bindingHash: hashToken(binding),
+      expiresAt: new Date(now.getTime() + STATE_TTL_MS),
+    });
+
+    res.cookie(BINDING_COOKIE, binding, {
+      httpOnly: true,
+      secure: env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: BINDING_COOKIE_PATH,
+      maxAge: STATE_TTL_MS,
+    });
+    return state;
+  }
+
+  /**
+   * Completes a request: consumes the state and checks it was issued to
+   * this browser and provider. Returns null when any check fails.
+   */
+  async complete(
+    req: Request,
+    res: Response,
+    provider: string,
+  ): Promise<OAuthStateRecord | null> {
+    const state = typeof req.query.state === "string" ? req.query.state : "";
+    const binding = readCookie(req, BINDING_COOKIE);
+    res.clearCookie(BINDING_COOKIE, { path: BINDING_COOKIE_PATH });
+    if (!state || !binding) return null;
+
+    const record = await this.store.consume(state);
+    if (!record) return null;
+    if (record.provider !== provider) return null;
+    if (record.expiresAt <= this.clock()) return null;
+    if (!safeEqual(record.bindingHash, hashToken(binding))) return null;
+    return record;
+  }
+
+  /**
+   * Issues the one-time code the frontend exchanges for tokens, so tokens
+   * never appear in a redirect URL. The code only works together with the
+   * state of the flow it came from.
+   */
+  async issueCode(userId: string, record: OAuthStateRecord): Promise<string> {
+    const code = generateOpaqueToken();
+    await this.store.saveCode({
+      codeHash: hashToken(code),
+      userId,
+      provider: record.provider,
+      stateHash: hashToken(record.state),
+      expiresAt: new Date(this.clock().getTime() + CODE_TTL_MS),
+    });
+    return code;
+  }
+
+  /** Redeems a code (single use). Returns the user id, or null if invalid. */
+  async redeemCode(code: string, state: string): Promise<string | null> {
+    const record = await this.store.consumeCode(hashToken(code), this.clock());
+    if (!record || !safeEqual(record.stateHash, hashToken(state))) return null;
+    return record.userId;
+  }
+}
+
+export const oauthStates = new OAuthStateService(new MongoOAuthStateStore());
@@ -11,6 +11,94 @@ interface WelcomeEmailParams {
   userType: "candidate" | "vendor" | "admin";
 }
 
+interface VerificationEmailParams {
+  to: string;
+  firstName: string;
+  verifyUrl: string;
+}
+
+interface PasswordResetEmailParams {
+  to: string;
+  firstName: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+interface MagicLinkEmailParams {
+  to: string;
+  firstName: string;
+  signInUrl: string;
+  expiresInMinutes: number;
+}
+
+interface PasswordChangedEmailParams {
+  to: string;
+  firstName: string;
+  action: "changed" | "set";
+}
+
+interface SuspiciousSessionEmailParams {
+  to: string;
+  firstName: string;
+  device: string;
+  ip: string | null;
+}
+
+interface UnusualSignInEmailParams {
+  to: string;
+  firstName: string;
+  failedAttempts: number;
+  ip: string | null;
+  lockedUntil: Date;
+}
+
+interface IdentityLinkEmailParams {
+  to: string;
+  firstName: string;
+  provider: string;
+  confirmUrl: string;
+  expiresInMinutes: number;
+}
+
+interface IdentityLinkedEmailParams {
+  to: string;
+  firstName: string;
+  provider: string;
+}
+
+interface CompanyInvitationEmailParams {
+  to: string;
+  companyName: string;
+  inviterName: string;
+  role: string;
+  acceptUrl: string;
+  expiresInHours: number;
+}
+
+interface AccountDeletionScheduledEmailParams {
+  to: string;
+  firstName: string;
+  deletionDate: Date;
+  restoreUrl: string;
+}
+
+interface EmailChangeVerificationEmailParams {
+  to: string;
+  firstName: string;
+  confirmUrl: string;
+}
+
+interface EmailChangedEmailParams {
+  to: string;
+  firstName: string;
+  newEmail: string;
+}
+
+interface AccountNoticeEmailParams {
+  to: string;
+  firstName: string;
+}
+
 interface SubscriptionEmailParams {
   to: string;
   firstName: string;
@@ -95,3 +183,465 @@ export async function sendSubscriptionActivatedEmail({
     `,
   });
 }
+
+/** Wraps email body markup in the shared MatchDB header/card layout. */
+function layout(content: string): string {
+  return `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #1d4479 0%, #3b6fa6 100%); padding: 24px; text-align: center;">
+          <h1 style="color: #fff; margin: 0; font-size: 28px;">Match<span style="color: #a8cbf5;">DB</span></h1>
+        </div>
+        <div style="padding: 32px 24px; background: #ffffff;">
+          ${content}
+        </div>
+      </div>
+    `;
+}
+
+/** For text that other users control, e.g. a company name. */
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+function button(href: string, label: string): string {
+  return `
+          <div style="text-align: center; margin: 32px 0;">
+            <a href="${href}" style="background: #3b6fa6; color: #fff; padding: 12px 32px; text-decoration: none; border-radius: 4px; font-weight: bold;">
+              ${label}
+            </a>
+          </div>`;
+}
+
+export async function sendVerificationEmail({
+  to,
+  firstName,
+  verifyUrl,
+}: VerificationEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(`[SendGrid] (dev) Verification email to ${to}: ${verifyUrl}`);
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: "Verify your MatchingDB email address",
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">Confirm your email, ${firstName}</h2>
+          <p style="color: #444; line-height: 1.6;">
+            Please confirm that this address belongs to you. Purchases and
+            subscriptions are unlocked once your email is verified.
+          </p>
+          ${button(verifyUrl, "Verify Email")}
+          <p style="color: #888; font-size: 12px;">This link expires in ${env.EMAIL_VERIFICATION_EXPIRES}. If you did not create this account, please ignore this email.</p>
+    `),
+  });
+}
+
+export async function sendPasswordResetEmail({
+  to,
+  firstName,
+  resetUrl,
+  expiresInMinutes,
+}: PasswordResetEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(`[SendGrid] (dev) Password reset email to ${to}: ${resetUrl}`);
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: "Reset your MatchingDB password",
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">Password reset requested</h2>
+          <p style="color: #444; line-height: 1.6;">
+            Hi ${firstName}, we received a request to reset your password.
+            The link below can be used once and expires in ${expiresInMinutes} minutes.
+          </p>
+          ${button(resetUrl, "Reset Password")}
+          <p style="color: #888; font-size: 12px;">If you did not request this, you can safely ignore this email — your password will not change.</p>
+    `),
+  });
+}
+
+export async function sendMagicLinkEmail({
+  to,
+  firstName,
+  signInUrl,
+  expiresInMinutes,
+}: MagicLinkEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(`[SendGrid] (dev) Magic sign-in link to ${to}: ${signInUrl}`);
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: "Your MatchingDB sign-in link",
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">Sign in to MatchingDB</h2>
+          <p style="color: #444; line-height: 1.6;">
+            Hi ${firstName}, use the button below to sign in — no password needed.
+            The link can be used once and expires in ${expiresInMinutes} minutes.
+          </p>
+          ${button(signInUrl, "Sign In")}
+          <p style="color: #888; font-size: 12px;">If you did not request this, you can safely ignore this email.</p>
+    `),
+  });
+}
+
+export async function sendPasswordChangedEmail({
+  to,
+  firstName,
+  action,
+}: PasswordChangedEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(`[SendGrid] (dev) Password ${action} notification to ${to}`);
+    return;
+  }
+
+  const headline = action === "set" ? "Password added" : "Password changed";
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: `Security alert: your MatchingDB password was ${action}`,
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">${headline}</h2>
+          <p style="color: #444; line-height: 1.6;">
+            Hi ${firstName}, the password on your account was just ${action}.
+            For your security, all other devices have been signed out.
+          </p>
+          ${button(`${env.CLIENT_URL}/forgot-password`, "Secure My Account")}
+          <p style="color: #888; font-size: 12px;">If this was you, no action is needed. If not, reset your password immediately.</p>
+    `),
+  });
+}
+
+export async function sendSuspiciousSessionEmail({
+  to,
+  firstName,
+  device,
+  ip,
+}: SuspiciousSessionEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(`[SendGrid] (dev) Suspicious session alert to ${to} (${device})`);
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: "Security alert: a MatchingDB session was signed out",
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">We signed out a session</h2>
+          <p style="color: #444; line-height: 1.6;">
+            Hi ${firstName}, an old sign-in token for your <strong>${device}</strong>
+            session was used again${ip ? ` from IP <strong>${ip}</strong>` : ""}. This can mean the
+            token was copied, so we signed that session out as a precaution.
+          </p>
+          <p style="color: #444; line-height: 1.6;">
+            If you don't recognise this activity, change your password.
+          </p>
+          ${button(`${env.CLIENT_URL}/forgot-password`, "Secure My Account")}
+    `),
+  });
+}
+
+export async function sendUnusualSignInEmail({
+  to,
+  firstName,
+  failedAttempts,
+  ip,
+  lockedUntil,
+}: UnusualSignInEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(
+      `[SendGrid] (dev) Unusual sign-in attempts email to ${to} (${failedAttempts} failures)`,
+    );
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: "Security alert: unusual sign-in attempts on your MatchingDB account",
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">Unusual sign-in attempts</h2>
+          <p style="color: #444; line-height: 1.6;">
+            Hi ${firstName}, there were <strong>${failedAttempts}</strong> failed attempts to sign in to
+            your account${ip ? ` (most recently from IP <strong>${ip}</strong>)` : ""}.
+            Password sign-in is paused until <strong>${lockedUntil.toUTCString()}</strong>.
+          </p>
+          <p style="color: #444; line-height: 1.6;">
+            If this wasn't you, we recommend resetting your password.
+          </p>
+          ${button(`${env.CLIENT_URL}/forgot-password`, "Reset Password")}
+    `),
+  });
+}
+
+export async function sendIdentityLinkEmail({
+  to,
+  firstName,
+  provider,
+  confirmUrl,
+  expiresInMinutes,
+}: IdentityLinkEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(
+      `[SendGrid] (dev) ${provider} link confirmation email to ${to}: ${confirmUrl}`,
+    );
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: `Confirm signing in to MatchingDB with ${provider}`,
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">Link your ${provider} account?</h2>
+          <p style="color: #444; line-height: 1.6;">
+            Hi ${firstName}, someone tried to sign in to MatchingDB with a ${provider}
+            account that uses this email address. Confirm below to link it — you can
+            then sign in with ${provider} as well as your current method.
+            The link can be used once and expires in ${expiresInMinutes} minutes.
+          </p>
+          ${button(confirmUrl, `Link ${provider}`)}
+          <p style="color: #888; font-size: 12px;">If this wasn't you, ignore this email — nothing will be linked.</p>
+    `),
+  });
+}
+
+export async function sendIdentityLinkedEmail({
+  to,
+  firstName,
+  provider,
+}: IdentityLinkedEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(`[SendGrid] (dev) ${provider} linked notification to ${to}`);
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: `Security alert: ${provider} sign-in was added to your MatchingDB account`,
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">${provider} sign-in added</h2>
+          <p style="color: #444; line-height: 1.6;">
+            Hi ${firstName}, a ${provider} account was just linked to your MatchingDB
+            account and can now be used to sign in.
+          </p>
+          <p style="color: #444; line-height: 1.6;">
+            If this wasn't you, remove it under Account settings → Sign-in methods
+            and reset your password.
+          </p>
+          ${button(`${env.CLIENT_URL}/forgot-password`, "Secure My Account")}
+    `),
+  });
+}
+
+export async function sendIdentityUnlinkedEmail({
+  to,
+  firstName,
+  provider,
+}: IdentityLinkedEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(`[SendGrid] (dev) ${provider} unlinked notification to ${to}`);
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: `Security alert: ${provider} sign-in was removed from your MatchingDB account`,
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">${provider} sign-in removed</h2>
+          <p style="color: #444; line-height: 1.6;">
+            Hi ${firstName}, a ${provider} account was just unlinked from your
+            MatchingDB account and can no longer be used to sign in.
+          </p>
+          <p style="color: #444; line-height: 1.6;">
+            If this wasn't you, someone may have access to your account. Reset
+            your password and review your sign-in methods under Account settings.
+          </p>
+          ${button(`${env.CLIENT_URL}/forgot-password`, "Secure My Account")}
+    `),
+  });
+}
+
+export async function sendCompanyInvitationEmail({
+  to,
+  companyName,
+  inviterName,
+  role,
+  acceptUrl,
+  expiresInHours,
+}: CompanyInvitationEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(
+      `[SendGrid] (dev) Invitation to ${companyName} (${role}) for ${to}: ${acceptUrl}`,
+    );
+    return;
+  }
+
+  const company = escapeHtml(companyName);
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: `You're invited to join ${companyName} on MatchingDB`,
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">Join ${company} on MatchingDB</h2>
+          <p style="color: #444; line-height: 1.6;">
+            ${escapeHtml(inviterName)} invited you to join ${company} as
+            <strong>${escapeHtml(role)}</strong>. Accept below to create your account,
+            or to add the company to the MatchingDB account you already have.
+            The invitation expires in ${expiresInHours} hours.
+          </p>
+          ${button(acceptUrl, "Accept Invitation")}
+          <p style="color: #888; font-size: 12px;">If you weren't expecting this, you can ignore this email.</p>
+    `),
+  });
+}
+
+export async function sendAccountDeletionScheduledEmail({
+  to,
+  firstName,
+  deletionDate,
+  restoreUrl,
+}: AccountDeletionScheduledEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(
+      `[SendGrid] (dev) Account deletion scheduled for ${to} on ${deletionDate.toISOString()}: ${restoreUrl}`,
+    );
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: "Your MatchingDB account is scheduled for deletion",
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">Account deletion scheduled</h2>
+          <p style="color: #444; line-height: 1.6;">
+            Hi ${firstName}, your account has been deactivated and all devices were
+            signed out. It will be permanently deleted on
+            <strong>${deletionDate.toLocaleDateString()}</strong>, and any subscription
+            you pay for will not renew.
+          </p>
+          <p style="color: #444; line-height: 1.6;">
+            Changed your mind? Restore your account any time before then.
+          </p>
+          ${button(restoreUrl, "Restore My Account")}
+          <p style="color: #888; font-size: 12px;">If you did not request this, restore your account and reset your password immediately.</p>
+    `),
+  });
+}
+
+export async function sendAccountRestoredEmail({
+  to,
+  firstName,
+}: AccountNoticeEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(`[SendGrid] (dev) Account restored notification to ${to}`);
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: "Your MatchingDB account has been restored",
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">Welcome back, ${firstName}</h2>
+          <p style="color: #444; line-height: 1.6;">
+            The scheduled deletion of your account was canceled and you can sign in
+            again. Subscriptions you pay for will renew as usual.
+          </p>
+          ${button(`${env.CLIENT_URL}/login`, "Sign In")}
+    `),
+  });
+}
+
+export async function sendAccountDeletedEmail({
+  to,
+  firstName,
+}: AccountNoticeEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(`[SendGrid] (dev) Account deleted notification to ${to}`);
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: "Your MatchingDB account has been deleted",
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">Account deleted</h2>
+          <p style="color: #444; line-height: 1.6;">
+            Hi ${firstName}, your MatchingDB account and its data have now been
+            permanently deleted and its subscription canceled. Payment records we
+            are required to keep for accounting no longer identify you.
+          </p>
+          <p style="color: #888; font-size: 12px;">Thank you for using MatchingDB.</p>
+    `),
+  });
+}
+
+export async function sendEmailChangeVerificationEmail({
+  to,
+  firstName,
+  confirmUrl,
+}: EmailChangeVerificationEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(`[SendGrid] (dev) Email change confirmation to ${to}: ${confirmUrl}`);
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: "Confirm your new MatchingDB email address",
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">Confirm your new email, ${firstName}</h2>
+          <p style="color: #444; line-height: 1.6;">
+            You asked to use this address for your MatchingDB account. Your
+            current address stays in place until you confirm.
+          </p>
+          ${button(confirmUrl, "Confirm Email")}
+          <p style="color: #888; font-size: 12px;">This link expires in ${env.EMAIL_VERIFICATION_EXPIRES}. If you did not request this, please ignore this email.</p>
+    `),
+  });
+}
+
+export async function sendEmailChangedEmail({
+  to,
+  firstName,
+  newEmail,
+}: EmailChangedEmailParams): Promise<void> {
+  if (!env.SENDGRID_API_KEY) {
+    console.log(`[SendGrid] (dev) Email changed notification to ${to} (now ${newEmail})`);
+    return;
+  }
+
+  await sgMail.send({
+    to,
+    from: { email: env.SENDGRID_FROM_EMAIL, name: env.SENDGRID_FROM_NAME },
+    subject: "Security alert: your MatchingDB email address was changed",
+    html: layout(`
+          <h2 style="color: #1d4479; margin-top: 0;">Email address changed</h2>
+          <p style="color: #444; line-height: 1.6;">
+            Hi ${firstName}, your account now uses <strong>${escapeHtml(newEmail)}</strong>
+            to sign in and receive notifications. This address will no longer get
+            account emails.
+          </p>
+          <p style="color: #888; font-size: 12px;">If you did not make this change, contact support immediately.</p>
+    `),
+  });
+}
@@ -0,0 +1,209 @@
+import crypto from "node:crypto";
+import { Request } from "express";
+import jwt from "jsonwebtoken";
+import { HydratedDocument } from "mongoose";
+import { RefreshToken, IRefreshToken } from "../models";
+import { env } from "../config/env";
+import { rolesFor, permissionsFor } from "../config/roles";
+import {
+  RefreshTokenPayload,
+  signAccessToken,
+  signRefreshToken,
+} from "./jwt.service";
+import { hashToken } from "./token.service";
+
+/** Identifies the login session a token pair belongs to. */
+export interface SessionClaims {
+  /** Stable id shared by every refresh token rotated from one sign-in. */
+  sessionId: string;
+  /** Unix seconds of the interactive sign-in that started the session. */
+  authTime: number;
+}
+
+export interface ClientContext {
+  userAgent: string | null;
+  ip: string | null;
+}
+
+/** Claims for a brand-new session (an interactive sign-in happening now). */
+export function startSession(): SessionClaims {
+  return {
+    sessionId: crypto.randomUUID(),
+    authTime: Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * Signs an access/refresh pair for a session. Defaults to a brand-new
+ * session; pass the existing claims when rotating within a session.
+ */
+export function makeTokens(
+  user: {
+    id: string;
+    email: string;
+    userType: string;
+    username?: string | null;
+    roles?: string[] | null;
+    companyId?: string | null;
+  },
+  plan: string,
+  session: SessionClaims = startSession(),
+) {
+  const roles = rolesFor(user);
+  const access = signAccessToken({
+    userId: user.id,
+    email: user.email,
+    userType: user.userType,
+    plan,
+    username: user.username || "",
+    roles,
+    permissions: permissionsFor(roles),
+    companyId: user.companyId ?? null,
+    authTime: session.authTime,
+    sessionId: session.sessionId,
+  });
+  const refresh = signRefreshToken({
+    userId: user.id,
+    tokenId: crypto.randomUUID(),
+    authTime: session.authTime,
+    sessionId: session.sessionId,
+  });
+  return { access, refresh, session };
+}
+
+/** Whether the access token comes from a sign-in within REAUTH_MAX_AGE_MINUTES. */
+export function recentlyAuthenticated(req: Request): boolean {
+  const authTime = req.user!.authTime ?? 0;
+  return (
+    Math.floor(Date.now() / 1000) - authTime <= env.REAUTH_MAX_AGE_MINUTES * 60
+  );
+}
+
+export function clientContext(req: Request): ClientContext {
+  return {
+    userAgent: req.get("user-agent")?.slice(0, 512) || null,
+    ip: req.ip || null,
+  };
+}
+
+/**
+ * Turns a user-agent string into a short label like "Chrome on Windows".
+ * Deliberately coarse — it only needs to help users recognise their devices.
+ */
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent) return "Unknown device";
+
+  const browsers: Array<[RegExp, string]> = [
+    [/Edg\//, "Edge"],
+    [/OPR\/|Opera/, "Opera"],
+    [/Firefox\//, "Firefox"],
+    [/Chrome\//, "Chrome"],
+    [/Safari\//, "Safari"],
+  ];
+  const systems: Array<[RegExp, string]> = [
+    [/iPhone|iPad|iPod/, "iOS"],
+    [/Android/, "Android"],
+    [/Windows/, "Windows"],
+    [/Mac OS X|Macintosh/, "macOS"],
+    [/CrOS/, "ChromeOS"],
+    [/Linux/, "Linux"],
+  ];
+
+  const browser = browsers.find(([re]) => re.test(userAgent))?.[1];
+  const os = systems.find(([re]) => re.test(userAgent))?.[1];
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || "Unknown device";
+}
+
+/**
+ * Throws when the refresh-token collection still has the unique index on the
+ * plaintext `token` field: every token stored without one would collide on
+ * it and sign-in would fail. `npm run migrate:refresh-tokens` removes it.
+ */
+export async function assertRefreshTokensMigrated(): Promise<void> {
+  const indexes = await RefreshToken.collection.indexes().catch((err) => {
+    // No collection yet (fresh database) — nothing to migrate
+    if ((err as { code?: number }).code === 26) return [];
+    throw err;
+  });
+  if (indexes.some((index) => index.name === "token_1")) {
+    throw new Error(
+      "Refresh tokens are not migrated (legacy token_1 index found). Run `npm run migrate:refresh-tokens` before starting the server.",
+    );
+  }
+}
+
+/**
+ * Persists a refresh token along with the device it was issued to. Only a
+ * hash is stored, keyed by the token's `tokenId`; the expiry is read from the
+ * signed `exp` claim so it always matches JWT_REFRESH_EXPIRES.
+ */
+export async function storeRefreshToken(
+  userId: string,
+  token: string,
+  session: SessionClaims,
+  client: ClientContext,
+  startedAt: Date = new Date(),
+): Promise<void> {
+  const { tokenId, exp } = jwt.decode(token) as RefreshTokenPayload & {
+    exp: number;
+  };
+  await RefreshToken.create({
+    tokenId,
+    tokenHash: hashToken(token),
+    userId,
+    expiresAt: new Date(exp * 1000),
+    familyId: session.sessionId,
+    userAgent: client.userAgent,
+    ip: client.ip,
+    lastUsedAt: new Date(),
+    startedAt,
+  });
+}
+
+/**
+ * Finds the stored record for a raw refresh JWT. The signature is not checked
+ * here — matching the stored hash is what proves the token is one we issued.
+ */
+export async function findStoredRefreshToken(
+  token: string,
+): Promise<HydratedDocument<IRefreshToken> | null> {
+  const decoded = jwt.decode(token) as Partial<RefreshTokenPayload> | null;
+  if (!decoded?.tokenId) return null;
+
+  const stored = await RefreshToken.findOne({ tokenId: decoded.tokenId });
+  if (!stored) return null;
+
+  const expected = Buffer.from(stored.tokenHash, "hex");
+  const actual = Buffer.from(hashToken(token), "hex");
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+  return stored;
+}
+
+/** Revokes every refresh token in a session family. */
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+): Promise<number> {
+  const result = await RefreshToken.updateMany(
+    { userId, familyId: sessionId, revoked: false },
+    { revoked: true },
+  );
+  return result.modifiedCount;
+}
+
+/** Revokes every session for a user, optionally sparing one. */
+export async function revokeAllSessions(
+  userId: string,
+  exceptSessionId?: string,
+): Promise<number> {
+  const filter: Record<string, unknown> = { userId, revoked: false };
+  if (exceptSessionId) filter.familyId = { $ne: exceptSessionId };
+  const result = await RefreshToken.updateMany(filter, { revoked: true });
+  return result.modifiedCount;
+}
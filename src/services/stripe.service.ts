@@ -17,6 +17,8 @@ export interface PlanDefinition {
   highlighted?: boolean;
   jobLimit: number;      // max active job postings
   pokeLimit: number;     // monthly pokes (Infinity = unlimited)
+  includedSeats: number; // team members covered by the plan price
+  maxSeats: number;      // hard cap incl. extra seats and pending invitations
 }
 
 export const VENDOR_PLAN_DEFINITIONS: PlanDefinition[] = [
@@ -29,10 +31,13 @@ export const VENDOR_PLAN_DEFINITIONS: PlanDefinition[] = [
       '0 active job postings',
       'Browse candidate profiles',
       'Saved searches',
+      '2 team members',
     ],
     stripePriceId: '',
     jobLimit: 0,
     pokeLimit: 0,
+    includedSeats: 2,
+    maxSeats: 2,
   },
   {
     id: 'basic',
@@ -44,10 +49,13 @@ export const VENDOR_PLAN_DEFINITIONS: PlanDefinition[] = [
       'Candidate matching & shortlisting',
       '25 Poke messages/month',
       'Basic analytics dashboard',
+      '3 team members included, up to 10',
     ],
     stripePriceId: env.STRIPE_PRICE_VENDOR_BASIC,
     jobLimit: 5,
     pokeLimit: 25,
+    includedSeats: 3,
+    maxSeats: 10,
   },
   {
     id: 'pro',
@@ -60,11 +68,14 @@ export const VENDOR_PLAN_DEFINITIONS: PlanDefinition[] = [
       '50 Poke messages/month',
       'Advanced analytics & reports',
       'Email support',
+      '5 team members included, up to 25',
     ],
     stripePriceId: env.STRIPE_PRICE_VENDOR_PRO,
     highlighted: true,
     jobLimit: 10,
     pokeLimit: 50,
+    includedSeats: 5,
+    maxSeats: 25,
   },
   {
     id: 'pro_plus',
@@ -77,13 +88,28 @@ export const VENDOR_PLAN_DEFINITIONS: PlanDefinition[] = [
       'Dedicated account manager',
       'API access & custom integrations',
       'Priority support',
+      '10 team members included, up to 100',
     ],
     stripePriceId: env.STRIPE_PRICE_VENDOR_PRO_PLUS,
     jobLimit: 20,
     pokeLimit: Infinity,
+    includedSeats: 10,
+    maxSeats: 100,
   },
 ];
 
+// ─── Extra Seats (vendor plans) ──────────────────────────────────────────────
+
+/**
+ * Members beyond a plan's includedSeats are billed per seat as a second item
+ * on the vendor subscription, whose quantity follows the member count.
+ */
+export const EXTRA_SEAT = {
+  price: 9,
+  interval: 'month' as const,
+  stripePriceId: env.STRIPE_PRICE_VENDOR_SEAT,
+};
+
 // ─── Marketer Subscription Plan (recurring monthly) ─────────────────────────
 
 export const MARKETER_PLAN: PlanDefinition = {
@@ -101,6 +127,8 @@ export const MARKETER_PLAN: PlanDefinition = {
   stripePriceId: env.STRIPE_MARKETER_PRICE_ID,
   jobLimit: 0,
   pokeLimit: 0,
+  includedSeats: 5,
+  maxSeats: 5,
 };
 
 // ─── Candidate One-Time Visibility Packages ───────────────────────────────────
@@ -166,11 +194,15 @@ export async function createOrGetStripeCustomer(
   userId: string,
   email: string,
   name: string,
+  companyId?: string | null,
 ): Promise<string> {
   const customer = await stripe.customers.create({
     email,
     name,
-    metadata: { matchdb_user_id: userId },
+    metadata: {
+      matchdb_user_id: userId,
+      ...(companyId ? { matchdb_company_id: companyId } : {}),
+    },
   });
   return customer.id;
 }
@@ -182,11 +214,20 @@ export async function createCheckoutSession(params: {
   successUrl: string;
   cancelUrl: string;
   userId: string;
+  /** Seats beyond the plan's included ones, billed at EXTRA_SEAT. */
+  extraSeats?: number;
 }): Promise<string> {
+  const lineItems = [{ price: params.stripePriceId, quantity: 1 }];
+  if (params.extraSeats && EXTRA_SEAT.stripePriceId) {
+    lineItems.push({
+      price: EXTRA_SEAT.stripePriceId,
+      quantity: params.extraSeats,
+    });
+  }
   const session = await stripe.checkout.sessions.create({
     customer: params.stripeCustomerId,
     payment_method_types: ['card'],
-    line_items: [{ price: params.stripePriceId, quantity: 1 }],
+    line_items: lineItems,
     mode: 'subscription',
     success_url: params.successUrl,
     cancel_url: params.cancelUrl,
@@ -228,3 +269,57 @@ export async function createCustomerPortalSession(
   });
   return session.url;
 }
+
+/**
+ * Stops (or resumes) renewal at the end of the current period. Used while an
+ * account waits out its deletion grace period.
+ */
+export async function setCancelAtPeriodEnd(
+  stripeSubId: string,
+  cancel: boolean,
+): Promise<void> {
+  await stripe.subscriptions.update(stripeSubId, {
+    cancel_at_period_end: cancel,
+  });
+}
+
+/** Cancels a subscription immediately; already-canceled ones are left alone. */
+export async function cancelSubscription(stripeSubId: string): Promise<void> {
+  const sub = await stripe.subscriptions.retrieve(stripeSubId);
+  if (sub.status === 'canceled') return;
+  await stripe.subscriptions.cancel(stripeSubId);
+}
+
+/**
+ * Sets the extra-seat quantity on a subscription, adding or removing the
+ * seat item as needed (prorated). Returns the seat item id, or null when the
+ * subscription no longer has one.
+ */
+export async function setExtraSeatQuantity(
+  stripeSubId: string,
+  quantity: number,
+  seatItemId?: string | null,
+): Promise<string | null> {
+  if (quantity <= 0) {
+    if (seatItemId) {
+      await stripe.subscriptionItems.del(seatItemId, {
+        proration_behavior: 'create_prorations',
+      });
+    }
+    return null;
+  }
+  if (seatItemId) {
+    await stripe.subscriptionItems.update(seatItemId, {
+      quantity,
+      proration_behavior: 'create_prorations',
+    });
+    return seatItemId;
+  }
+  const item = await stripe.subscriptionItems.create({
+    subscription: stripeSubId,
+    price: EXTRA_SEAT.stripePriceId,
+    quantity,
+    proration_behavior: 'create_prorations',
+  });
+  return item.id;
+}
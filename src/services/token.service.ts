@@ -0,0 +1,42 @@
+import crypto from "node:crypto";
+import { env } from "../config/env";
+
+/** Generates a random, URL-safe opaque token suitable for emailed links. */
+export function generateOpaqueToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString("base64url");
+}
+
+/** SHA-256 hex digest — only this is persisted, never the raw token. */
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// ─── Secrets at rest (AES-256-GCM) ────────────────────────────────────────────
+
+function encryptionKey(): Buffer {
+  return crypto.createHash("sha256").update(env.DATA_ENCRYPTION_KEY).digest();
+}
+
+/** Encrypts a small secret for storage as `iv.tag.ciphertext` (base64url). */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((b) => b.toString("base64url"))
+    .join(".");
+}
+
+export function decryptSecret(stored: string): string {
+  const [iv, tag, ciphertext] = stored
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString(
+    "utf8",
+  );
+}
@@ -0,0 +1,121 @@
+import crypto from "node:crypto";
+
+/* =============================================================================
+ * TOTP (RFC 6238) — SHA-1, 6 digits, 30-second steps, which is what every
+ * mainstream authenticator app expects. All functions take an explicit clock
+ * (`now`, ms since epoch) so codes can be checked offline and deterministically.
+ * ============================================================================= */
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replaceAll(/[^A-Z2-7]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** HOTP (RFC 4226) code for a counter value. */
+function hotp(secret: Buffer, counter: number): string {
+  const msg = Buffer.alloc(8);
+  msg.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac("sha1", secret).update(msg).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/** Time-step counter for a given clock reading. */
+export function totpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/** Generates a new random base32 secret (160 bits, as RFC 4226 recommends). */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function generateTotp(secret: string, now: number = Date.now()): string {
+  return hotp(base32Decode(secret), totpStep(now));
+}
+
+/**
+ * Checks a code against the current step ± `window` steps (clock drift).
+ * Returns the matching step so callers can reject replays, or null.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  now: number = Date.now(),
+  window = 1,
+): number | null {
+  const normalized = code.replaceAll(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const current = totpStep(now);
+  for (let step = current - window; step <= current + window; step++) {
+    const expected = hotp(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/** otpauth:// URI for QR codes — see the Google Authenticator key URI format. */
+export function buildOtpauthUri(
+  secret: string,
+  accountName: string,
+  issuer: string,
+): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/** One-time recovery codes in `xxxxx-xxxxx` form (lowercase hex). */
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+/** Canonical form used for hashing/comparing recovery codes. */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replaceAll(/[^0-9a-f]/g, "");
+}
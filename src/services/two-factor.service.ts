@@ -0,0 +1,53 @@
+import { User } from "../models";
+import { verifyTotp, normalizeRecoveryCode } from "./totp.service";
+import { decryptSecret, hashToken } from "./token.service";
+
+export interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export type SecondFactorMethod = "totp" | "recovery_code";
+
+/**
+ * Verifies and consumes a second factor for a user with 2FA enabled.
+ * TOTP codes are single-use (the accepted step is recorded and earlier steps
+ * are refused); recovery codes are removed once used.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  input: SecondFactorInput,
+  now: number = Date.now(),
+): Promise<SecondFactorMethod | null> {
+  const user = await User.findById(userId).select(
+    "+twoFactorSecret +twoFactorLastStep",
+  );
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) return null;
+
+  if (input.code) {
+    const step = verifyTotp(decryptSecret(user.twoFactorSecret), input.code, now);
+    if (step === null) return null;
+    const claimed = await User.updateOne(
+      {
+        _id: userId,
+        $or: [
+          { twoFactorLastStep: null },
+          { twoFactorLastStep: { $lt: step } },
+        ],
+      },
+      { twoFactorLastStep: step },
+    );
+    return claimed.modifiedCount > 0 ? "totp" : null;
+  }
+
+  if (input.recoveryCode) {
+    const hash = hashToken(normalizeRecoveryCode(input.recoveryCode));
+    const consumed = await User.updateOne(
+      { _id: userId, twoFactorRecoveryCodes: hash },
+      { $pull: { twoFactorRecoveryCodes: hash } },
+    );
+    return consumed.modifiedCount > 0 ? "recovery_code" : null;
+  }
+
+  return null;
+}
@@ -0,0 +1,144 @@
+import crypto from "node:crypto";
+import { User } from "../models";
+
+/* =============================================================================
+ * Usernames: generated at sign-up, changeable later via PATCH /api/user/profile.
+ * Stored lowercase: letters, digits and single hyphens, 3–40 characters.
+ * Profile URLs are built from them (GET /api/users/:username), so names that
+ * collide with app routes or could pass for staff are reserved.
+ * ============================================================================= */
+
+export const USERNAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 40;
+
+const SUGGESTION_COUNT = 3;
+
+const RESERVED_USERNAMES = new Set([
+  "about",
+  "account",
+  "admin",
+  "administrator",
+  "api",
+  "auth",
+  "billing",
+  "blog",
+  "candidate",
+  "candidates",
+  "company",
+  "companies",
+  "contact",
+  "dashboard",
+  "employer",
+  "employers",
+  "help",
+  "jobs",
+  "login",
+  "logout",
+  "matchdb",
+  "matchingdb",
+  "me",
+  "moderator",
+  "null",
+  "payments",
+  "pricing",
+  "privacy",
+  "profile",
+  "register",
+  "root",
+  "security",
+  "settings",
+  "signin",
+  "signup",
+  "staff",
+  "support",
+  "system",
+  "terms",
+  "undefined",
+  "user",
+  "users",
+  "vendor",
+  "vendors",
+]);
+
+export type UsernameStatus = "available" | "invalid" | "reserved" | "taken";
+
+/**
+ * Generates a URL-safe username slug from name parts + a short suffix taken
+ * from `seed` (a random one when omitted). Long names are cut so the result
+ * stays within USERNAME_MAX_LENGTH.
+ */
+export function generateUsername(
+  firstName: string | null | undefined,
+  lastName: string | null | undefined,
+  seed: string = crypto.randomUUID(),
+): string {
+  const clean = (s?: string | null) =>
+    (s || "").toLowerCase().replaceAll(/[^a-z0-9]/g, "");
+  const suffix = seed.replaceAll("-", "").slice(0, 6);
+  const name = [clean(firstName), clean(lastName)]
+    .filter(Boolean)
+    .join("-")
+    .slice(0, USERNAME_MAX_LENGTH - suffix.length - 1)
+    .replace(/-+$/, "");
+  return `${name || "user"}-${suffix}`;
+}
+
+/** Lowercased as stored; the pattern and length limits still apply. */
+export function isValidUsername(username: string): boolean {
+  return (
+    username.length >= USERNAME_MIN_LENGTH &&
+    username.length <= USERNAME_MAX_LENGTH &&
+    USERNAME_PATTERN.test(username)
+  );
+}
+
+export function isReservedUsername(username: string): boolean {
+  return RESERVED_USERNAMES.has(username);
+}
+
+/** Whether another user already has `username`. */
+export async function isUsernameTaken(
+  username: string,
+  exceptUserId?: string,
+): Promise<boolean> {
+  const filter: Record<string, unknown> = { username };
+  if (exceptUserId) filter._id = { $ne: exceptUserId };
+  return (await User.exists(filter)) !== null;
+}
+
+/** Whether `username` could be claimed (by anyone but `exceptUserId`). */
+export async function usernameStatus(
+  username: string,
+  exceptUserId?: string,
+): Promise<UsernameStatus> {
+  if (!isValidUsername(username)) return "invalid";
+  if (isReservedUsername(username)) return "reserved";
+  if (await isUsernameTaken(username, exceptUserId)) return "taken";
+  return "available";
+}
+
+/**
+ * Free alternatives to a taken username: the name-based form sign-up would
+ * generate, then the wanted name with numeric suffixes.
+ */
+export async function suggestUsernames(
+  wanted: string,
+  names: { firstName?: string | null; lastName?: string | null },
+): Promise<string[]> {
+  const base = wanted.slice(0, USERNAME_MAX_LENGTH - 5).replace(/-+$/, "");
+  const candidates = new Set([
+    generateUsername(names.firstName, names.lastName),
+  ]);
+  while (candidates.size <= SUGGESTION_COUNT * 2) {
+    candidates.add(`${base}-${crypto.randomInt(10, 10000)}`);
+  }
+
+  const taken = await User.find({ username: { $in: [...candidates] } })
+    .select("username")
+    .lean();
+  const takenNames = new Set(taken.map((u) => u.username));
+  return [...candidates]
+    .filter((name) => !takenNames.has(name) && isValidUsername(name))
+    .slice(0, SUGGESTION_COUNT);
+}
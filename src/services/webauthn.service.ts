@@ -0,0 +1,417 @@
+import crypto, { KeyObject } from "node:crypto";
+import { WebAuthnChallenge, IWebAuthnChallenge } from "../models";
+
+/* =============================================================================
+ * WebAuthn (passkeys) — the relying-party checks from the Level 2 spec,
+ * §7.1 registration and §7.2 authentication, built on node:crypto.
+ *
+ * Attestation is requested as "none": we trust the authenticator for the key,
+ * not for its make and model, so attestation statements are not verified.
+ * User verification (PIN / biometric) is required, which makes a passkey a
+ * complete multi-factor sign-in on its own.
+ *
+ * Binary fields travel as base64url strings, the format browsers get from
+ * PublicKeyCredential.toJSON().
+ * ============================================================================= */
+
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_EDDSA = -8;
+export const COSE_ALG_RS256 = -257;
+export const SUPPORTED_COSE_ALGS = [
+  COSE_ALG_ES256,
+  COSE_ALG_EDDSA,
+  COSE_ALG_RS256,
+];
+
+export interface RelyingParty {
+  id: string;
+  origins: string[];
+}
+
+export interface RegistrationResponseJSON {
+  clientDataJSON: string;
+  attestationObject: string;
+  transports?: string[];
+}
+
+export interface AuthenticationResponseJSON {
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+  userHandle?: string | null;
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  /** COSE_Key, base64url — store as-is. */
+  publicKey: string;
+  signCount: number;
+  backedUp: boolean;
+}
+
+export class WebAuthnError extends Error {}
+
+// ─── CBOR (RFC 8949 subset used by WebAuthn) ──────────────────────────────────
+
+type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+const CBOR_ARGUMENT_SIZES: Record<number, number> = { 24: 1, 25: 2, 26: 4, 27: 8 };
+
+/** Decodes one CBOR item; returns it with the offset just past it. */
+function decodeCborItem(buf: Buffer, offset: number): [CborValue, number] {
+  if (offset >= buf.length) throw new WebAuthnError("Truncated CBOR");
+  const initial = buf[offset++];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  if (offset + (CBOR_ARGUMENT_SIZES[info] ?? 0) > buf.length) {
+    throw new WebAuthnError("Truncated CBOR");
+  }
+
+  let length: number;
+  if (info < 24) {
+    length = info;
+  } else if (info === 24) {
+    length = buf.readUInt8(offset);
+    offset += 1;
+  } else if (info === 25) {
+    length = buf.readUInt16BE(offset);
+    offset += 2;
+  } else if (info === 26) {
+    length = buf.readUInt32BE(offset);
+    offset += 4;
+  } else if (info === 27) {
+    const big = buf.readBigUInt64BE(offset);
+    offset += 8;
+    if (big > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new WebAuthnError("CBOR value too large");
+    }
+    length = Number(big);
+  } else {
+    throw new WebAuthnError("Indefinite-length CBOR is not supported");
+  }
+
+  switch (major) {
+    case 0:
+      return [length, offset];
+    case 1:
+      return [-1 - length, offset];
+    case 2: {
+      const end = offset + length;
+      if (end > buf.length) throw new WebAuthnError("Truncated CBOR");
+      return [Buffer.from(buf.subarray(offset, end)), end];
+    }
+    case 3: {
+      const end = offset + length;
+      if (end > buf.length) throw new WebAuthnError("Truncated CBOR");
+      return [buf.toString("utf8", offset, end), end];
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < length; i++) {
+        const [item, next] = decodeCborItem(buf, offset);
+        items.push(item);
+        offset = next;
+      }
+      return [items, offset];
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < length; i++) {
+        const [key, afterKey] = decodeCborItem(buf, offset);
+        const [value, afterValue] = decodeCborItem(buf, afterKey);
+        map.set(key, value);
+        offset = afterValue;
+      }
+      return [map, offset];
+    }
+    case 7:
+      if (info === 20) return [false, offset];
+      if (info === 21) return [true, offset];
+      if (info === 22) return [null, offset];
+      if (info === 23) return [undefined, offset];
+      break;
+  }
+  throw new WebAuthnError("Unsupported CBOR item");
+}
+
+/** Decodes a CBOR item at the start of `buf`, returning it and its length. */
+export function decodeCbor(buf: Buffer): [CborValue, number] {
+  return decodeCborItem(buf, 0);
+}
+
+// ─── Authenticator data ───────────────────────────────────────────────────────
+
+const FLAG_UP = 0x01;
+const FLAG_UV = 0x04;
+const FLAG_BS = 0x10;
+const FLAG_AT = 0x40;
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credentialId?: Buffer;
+  publicKey?: Buffer;
+}
+
+/** Longest credential ID the spec allows (§5.8.3). */
+const MAX_CREDENTIAL_ID_LENGTH = 1023;
+
+function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) throw new WebAuthnError("Authenticator data too short");
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags: data[32],
+    signCount: data.readUInt32BE(33),
+  };
+  if (parsed.flags & FLAG_AT) {
+    // aaguid (16) | credentialIdLength (2) | credentialId | COSE public key
+    if (data.length < 55) {
+      throw new WebAuthnError("Truncated attested credential data");
+    }
+    const idLength = data.readUInt16BE(53);
+    const idEnd = 55 + idLength;
+    if (idLength === 0 || idLength > MAX_CREDENTIAL_ID_LENGTH) {
+      throw new WebAuthnError("Invalid credential ID length");
+    }
+    if (idEnd >= data.length) {
+      throw new WebAuthnError("Truncated attested credential data");
+    }
+    parsed.credentialId = data.subarray(55, idEnd);
+    const [, keyLength] = decodeCbor(data.subarray(idEnd));
+    parsed.publicKey = Buffer.from(data.subarray(idEnd, idEnd + keyLength));
+  }
+  return parsed;
+}
+
+// ─── COSE keys ────────────────────────────────────────────────────────────────
+
+/**
+ * Converts a COSE_Key (RFC 9053) into a Node public key. Keys node:crypto
+ * cannot import (e.g. a point not on the curve) throw WebAuthnError.
+ */
+export function coseToPublicKey(cose: Buffer): { alg: number; key: KeyObject } {
+  const [decoded] = decodeCbor(cose);
+  if (!(decoded instanceof Map)) throw new WebAuthnError("Invalid COSE key");
+  const get = (label: number) => decoded.get(label);
+  const b64 = (label: number) => {
+    const v = get(label);
+    if (!Buffer.isBuffer(v)) throw new WebAuthnError("Invalid COSE key");
+    return v.toString("base64url");
+  };
+
+  const importJwk = (jwk: crypto.JsonWebKey) => {
+    try {
+      return crypto.createPublicKey({ key: jwk, format: "jwk" });
+    } catch {
+      throw new WebAuthnError("Invalid COSE key");
+    }
+  };
+
+  const kty = get(1);
+  const alg = get(3);
+  if (alg === COSE_ALG_ES256 && kty === 2 && get(-1) === 1) {
+    const key = importJwk({ kty: "EC", crv: "P-256", x: b64(-2), y: b64(-3) });
+    return { alg, key };
+  }
+  if (alg === COSE_ALG_EDDSA && kty === 1 && get(-1) === 6) {
+    const key = importJwk({ kty: "OKP", crv: "Ed25519", x: b64(-2) });
+    return { alg, key };
+  }
+  if (alg === COSE_ALG_RS256 && kty === 3) {
+    const key = importJwk({ kty: "RSA", n: b64(-1), e: b64(-2) });
+    return { alg, key };
+  }
+  throw new WebAuthnError("Unsupported public key algorithm");
+}
+
+function verifySignature(
+  cosePublicKey: Buffer,
+  data: Buffer,
+  signature: Buffer,
+): boolean {
+  const { alg, key } = coseToPublicKey(cosePublicKey);
+  try {
+    // WebAuthn ECDSA signatures are DER-encoded (Node's default)
+    if (alg === COSE_ALG_EDDSA) {
+      return crypto.verify(null, data, key, signature);
+    }
+    return crypto.verify("sha256", data, key, signature);
+  } catch {
+    // Malformed signature encoding
+    return false;
+  }
+}
+
+// ─── Ceremonies ───────────────────────────────────────────────────────────────
+
+export const CHALLENGE_TIMEOUT_MS = 5 * 60 * 1000;
+
+export function generateChallenge(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+/** Creates and stores a single-use challenge for one ceremony. */
+export async function issueChallenge(
+  purpose: IWebAuthnChallenge["purpose"],
+  userId?: string,
+): Promise<string> {
+  const challenge = generateChallenge();
+  await WebAuthnChallenge.create({
+    _id: challenge,
+    purpose,
+    userId: userId ?? null,
+    expiresAt: new Date(Date.now() + CHALLENGE_TIMEOUT_MS),
+  });
+  return challenge;
+}
+
+/**
+ * Consumes the challenge a response was made for (read from its client
+ * data). Returns it, or null if it was not issued for this purpose/user,
+ * was already used, or has expired.
+ */
+export async function consumeChallenge(
+  clientDataJSON: string,
+  purpose: IWebAuthnChallenge["purpose"],
+  userId?: string,
+): Promise<string | null> {
+  let challenge: unknown;
+  try {
+    challenge = JSON.parse(
+      Buffer.from(clientDataJSON, "base64url").toString("utf8"),
+    ).challenge;
+  } catch {
+    return null;
+  }
+  if (typeof challenge !== "string" || !challenge) return null;
+
+  const doc = await WebAuthnChallenge.findOneAndDelete({
+    _id: challenge,
+    purpose,
+    userId: userId ?? null,
+    expiresAt: { $gt: new Date() },
+  });
+  return doc ? challenge : null;
+}
+
+function checkClientData(
+  clientDataJSON: string,
+  type: "webauthn.create" | "webauthn.get",
+  expectedChallenge: string,
+  rp: RelyingParty,
+): Buffer {
+  const raw = Buffer.from(clientDataJSON, "base64url");
+  let clientData: { type?: string; challenge?: string; origin?: string };
+  try {
+    clientData = JSON.parse(raw.toString("utf8"));
+  } catch {
+    throw new WebAuthnError("Malformed client data");
+  }
+  if (clientData.type !== type) throw new WebAuthnError("Wrong ceremony type");
+  if (clientData.challenge !== expectedChallenge) {
+    throw new WebAuthnError("Challenge mismatch");
+  }
+  if (!clientData.origin || !rp.origins.includes(clientData.origin)) {
+    throw new WebAuthnError("Unexpected origin");
+  }
+  return raw;
+}
+
+function checkAuthenticatorData(data: AuthenticatorData, rp: RelyingParty) {
+  const expected = crypto.createHash("sha256").update(rp.id).digest();
+  if (!crypto.timingSafeEqual(data.rpIdHash, expected)) {
+    throw new WebAuthnError("Relying party mismatch");
+  }
+  if (!(data.flags & FLAG_UP)) throw new WebAuthnError("User not present");
+  if (!(data.flags & FLAG_UV)) throw new WebAuthnError("User not verified");
+}
+
+/** Verifies navigator.credentials.create() output for `expectedChallenge`. */
+export function verifyRegistrationResponse(
+  response: RegistrationResponseJSON,
+  expectedChallenge: string,
+  rp: RelyingParty,
+): VerifiedRegistration {
+  checkClientData(
+    response.clientDataJSON,
+    "webauthn.create",
+    expectedChallenge,
+    rp,
+  );
+
+  const [attestation] = decodeCbor(
+    Buffer.from(response.attestationObject, "base64url"),
+  );
+  const authData =
+    attestation instanceof Map ? attestation.get("authData") : undefined;
+  if (!Buffer.isBuffer(authData)) {
+    throw new WebAuthnError("Malformed attestation object");
+  }
+
+  const data = parseAuthenticatorData(authData);
+  checkAuthenticatorData(data, rp);
+  if (!data.credentialId || !data.publicKey) {
+    throw new WebAuthnError("No credential in attestation");
+  }
+  coseToPublicKey(data.publicKey); // rejects unsupported algorithms up front
+
+  return {
+    credentialId: data.credentialId.toString("base64url"),
+    publicKey: data.publicKey.toString("base64url"),
+    signCount: data.signCount,
+    backedUp: !!(data.flags & FLAG_BS),
+  };
+}
+
+/**
+ * Verifies navigator.credentials.get() output against a stored credential.
+ * Returns the authenticator's new signature counter.
+ */
+export function verifyAuthenticationResponse(
+  response: AuthenticationResponseJSON,
+  credential: { publicKey: string; signCount: number },
+  expectedChallenge: string,
+  rp: RelyingParty,
+): { signCount: number } {
+  const clientData = checkClientData(
+    response.clientDataJSON,
+    "webauthn.get",
+    expectedChallenge,
+    rp,
+  );
+
+  const authData = Buffer.from(response.authenticatorData, "base64url");
+  const data = parseAuthenticatorData(authData);
+  checkAuthenticatorData(data, rp);
+
+  const signed = Buffer.concat([
+    authData,
+    crypto.createHash("sha256").update(clientData).digest(),
+  ]);
+  const ok = verifySignature(
+    Buffer.from(credential.publicKey, "base64url"),
+    signed,
+    Buffer.from(response.signature, "base64url"),
+  );
+  if (!ok) throw new WebAuthnError("Invalid signature");
+
+  // A counter that fails to advance suggests a cloned authenticator. Synced
+  // passkeys always report 0, which is exempt.
+  if (
+    (data.signCount !== 0 || credential.signCount !== 0) &&
+    data.signCount <= credential.signCount
+  ) {
+    throw new WebAuthnError("Signature counter did not increase");
+  }
+  return { signCount: data.signCount };
+}
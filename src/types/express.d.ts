@@ -1,4 +1,5 @@
 import { AccessTokenPayload } from "../services/jwt.service";
+import { OAuthStateRecord } from "../services/oauth-state.service";
 
 declare global {
   namespace Express {
@@ -7,6 +8,17 @@ declare global {
       email: string;
       userType: string;
       plan: string;
+      /** Absent on access tokens minted before roles existed. */
+      roles?: string[];
+      permissions?: string[];
+      companyId?: string | null;
+      authTime?: number;
+      sessionId?: string;
+    }
+
+    interface Request {
+      /** Validated OAuth state, set by the callback before the strategy runs. */
+      oauthState?: OAuthStateRecord;
     }
   }
 }